@@ -0,0 +1,116 @@
+// Forwards OSC packets arriving over UDP to browsers connected over WebSocket.
+// Browsers cannot open UDP sockets, so point TouchOSC, Max or similar at this
+// relay and connect the app's Controllers panel to it.
+//
+//   node scripts/osc-relay.js [udpPort=9000] [wsPort=8080]
+//
+// Only Node builtins: the WebSocket side is just enough of RFC 6455 to push
+// binary frames and answer pings and closes.
+
+import { createSocket } from 'node:dgram';
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const udpPort = Number(process.argv[2] ?? 9000);
+const wsPort = Number(process.argv[3] ?? 8080);
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const clients = new Set();
+
+// Server frames are never masked; the length takes 1, 3 or 9 bytes
+function encodeFrame(opcode, payload) {
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Client frames are masked; returns null until a whole frame has arrived
+function decodeFrame(buffer) {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const masked = (buffer[1] & 0x80) !== 0;
+  const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+  return { opcode, payload, size: offset + length };
+}
+
+const server = createServer((request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('Connect with a WebSocket to receive OSC packets.\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  clients.add(socket);
+  console.log(`Browser connected (${clients.size} total)`);
+
+  // The app never sends data; only control frames need an answer
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    pending = Buffer.concat([pending, chunk]);
+    for (let frame = decodeFrame(pending); frame; frame = decodeFrame(pending)) {
+      pending = pending.subarray(frame.size);
+      if (frame.opcode === 0x8) {
+        socket.end(encodeFrame(0x8, frame.payload.subarray(0, 2)));
+        return;
+      }
+      if (frame.opcode === 0x9) socket.write(encodeFrame(0xa, frame.payload));
+    }
+  });
+  socket.on('close', () => {
+    clients.delete(socket);
+    console.log(`Browser disconnected (${clients.size} total)`);
+  });
+  socket.on('error', () => clients.delete(socket));
+});
+
+const udp = createSocket('udp4');
+udp.on('message', (packet) => {
+  const frame = encodeFrame(0x2, packet);
+  for (const client of clients) client.write(frame);
+});
+udp.on('error', (err) => {
+  console.error('UDP error:', err.message);
+  process.exit(1);
+});
+
+udp.bind(udpPort, () => console.log(`Listening for OSC on udp://0.0.0.0:${udpPort}`));
+server.listen(wsPort, () => console.log(`Serving OSC to ws://localhost:${wsPort}`));
@@ -1,297 +1,550 @@
-import { useRef, useEffect, useState } from 'react';
+import { useEffect, useState, useMemo, useCallback, useRef, useSyncExternalStore } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { Play, Pause, Upload, Mic, MicOff } from 'lucide-react';
-import Particles from './Particles';
+import { PerformanceMonitor } from '@react-three/drei';
+import { Leva, useControls } from 'leva';
+import { Play, Pause, Upload, Mic, MicOff, Plus, Pencil, Trash2, Box, AppWindow, Maximize, MonitorUp } from 'lucide-react';
+import ParticleLayers from './ParticleLayers';
+import CameraRig from './CameraRig';
+import PaletteEditor from './PaletteEditor';
+import TrailPass from './TrailPass';
+import RenderPanel from './RenderPanel';
+import PresetPanel from './PresetPanel';
+import ModulationPanel from './ModulationPanel';
+import Modulator from './Modulator';
+import AudioSampler from './AudioSampler';
+import TempoPanel from './TempoPanel';
+import AudioSourcePanel from './AudioSourcePanel';
+import PointerForces from './PointerForces';
+import ForcePanel from './ForcePanel';
+import PostPanel from './PostPanel';
+import ControlPanel from './ControlPanel';
+import LayerPanel from './LayerPanel';
+import DebugOverlays from './DebugOverlays';
+import TimelinePlayer from './TimelinePlayer';
+import TimelineEditor from './TimelineEditor';
+import OfflineRenderer, { OfflineRenderJob } from './OfflineRenderer';
 import { useAudioAnalyzer } from './useAudioAnalyzer';
+import { AudioEngine } from './audioEngine';
+import { AudioSourceManager } from './audioSourceManager';
+import { TempoTracker } from './tempoTracker';
+import { AudioFeatureOptions, BandScale, SILENT_AUDIO_DATA } from './audioFeatures';
+import { OfflineRenderProgress, OfflineRenderSettings, downloadBlob } from './offlineRender';
+import { PARTICLE_TIERS, getTier, stepTier, tierParticleCount } from './particleTiers';
+import { BUILT_IN_PALETTES, COLOR_INPUTS, ColorInput, Palette, paletteToCss } from './palettes';
+import { DEFAULT_ROUTES, ModRoute, ModulationMatrix } from './modulation';
+import { ForceEmitter, ForceField, ForceKind, MAX_FORCES, createEmitter } from './forces';
+import { SimulationView } from './simulationView';
+import { SimulationBackend, probeBrowser } from './capabilities';
+import { DEFAULT_POST_EFFECTS, PostEffect } from './postEffects';
+import { ControlSurface, pickOption } from './controlSurface';
+import { Timeline, loadTimeline, storeTimeline } from './timeline';
+import { OutputLink, canFullscreen, openOutputWindow, toggleFullscreen } from './presentation';
+import { useIdle } from './useIdle';
+import { DEFAULT_LAYERS, ParticleLayer } from './layers';
+import {
+  BUILT_IN_PRESETS, DEFAULT_APP_SETTINGS, PRESET_VERSION, Preset, applyControls, captureControls, decodePresetHash, loadSavedPresets,
+} from './presets';
+
+// Shared by live analysis and offline renders so both react the same way
+const ANALYZER_OPTIONS = {
+  lerpFactor: 0.15,
+  transientThreshold: 0.3,
+  transientDecay: 0.92,
+};
 
 const ParticleFlowViz = () => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [particleCount] = useState(100000); // Fixed at 100k for GPGPU
-  const [trailLength, setTrailLength] = useState(0.95);
-  const [colorScheme, setColorScheme] = useState('aurora');
-  const [useMicrophone, setUseMicrophone] = useState(false);
-  
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const audioSourceRef = useRef<MediaElementAudioSourceNode | MediaStreamAudioSourceNode | null>(null);
-  const audioElementRef = useRef<HTMLAudioElement | null>(null);
-  const micStreamRef = useRef<MediaStream | null>(null);
-  const audioUrlRef = useRef<string | null>(null);
-  
-  // Use the audio analyzer hook
-  const audioData = useAudioAnalyzer(
-    audioContextRef.current,
-    analyserRef.current,
-    isPlaying,
+  const [particleTier, setParticleTier] = useState(DEFAULT_APP_SETTINGS.particleTier);
+  const [autoTier, setAutoTier] = useState(DEFAULT_APP_SETTINGS.autoTier);
+  const [trailLength, setTrailLength] = useState(DEFAULT_APP_SETTINGS.trailLength);
+  const [colorScheme, setColorScheme] = useState(DEFAULT_APP_SETTINGS.colorScheme);
+  const [colorInput, setColorInput] = useState<ColorInput>(DEFAULT_APP_SETTINGS.colorInput);
+  const [customPalettes, setCustomPalettes] = useState<Palette[]>([]);
+  const [editingPalette, setEditingPalette] = useState<Palette | 'new' | null>(null);
+  const [mode3D, setMode3D] = useState(DEFAULT_APP_SETTINGS.mode3D);
+  const [bpmOverride, setBpmOverride] = useState('');
+  const [routes, setRoutes] = useState<ModRoute[]>(DEFAULT_ROUTES);
+  const [forceTool, setForceTool] = useState<ForceKind | null>(null);
+  const [placingForces, setPlacingForces] = useState(false);
+  const [emitters, setEmitters] = useState<ForceEmitter[]>([]);
+  const [postEffects, setPostEffects] = useState<PostEffect[]>(DEFAULT_POST_EFFECTS);
+  const [layers, setLayers] = useState<ParticleLayer[]>(DEFAULT_LAYERS);
+  const [timeline, setTimeline] = useState<Timeline>(loadTimeline);
+  const [timelineEnabled, setTimelineEnabled] = useState(true);
+  const [renderJob, setRenderJob] = useState<OfflineRenderJob | null>(null);
+  const [renderProgress, setRenderProgress] = useState<OfflineRenderProgress | null>(null);
+  const [sceneKey, setSceneKey] = useState(0);
+  const [presenting, setPresenting] = useState(false);
+  const presetIndexRef = useRef(-1); // Position in the preset list for next/previous shortcuts
+  
+  // One audio graph for the app's lifetime; sources come and go behind it
+  const audioSources = useMemo(() => new AudioSourceManager({ fftSize: 2048, smoothingTimeConstant: 0.8 }), []);
+  const source = useSyncExternalStore(
+    useCallback((listener: () => void) => audioSources.subscribe(listener), [audioSources]),
+    () => audioSources.getState()
+  );
+  const tempoTracker = useMemo(() => new TempoTracker(), []);
+  // MIDI and OSC controllers; incoming MIDI clock drives the tempo tracker
+  const controlSurface = useMemo(() => new ControlSurface(tempoTracker), [tempoTracker]);
+  const controlState = useSyncExternalStore(
+    useCallback((listener: () => void) => controlSurface.subscribe(listener), [controlSurface]),
+    () => controlSurface.getState()
+  );
+  useEffect(() => () => controlSurface.dispose(), [controlSurface]);
+  const audioEngine = useMemo(() => new AudioEngine(), []);
+  const modulation = useMemo(() => new ModulationMatrix(), []);
+  const forceField = useMemo(() => new ForceField(), []);
+  const simulation = useMemo(() => new SimulationView(), []);
+  
+  // Mirrors the scene to an output window (e.g. on a projector)
+  const outputLink = useMemo(() => new OutputLink(), []);
+  const output = useSyncExternalStore(
+    useCallback((listener: () => void) => outputLink.subscribe(listener), [outputLink]),
+    () => outputLink.getState()
+  );
+  useEffect(() => outputLink.open(), [outputLink]);
+  
+  // While presenting, the UI fades out once the pointer rests
+  const uiHidden = useIdle(presenting) && presenting;
+  
+  // Three only renders with WebGL2, so without it there is nothing to fall back to
+  const browserCapabilities = useMemo(() => probeBrowser(), []);
+  const [simulationBackend, setSimulationBackend] = useState<{ backend: SimulationBackend; count: number } | null>(null);
+  const handleBackendChange = useCallback((backend: SimulationBackend, count: number) => {
+    setSimulationBackend({ backend, count });
+  }, []);
+  
+  const particleCount = tierParticleCount(getTier(particleTier));
+  
+  const analyzer = useControls('Analyzer', {
+    bandCount: { value: 8, min: 1, max: 32, step: 1, label: 'Bands' },
+    bandScale: { value: 'log', options: ['log', 'mel'], label: 'Band Scale' },
+    minFrequency: { value: 30, min: 20, max: 1000, step: 1, label: 'Min Hz' },
+    maxFrequency: { value: 16000, min: 2000, max: 22000, step: 100, label: 'Max Hz' },
+    autoGain: { value: false, label: 'Auto Gain (L/B/M/T)' },
+    gateDb: { value: -80, min: -120, max: -30, step: 1, label: 'Noise Gate (dB)' },
+    gainDecay: { value: 3, min: 0.5, max: 20, label: 'Gain Decay (dB/s)' },
+  });
+  
+  // Band layout and gain from the panel, on top of the fixed smoothing options
+  const analyzerOptions = useMemo<AudioFeatureOptions>(
+    () => ({ ...ANALYZER_OPTIONS, ...analyzer, bandScale: analyzer.bandScale as BandScale }),
+    [analyzer]
+  );
+  
+  const palettes = useMemo(() => [...BUILT_IN_PALETTES, ...customPalettes], [customPalettes]);
+  const palette = useMemo(
+    () => palettes.find(p => p.id === colorScheme) ?? BUILT_IN_PALETTES[0],
+    [colorScheme, palettes]
+  );
+  
+  useEffect(() => {
+    outputLink.setScene({
+      particleCount, trailLength, colorInput, mode3D, palette, palettes, layers, routes, emitters, post: postEffects,
+    });
+  }, [outputLink, particleCount, trailLength, colorInput, mode3D, palette, palettes, layers, routes, emitters, postEffects]);
+  
+  // The scene samples the engine every frame; React only sees throttled snapshots (TempoPanel)
+  useAudioAnalyzer(
+    audioEngine,
+    audioSources.context,
+    audioSources.analyser,
+    source.playing,
     {
       fftSize: 2048,
       smoothingTimeConstant: 0.8,
-      lerpFactor: 0.15,
-      transientThreshold: 0.3,
-      transientDecay: 0.92,
+      ...analyzerOptions,
+      tempoTracker,
     }
   );
   
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    
-    try {
-      if (micStreamRef.current) {
-        micStreamRef.current.getTracks().forEach(track => track.stop());
-        micStreamRef.current = null;
-        setUseMicrophone(false);
-      }
-      
-      // Revoke old blob URL if exists
-      if (audioUrlRef.current) {
-        URL.revokeObjectURL(audioUrlRef.current);
-      }
-      
-      if (audioElementRef.current) {
-        audioElementRef.current.pause();
-        audioElementRef.current.src = '';
-        audioElementRef.current = null;
-      }
-      
-      const url = URL.createObjectURL(file);
-      audioUrlRef.current = url;
-      
-      const audio = new Audio(url);
-      audio.loop = true;
-      audioElementRef.current = audio;
-      
-      // Create audio context first
-      if (!audioContextRef.current) {
-        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-        audioContextRef.current = new AudioContextClass();
-      }
-      
-      // Resume audio context if suspended (required for autoplay policies)
-      if (audioContextRef.current.state === 'suspended') {
-        await audioContextRef.current.resume();
-      }
-      
-      // Disconnect old source if exists
-      if (audioSourceRef.current) {
-        try {
-          audioSourceRef.current.disconnect();
-        } catch (e) {}
-        audioSourceRef.current = null;
-      }
-      
-      // Wait for audio to be ready before creating source
-      await new Promise((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          reject(new Error('Audio loading timeout'));
-        }, 10000); // 10 second timeout
-        
-        audio.addEventListener('canplaythrough', () => {
-          clearTimeout(timeout);
-          resolve(undefined);
-        }, { once: true });
-        
-        audio.addEventListener('error', (e) => {
-          clearTimeout(timeout);
-          reject(e);
-        }, { once: true });
-        
-        audio.load();
-      });
-      
-      // Create new source - can only create once per audio element
-      try {
-        const source = audioContextRef.current.createMediaElementSource(audio);
-        audioSourceRef.current = source;
-        
-        const analyser = audioContextRef.current.createAnalyser();
-        analyser.fftSize = 2048; // Increased for better frequency resolution
-        analyser.smoothingTimeConstant = 0.8;
-        analyserRef.current = analyser;
-        
-        // Connect to both analyser AND destination so we can hear it
-        source.connect(analyser);
-        source.connect(audioContextRef.current.destination);
-      } catch (err: any) {
-        // If error says "InvalidStateError", the audio element already has a source
-        if (err.name === 'InvalidStateError' || err.message?.includes('already connected')) {
-          console.warn('Audio source already exists, trying to use existing setup');
-          // Try to create analyser from existing context
-          if (!analyserRef.current) {
-            const analyser = audioContextRef.current.createAnalyser();
-            analyser.fftSize = 2048; // Increased for better frequency resolution
-            analyser.smoothingTimeConstant = 0.8;
-            analyserRef.current = analyser;
-            // Try to connect if we have a source
-            if (audioSourceRef.current) {
-              try {
-                audioSourceRef.current.connect(analyser);
-              } catch (e) {
-                console.error('Could not connect existing source to analyser:', e);
-              }
-            }
-          }
-        } else {
-          throw err;
-        }
-      }
-      
-      // Ensure audio context is running
-      if (audioContextRef.current.state === 'suspended') {
-        await audioContextRef.current.resume();
-      }
-      
-      // Play audio
-      try {
-        await audio.play();
-        setIsPlaying(true);
-      } catch (playErr: any) {
-        console.error('Error playing audio:', playErr);
-        // Some browsers require user interaction
-        alert('Could not play audio automatically. Please click the play button after uploading.');
-        setIsPlaying(false);
+  // During an offline render the scene reads precomputed features from here instead
+  const offlineAudio = useMemo(() => ({ ...SILENT_AUDIO_DATA }), []);
+  const sceneAudio = renderJob ? offlineAudio : audioEngine.data;
+  
+  // Song time for the timeline: the audio element live, the frame being rendered offline
+  const offlineTime = useMemo(() => ({ seconds: 0 }), []);
+  const getSongTime = useCallback(
+    () => (renderJob ? offlineTime.seconds : audioSources.element.currentTime),
+    [renderJob, offlineTime, audioSources]
+  );
+  
+  useEffect(() => {
+    storeTimeline(timeline);
+  }, [timeline]);
+  
+  useEffect(() => {
+    const bpm = Number(bpmOverride);
+    tempoTracker.setOverride(bpmOverride && bpm > 0 ? bpm : null);
+  }, [tempoTracker, bpmOverride]);
+  
+  const tapTempo = () => {
+    tempoTracker.tap(audioSources.context.currentTime);
+  };
+  
+  // A tapped tempo belongs to the track it was tapped along to
+  useEffect(() => {
+    tempoTracker.clearTap();
+  }, [tempoTracker, source.trackIndex]);
+  
+  // Mapped controls that drive React state rather than leva
+  useEffect(() => {
+    controlSurface.onAppControl = (target, value) => {
+      switch (target) {
+        case 'app.trailLength':
+          setTrailLength(Math.round((0.8 + value * 0.19) * 100) / 100);
+          break;
+        case 'app.colorScheme':
+          setColorScheme(pickOption(palettes, value).id);
+          break;
+        case 'app.colorInput':
+          setColorInput(pickOption(COLOR_INPUTS, value).value);
+          break;
+        case 'app.mode3D':
+          setMode3D(value >= 0.5);
+          break;
+        case 'app.tap':
+          if (value > 0) tempoTracker.tap(audioSources.context.currentTime);
+          break;
       }
-    } catch (err) {
+    };
+    return () => {
+      controlSurface.onAppControl = null;
+    };
+  }, [controlSurface, palettes, tempoTracker, audioSources]);
+  
+  const addFiles = (files: FileList | null) => {
+    if (!files?.length) return;
+    audioSources.addFiles(files).catch((err) => {
       console.error('Error loading audio:', err);
       alert('Error loading audio file. Please try again.');
-      // Cleanup on error
-      if (audioUrlRef.current) {
-        URL.revokeObjectURL(audioUrlRef.current);
-        audioUrlRef.current = null;
-      }
-      if (audioElementRef.current) {
-        audioElementRef.current = null;
+    });
+  };
+  
+  const toggleInput = async (kind: 'microphone' | 'display') => {
+    if (source.kind === kind) {
+      audioSources.stopInput();
+      return;
+    }
+    try {
+      if (kind === 'microphone') {
+        await audioSources.startMicrophone();
+      } else {
+        await audioSources.startDisplayAudio();
       }
+    } catch (err) {
+      console.error(`Error capturing ${kind} audio:`, err);
+      alert(kind === 'microphone'
+        ? 'Could not access microphone. Please check permissions.'
+        : `Could not capture tab audio. ${err instanceof Error ? err.message : ''}`);
     }
   };
   
-  const toggleMicrophone = async () => {
-    if (useMicrophone) {
-      if (micStreamRef.current) {
-        micStreamRef.current.getTracks().forEach(track => track.stop());
-        micStreamRef.current = null;
-      }
-      if (audioSourceRef.current) {
-        try {
-          audioSourceRef.current.disconnect();
-        } catch (e) {}
-        audioSourceRef.current = null;
-      }
-      setUseMicrophone(false);
-      setIsPlaying(false);
-    } else {
-      try {
-        if (audioElementRef.current) {
-          audioElementRef.current.pause();
-        }
-        
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        micStreamRef.current = stream;
-        
-        if (!audioContextRef.current) {
-          const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-          audioContextRef.current = new AudioContextClass();
-        }
-        
-        // Resume audio context if suspended
-        if (audioContextRef.current.state === 'suspended') {
-          await audioContextRef.current.resume();
-        }
-        
-        if (audioSourceRef.current) {
-          try {
-            audioSourceRef.current.disconnect();
-          } catch (e) {}
-        }
-        
-        const source = audioContextRef.current.createMediaStreamSource(stream);
-        audioSourceRef.current = source;
-        
-        const analyser = audioContextRef.current.createAnalyser();
-        analyser.fftSize = 2048; // Increased for better frequency resolution
-        analyser.smoothingTimeConstant = 0.8;
-        analyserRef.current = analyser;
-        
-        source.connect(analyser);
-        
-        setUseMicrophone(true);
-        setIsPlaying(true);
-      } catch (err) {
-        console.error('Error accessing microphone:', err);
-        alert('Could not access microphone. Please check permissions.');
-      }
+  const savePalette = (saved: Palette) => {
+    setCustomPalettes(prev =>
+      prev.some(p => p.id === saved.id) ? prev.map(p => (p.id === saved.id ? saved : p)) : [...prev, saved]
+    );
+    setColorScheme(saved.id);
+    setEditingPalette(null);
+  };
+  
+  const deletePalette = (id: string) => {
+    setCustomPalettes(prev => prev.filter(p => p.id !== id));
+    if (colorScheme === id) setColorScheme(BUILT_IN_PALETTES[0].id);
+  };
+  
+  // New emitters take the pointer's current radius, strength and falloff
+  const placeEmitter = useCallback((kind: ForceKind, position: [number, number, number]) => {
+    setEmitters(prev =>
+      prev.length >= MAX_FORCES ? prev : [...prev, createEmitter({ kind, position, ...forceField.pointerShape })]
+    );
+  }, [forceField]);
+  
+  const capturePreset = (name: string): Preset => ({
+    version: PRESET_VERSION,
+    name,
+    app: {
+      particleTier,
+      autoTier,
+      trailLength,
+      colorScheme,
+      colorInput,
+      mode3D,
+      bpmOverride: Number(bpmOverride) > 0 ? Number(bpmOverride) : null,
+    },
+    controls: captureControls(),
+    routes,
+    emitters,
+    post: postEffects,
+    mappings: controlState.mappings,
+    layers,
+    palette: palette.custom ? palette : undefined,
+  });
+  
+  const applyPreset = useCallback((preset: Preset) => {
+    const { app } = preset;
+    if (preset.palette) {
+      const embedded = { ...preset.palette, custom: true };
+      setCustomPalettes(prev => [...prev.filter(p => p.id !== embedded.id), embedded]);
     }
+    setParticleTier(app.particleTier);
+    setAutoTier(app.autoTier);
+    setTrailLength(app.trailLength);
+    setColorScheme(app.colorScheme);
+    setColorInput(app.colorInput);
+    setMode3D(app.mode3D);
+    setBpmOverride(app.bpmOverride ? String(app.bpmOverride) : '');
+    setRoutes(preset.routes);
+    setEmitters(preset.emitters);
+    setPostEffects(preset.post);
+    setLayers(preset.layers);
+    controlSurface.setMappings(preset.mappings);
+    applyControls(preset.controls);
+  }, [controlSurface]);
+  
+  // Restore a shared look from the URL hash
+  useEffect(() => {
+    const preset = decodePresetHash(window.location.hash);
+    if (preset) applyPreset(preset);
+  }, [applyPreset]);
+  
+  const startRender = (settings: OfflineRenderSettings) => {
+    const track = audioSources.currentTrack;
+    if (!track) return;
+    audioSources.pause();
+    // Remount the scene so every render starts from a fresh simulation
+    setSceneKey(key => key + 1);
+    setRenderProgress({ stage: 'analyzing', frame: 0, totalFrames: 0 });
+    setRenderJob({
+      file: track.file,
+      settings,
+      featureOptions: analyzerOptions,
+      controller: new AbortController(),
+    });
   };
   
-  const togglePlayPause = async () => {
-    if (audioElementRef.current) {
-      try {
-        // Resume audio context if suspended
-        if (audioContextRef.current && audioContextRef.current.state === 'suspended') {
-          await audioContextRef.current.resume();
-        }
-        
-        if (isPlaying) {
-          // Pause audio
-          audioElementRef.current.pause();
-          setIsPlaying(false);
-        } else {
-          // Play audio
-          await audioElementRef.current.play();
-          setIsPlaying(true);
-        }
-      } catch (err) {
-        console.error('Playback error:', err);
-        alert('Error playing audio. Please try again.');
-        setIsPlaying(false);
-      }
-    } else if (useMicrophone) {
-      setIsPlaying(!isPlaying);
+  const finishRender = useCallback((blob: Blob | null, error?: unknown) => {
+    if (blob) {
+      const name = audioSources.currentTrack?.name.replace(/\.[^.]+$/, '') ?? 'render';
+      downloadBlob(blob, `${name}.${blob.type === 'video/webm' ? 'webm' : 'zip'}`);
+    } else if (!(error instanceof DOMException && error.name === 'AbortError')) {
+      console.error('Offline render failed:', error);
+      alert('Rendering failed. See the console for details.');
+    }
+    setRenderJob(null);
+    setRenderProgress(null);
+    setSceneKey(key => key + 1);
+  }, [audioSources]);
+  
+  const togglePlayPause = () => {
+    audioSources.togglePlay().catch((err) => {
+      console.error('Playback error:', err);
+      alert('Error playing audio. Please try again.');
+    });
+  };
+  
+  const stepPreset = (offset: number) => {
+    const presets = [...BUILT_IN_PRESETS, ...loadSavedPresets()];
+    presetIndexRef.current = (presetIndexRef.current + offset + presets.length) % presets.length;
+    applyPreset(presets[presetIndexRef.current]);
+  };
+  
+  // Back to a calm state: a fresh simulation (which also clears trails and feedback) with no placed forces
+  const panic = () => {
+    setSceneKey(key => key + 1);
+    setEmitters([]);
+    forceField.clearPointers();
+    outputLink.panic();
+  };
+  
+  const togglePresentation = () => {
+    const next = !presenting;
+    setPresenting(next);
+    if (canFullscreen() && next !== !!document.fullscreenElement) {
+      toggleFullscreen().catch(err => console.warn('Fullscreen unavailable:', err));
     }
   };
   
-  // Sync audio element state with React state
+  // Leaving fullscreen (e.g. with Esc) ends the presentation
   useEffect(() => {
-    const audio = audioElementRef.current;
-    if (!audio) return;
-    
-    const handlePlay = () => setIsPlaying(true);
-    const handlePause = () => setIsPlaying(false);
-    const handleEnded = () => setIsPlaying(false);
-    
-    audio.addEventListener('play', handlePlay);
-    audio.addEventListener('pause', handlePause);
-    audio.addEventListener('ended', handleEnded);
-    
-    return () => {
-      audio.removeEventListener('play', handlePlay);
-      audio.removeEventListener('pause', handlePause);
-      audio.removeEventListener('ended', handleEnded);
+    const onChange = () => {
+      if (!document.fullscreenElement) setPresenting(false);
+    };
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+  
+  const shortcuts: Record<string, () => void> = {
+    ' ': togglePlayPause,
+    ArrowRight: () => stepPreset(1),
+    PageDown: () => stepPreset(1),
+    ArrowLeft: () => stepPreset(-1),
+    PageUp: () => stepPreset(-1),
+    f: togglePresentation,
+    r: panic,
+  };
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+  
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+      // Leave typing in the panels alone
+      if (e.target instanceof HTMLElement && e.target.closest('input, select, textarea, [contenteditable="true"]')) return;
+      const action = shortcutsRef.current[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+      if (!action) return;
+      e.preventDefault();
+      action();
     };
-  }, [audioElementRef.current]);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+  
+  if (!browserCapabilities?.webgl2) {
+    return (
+      <div className="flex w-full h-screen items-center justify-center bg-black p-8 text-white">
+        <div className="max-w-md space-y-2 text-center">
+          <div className="text-lg font-semibold">WebGL2 is not available</div>
+          <div className="text-sm text-gray-400">
+            {browserCapabilities
+              ? 'This browser only offers WebGL1, which the renderer no longer supports.'
+              : 'WebGL is disabled or unsupported in this browser.'}
+            {' '}Try a current version of Chrome, Firefox or Safari, and check that hardware acceleration is on.
+          </div>
+        </div>
+      </div>
+    );
+  }
   
   return (
-    <div className="relative w-full h-screen bg-black overflow-hidden">
-      <Canvas
-        camera={{ position: [0, 0, 800], fov: 60 }}
-        gl={{ alpha: false, antialias: false }}
-        dpr={[1, 2]}
+    <div
+      className="relative w-full h-screen bg-black overflow-hidden"
+      // Audio files dropped anywhere join the playlist
+      onDragOver={(e) => {
+        if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+      }}
+      onDrop={(e) => {
+        if (!e.dataTransfer.files.length) return;
+        e.preventDefault();
+        addFiles(e.dataTransfer.files);
+      }}
+    >
+      {/* An offline render sizes the canvas to the output resolution, hidden behind the progress overlay */}
+      <div
+        className={renderJob ? 'absolute top-0 left-0' : 'absolute inset-0'}
+        style={renderJob ? { width: renderJob.settings.width, height: renderJob.settings.height } : undefined}
       >
-        <color attach="background" args={['#000000']} />
-        <Particles audioData={audioData} colorScheme={colorScheme} particleCount={particleCount} />
-      </Canvas>
+        <Canvas
+          camera={{ position: [0, 0, 800], fov: 60, near: 1, far: 10000 }}
+          gl={{ alpha: false, antialias: false }}
+          dpr={renderJob ? 1 : [1, 2]}
+          frameloop={renderJob ? 'never' : 'always'}
+        >
+          <color attach="background" args={['#000000']} />
+          <AudioSampler engine={audioEngine} onSample={renderJob ? undefined : (data) => outputLink.sendAudio(data)} />
+          <PointerForces
+            field={forceField}
+            emitters={emitters}
+            tool={renderJob ? null : forceTool}
+            placing={placingForces}
+            onPlace={placeEmitter}
+          />
+          <group key={sceneKey}>
+            {timelineEnabled && <TimelinePlayer timeline={timeline} getTime={getSongTime} />}
+            <Modulator matrix={modulation} routes={routes} audioData={sceneAudio} />
+            <ParticleLayers
+              layers={layers}
+              audioData={sceneAudio}
+              modulation={modulation}
+              forces={forceField}
+              simulation={simulation}
+              onBackendChange={handleBackendChange}
+              palette={palette}
+              palettes={palettes}
+              colorInput={colorInput}
+              mode3D={mode3D}
+              particleCount={particleCount}
+            />
+            <CameraRig mode3D={mode3D} modulation={modulation} locked={!!forceTool} />
+            <TrailPass trailLength={trailLength} effects={postEffects} modulation={modulation} />
+          </group>
+          {!renderJob && <DebugOverlays simulation={simulation} engine={audioEngine} />}
+          {autoTier && !renderJob && (
+            <PerformanceMonitor
+              flipflops={3}
+              onDecline={() => setParticleTier(id => stepTier(id, -1).id)}
+              onIncline={() => setParticleTier(id => stepTier(id, 1, browserCapabilities?.maxTextureSize).id)}
+            />
+          )}
+          {renderJob && (
+            <OfflineRenderer
+              job={renderJob}
+              audioTarget={offlineAudio}
+              timeTarget={offlineTime}
+              onProgress={setRenderProgress}
+              onComplete={finishRender}
+            />
+          )}
+        </Canvas>
+      </div>
       
-      <div className="absolute top-4 left-4 bg-black/70 backdrop-blur-sm rounded-lg p-4 text-white space-y-3 max-w-xs z-10">
+      <Leva hidden={uiHidden} />
+      
+      {simulationBackend?.backend.kind === 'cpu' && !renderJob && !uiHidden && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 max-w-md rounded-lg bg-amber-900/80 px-3 py-2 text-xs text-amber-100">
+          Simulating {simulationBackend.count.toLocaleString()} particles on the CPU: {simulationBackend.backend.reason}.
+          Custom GLSL fields run as curl noise{mode3D && ', and 3D fields flow only across the xy plane'}.
+        </div>
+      )}
+      
+      {!renderJob && !uiHidden && (
+        <TimelineEditor
+          manager={audioSources}
+          timeline={timeline}
+          enabled={timelineEnabled}
+          onChange={setTimeline}
+          onEnabledChange={setTimelineEnabled}
+        />
+      )}
+      
+      {renderJob && renderProgress && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/90 text-white">
+          <div className="w-80 space-y-3">
+            <div className="text-lg font-semibold">
+              {renderProgress.stage === 'analyzing' && 'Analyzing audio…'}
+              {renderProgress.stage === 'rendering' && `Rendering frame ${renderProgress.frame} / ${renderProgress.totalFrames}`}
+              {renderProgress.stage === 'finalizing' && 'Finalizing…'}
+            </div>
+            <div className="h-2 bg-gray-800 rounded">
+              <div
+                className="h-2 bg-pink-600 rounded"
+                style={{ width: `${renderProgress.totalFrames ? (renderProgress.frame / renderProgress.totalFrames) * 100 : 0}%` }}
+              />
+            </div>
+            <button
+              onClick={() => renderJob.controller.abort()}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      
+      <div
+        className={`absolute top-4 left-4 bg-black/70 backdrop-blur-sm rounded-lg p-4 text-white space-y-3 max-w-xs max-h-[calc(100vh-2rem)] overflow-y-auto z-10 transition-opacity duration-500 ${
+          uiHidden ? 'opacity-0 pointer-events-none' : ''
+        }`}
+      >
         <h2 className="text-lg font-semibold mb-2">Particle Flow Visualizer</h2>
         
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2">
           <button
             onClick={togglePlayPause}
-            disabled={!audioElementRef.current && !useMicrophone}
+            disabled={source.kind === 'none' && source.tracks.length === 0}
             className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded-lg transition-colors"
           >
-            {isPlaying ? <Pause size={18} /> : <Play size={18} />}
-            {isPlaying ? 'Pause' : 'Play'}
+            {source.playing ? <Pause size={18} /> : <Play size={18} />}
+            {source.playing ? 'Pause' : 'Play'}
           </button>
           
           <label className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg cursor-pointer transition-colors">
@@ -300,28 +553,100 @@ const ParticleFlowViz = () => {
             <input
               type="file"
               accept="audio/*"
-              onChange={handleFileUpload}
+              multiple
+              onChange={(e) => {
+                addFiles(e.target.files);
+                e.target.value = '';
+              }}
               className="hidden"
             />
           </label>
           
           <button
-            onClick={toggleMicrophone}
+            onClick={() => toggleInput('microphone')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+              source.kind === 'microphone' ? 'bg-red-600 hover:bg-red-700' : 'bg-purple-600 hover:bg-purple-700'
+            }`}
+            title="Microphone / line in"
+          >
+            {source.kind === 'microphone' ? <MicOff size={18} /> : <Mic size={18} />}
+          </button>
+          
+          <button
+            onClick={() => toggleInput('display')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+              source.kind === 'display' ? 'bg-red-600 hover:bg-red-700' : 'bg-purple-600 hover:bg-purple-700'
+            }`}
+            title="Tab or system audio"
+          >
+            <AppWindow size={18} />
+          </button>
+          
+          <button
+            onClick={() => setMode3D(!mode3D)}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+              mode3D ? 'bg-amber-600 hover:bg-amber-700' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            title="Toggle 3D flow field"
+          >
+            <Box size={18} />
+            3D
+          </button>
+          
+          <button
+            onClick={togglePresentation}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+              presenting ? 'bg-amber-600 hover:bg-amber-700' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            title="Presentation mode (F). Space: play/pause, ←/→: previous/next preset, R: panic reset"
+          >
+            <Maximize size={18} />
+          </button>
+          
+          <button
+            onClick={() => openOutputWindow()}
             className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
-              useMicrophone ? 'bg-red-600 hover:bg-red-700' : 'bg-purple-600 hover:bg-purple-700'
+              output.connected ? 'bg-green-700 hover:bg-green-600' : 'bg-gray-700 hover:bg-gray-600'
             }`}
+            title={output.connected ? 'Output window connected' : 'Open an output window with only the render'}
           >
-            {useMicrophone ? <MicOff size={18} /> : <Mic size={18} />}
+            <MonitorUp size={18} />
           </button>
         </div>
         
+        <AudioSourcePanel manager={audioSources} state={source} />
+        
         <div>
           <label className="block text-sm mb-1">
             Particles: {particleCount.toLocaleString()}
           </label>
-          <div className="text-xs text-gray-400">Fixed at 100k for GPGPU</div>
+          <select
+            value={autoTier ? 'auto' : particleTier}
+            onChange={(e) => {
+              if (e.target.value === 'auto') {
+                setAutoTier(true);
+              } else {
+                setAutoTier(false);
+                setParticleTier(e.target.value);
+              }
+            }}
+            className="w-full px-3 py-2 bg-gray-800 rounded-lg"
+          >
+            <option value="auto">Auto (adapts to frame rate)</option>
+            {PARTICLE_TIERS.map(tier => (
+              <option key={tier.id} value={tier.id}>{tier.label}</option>
+            ))}
+          </select>
         </div>
         
+        <TempoPanel
+          engine={audioEngine}
+          bpmOverride={bpmOverride}
+          onBpmOverrideChange={setBpmOverride}
+          onTap={tapTempo}
+          onClearTap={() => tempoTracker.clearTap()}
+        />
+        
         <div>
           <label className="block text-sm mb-1">
             Trail Length: {(trailLength * 100).toFixed(0)}%
@@ -339,17 +664,94 @@ const ParticleFlowViz = () => {
         
         <div>
           <label className="block text-sm mb-1">Color Scheme</label>
+          <div className="flex gap-2">
+            <select
+              value={colorScheme}
+              onChange={(e) => setColorScheme(e.target.value)}
+              className="flex-1 min-w-0 px-3 py-2 bg-gray-800 rounded-lg"
+            >
+              {BUILT_IN_PALETTES.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+              {customPalettes.length > 0 && (
+                <optgroup label="Custom">
+                  {customPalettes.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <button
+              onClick={() => setEditingPalette('new')}
+              className="px-2 bg-gray-800 hover:bg-gray-700 rounded-lg"
+              title="New palette"
+            >
+              <Plus size={16} />
+            </button>
+            {palette.custom && (
+              <>
+                <button
+                  onClick={() => setEditingPalette(palette)}
+                  className="px-2 bg-gray-800 hover:bg-gray-700 rounded-lg"
+                  title="Edit palette"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  onClick={() => deletePalette(palette.id)}
+                  className="px-2 bg-gray-800 hover:bg-gray-700 rounded-lg"
+                  title="Delete palette"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </>
+            )}
+          </div>
+          <div className="h-2 mt-2 rounded" style={{ background: paletteToCss(palette) }} />
+        </div>
+        
+        {editingPalette && (
+          <PaletteEditor
+            key={editingPalette === 'new' ? 'new' : editingPalette.id}
+            initial={editingPalette === 'new' ? undefined : editingPalette}
+            onSave={savePalette}
+            onCancel={() => setEditingPalette(null)}
+          />
+        )}
+        
+        <div>
+          <label className="block text-sm mb-1">Color By</label>
           <select
-            value={colorScheme}
-            onChange={(e) => setColorScheme(e.target.value)}
+            value={colorInput}
+            onChange={(e) => setColorInput(e.target.value as ColorInput)}
             className="w-full px-3 py-2 bg-gray-800 rounded-lg"
           >
-            <option value="aurora">Aurora</option>
-            <option value="fire">Fire</option>
-            <option value="ocean">Ocean</option>
-            <option value="rainbow">Rainbow</option>
+            {COLOR_INPUTS.map(input => (
+              <option key={input.value} value={input.value}>{input.label}</option>
+            ))}
           </select>
         </div>
+        
+        <LayerPanel layers={layers} palettes={palettes} particleCount={particleCount} onChange={setLayers} />
+        
+        <ForcePanel
+          tool={forceTool}
+          placing={placingForces}
+          emitters={emitters}
+          onToolChange={setForceTool}
+          onPlacingChange={setPlacingForces}
+          onEmittersChange={setEmitters}
+        />
+        
+        <ModulationPanel routes={routes} bandCount={analyzer.bandCount} onChange={setRoutes} />
+        
+        <PostPanel effects={postEffects} onChange={setPostEffects} />
+        
+        <ControlPanel surface={controlSurface} state={controlState} />
+        
+        <PresetPanel capture={capturePreset} onApply={applyPreset} />
+        
+        <RenderPanel disabled={!audioSources.currentTrack || !!renderJob} onRender={startRender} />
       </div>
     </div>
   );
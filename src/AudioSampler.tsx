@@ -0,0 +1,21 @@
+import { useFrame } from '@react-three/fiber';
+import { AudioEngine } from './audioEngine';
+import { AudioAnalyzerData } from './audioFeatures';
+
+interface AudioSamplerProps {
+  engine: AudioEngine;
+  onSample?: (data: AudioAnalyzerData) => void; // Each frame's features, e.g. for an output window
+}
+
+/**
+ * Samples the audio engine at the start of every frame, before the modulation
+ * matrix and the scene read its data.
+ */
+export default function AudioSampler({ engine, onSample }: AudioSamplerProps) {
+  useFrame(() => {
+    engine.sample();
+    onSample?.(engine.data);
+  }, -2);
+
+  return null;
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { SkipBack, SkipForward, X } from 'lucide-react';
+import { AudioSourceManager, AudioSourceState } from './audioSourceManager';
+
+interface AudioSourcePanelProps {
+  manager: AudioSourceManager;
+  state: AudioSourceState;
+}
+
+const TRACK_DRAG_TYPE = 'application/x-particle-flow-track';
+
+function formatTime(seconds: number): string {
+  if (!Number.isFinite(seconds)) return '0:00';
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+export default function AudioSourcePanel({ manager, state }: AudioSourcePanelProps) {
+  const [time, setTime] = useState({ current: 0, duration: 0 });
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const live = state.kind === 'microphone' || state.kind === 'display';
+
+  // The element's own events are plenty for a seek bar (about 4Hz)
+  useEffect(() => {
+    const element = manager.element;
+    const sync = () => setTime({ current: element.currentTime, duration: element.duration || 0 });
+    const events = ['timeupdate', 'durationchange', 'seeked', 'emptied'];
+    events.forEach(event => element.addEventListener(event, sync));
+    return () => events.forEach(event => element.removeEventListener(event, sync));
+  }, [manager]);
+
+  const showError = (action: string) => (err: unknown) => {
+    console.error(`Error ${action}:`, err);
+    alert(err instanceof Error ? err.message : `Error ${action}.`);
+  };
+
+  return (
+    <div className="space-y-2">
+      {state.tracks.length > 0 && (
+        <div>
+          <div className="flex gap-2 items-center">
+            <button
+              onClick={() => manager.previous().catch(showError('playing audio'))}
+              className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded-lg"
+              title="Previous"
+            >
+              <SkipBack size={14} />
+            </button>
+            <input
+              type="range"
+              min="0"
+              max={time.duration || 0}
+              step="0.1"
+              value={time.current}
+              onChange={(e) => manager.seek(Number(e.target.value))}
+              disabled={state.kind !== 'playlist' || !time.duration}
+              className="flex-1 min-w-0"
+            />
+            <button
+              onClick={() => manager.next().catch(showError('playing audio'))}
+              className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded-lg"
+              title="Next"
+            >
+              <SkipForward size={14} />
+            </button>
+          </div>
+          <div className="text-xs text-gray-400 text-right">
+            {formatTime(time.current)} / {formatTime(time.duration)}
+          </div>
+          <ol className="mt-1 max-h-32 overflow-y-auto text-sm">
+            {state.tracks.map((track, index) => (
+              <li
+                key={track.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(TRACK_DRAG_TYPE, String(index));
+                  setDragIndex(index);
+                }}
+                onDragOver={(e) => {
+                  if (dragIndex === null) return;
+                  e.preventDefault();
+                  e.stopPropagation();
+                }}
+                onDrop={(e) => {
+                  if (dragIndex === null) return;
+                  e.preventDefault();
+                  e.stopPropagation();
+                  manager.moveTrack(dragIndex, index);
+                  setDragIndex(null);
+                }}
+                onDragEnd={() => setDragIndex(null)}
+                className={`flex items-center gap-2 px-2 py-1 rounded cursor-grab ${
+                  index === state.trackIndex && state.kind === 'playlist' ? 'bg-gray-700' : 'hover:bg-gray-800'
+                }`}
+              >
+                <button
+                  onClick={() => manager.playTrack(index).catch(showError('playing audio'))}
+                  className="flex-1 min-w-0 truncate text-left"
+                  title={track.name}
+                >
+                  {index + 1}. {track.name}
+                </button>
+                <button
+                  onClick={() => manager.removeTrack(track.id)}
+                  className="text-gray-500 hover:text-white"
+                  title="Remove from playlist"
+                >
+                  <X size={12} />
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+      {state.tracks.length === 0 && !live && (
+        <div className="text-xs text-gray-500">Drop audio files anywhere to build a playlist.</div>
+      )}
+
+      <div>
+        <label className="block text-sm mb-1">Input Device</label>
+        <select
+          value={state.inputDeviceId}
+          onChange={(e) => manager.setInputDevice(e.target.value).catch(showError('switching input'))}
+          className="w-full px-3 py-2 bg-gray-800 rounded-lg text-sm"
+        >
+          <option value="">System default</option>
+          {state.inputDevices
+            .filter(device => device.deviceId && device.deviceId !== 'default')
+            .map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label || `Input ${index + 1}`}
+              </option>
+            ))}
+        </select>
+      </div>
+
+      {live && (
+        <div className="flex gap-2 items-center text-sm">
+          <label className="shrink-0">Gain {state.inputGain.toFixed(1)}×</label>
+          <input
+            type="range"
+            min="0"
+            max="4"
+            step="0.1"
+            value={state.inputGain}
+            onChange={(e) => manager.setInputGain(Number(e.target.value))}
+            className="flex-1 min-w-0"
+          />
+          <label className="flex items-center gap-1" title="Hear the input through the speakers">
+            <input
+              type="checkbox"
+              checked={state.monitor}
+              onChange={(e) => manager.setMonitor(e.target.checked)}
+            />
+            Monitor
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { ComponentRef, useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { FlyControls, OrbitControls } from '@react-three/drei';
+import { useControls } from 'leva';
+import { ModulationMatrix } from './modulation';
+
+interface CameraRigProps {
+  mode3D: boolean;
+  modulation: ModulationMatrix;
+  locked?: boolean; // Pointer is busy (e.g. with forces); navigation ignores it
+}
+
+const HOME_POSITION: [number, number, number] = [0, 0, 800];
+
+/**
+ * Fixed front-on camera in 2D mode; orbit or fly navigation in 3D mode,
+ * with auto-rotation that can speed up with the music.
+ */
+export default function CameraRig({ mode3D, modulation, locked = false }: CameraRigProps) {
+  const camera = useThree((state) => state.camera);
+  const orbitRef = useRef<ComponentRef<typeof OrbitControls>>(null);
+
+  const controls = useControls('Camera', {
+    navigation: { value: 'orbit', options: ['orbit', 'fly'] },
+    autoRotate: true,
+    rotateSpeed: { value: 0.5, min: 0.0, max: 5.0 },
+    audioSync: { value: 1.0, min: 0.0, max: 5.0, label: 'Audio Sync' },
+  });
+
+  // Return to the home view whenever the navigation style changes
+  useEffect(() => {
+    camera.position.set(...HOME_POSITION);
+    camera.up.set(0, 1, 0);
+    camera.lookAt(0, 0, 0);
+    orbitRef.current?.target.set(0, 0, 0);
+  }, [camera, mode3D, controls.navigation]);
+
+  useFrame(() => {
+    const orbit = orbitRef.current;
+    if (!orbit) return;
+
+    // Modulation (by default louder passages and transients) spins the view faster
+    orbit.autoRotateSpeed = controls.rotateSpeed * (1 + modulation.values.cameraSpeed * controls.audioSync);
+  });
+
+  if (!mode3D) return null;
+
+  if (controls.navigation === 'fly') {
+    // Fly controls cannot be disabled, so they step aside while locked
+    if (locked) return null;
+    return <FlyControls makeDefault movementSpeed={300} rollSpeed={0.5} dragToLook />;
+  }
+
+  return (
+    <OrbitControls
+      ref={orbitRef}
+      makeDefault
+      enabled={!locked}
+      enableDamping
+      autoRotate={controls.autoRotate}
+      minDistance={50}
+      maxDistance={4000}
+    />
+  );
+}
@@ -0,0 +1,152 @@
+import { useMemo } from 'react';
+import { levaStore } from 'leva';
+import { Plus, Trash2, ArrowRight, Piano, Radio, Crosshair } from 'lucide-react';
+import { APP_TARGETS, ControlSurface, ControlSurfaceState, describeSource, levaTargets } from './controlSurface';
+
+interface ControlPanelProps {
+  surface: ControlSurface;
+  state: ControlSurfaceState;
+}
+
+const selectClass = 'min-w-0 px-1 py-1 bg-gray-800 rounded text-xs';
+const numberClass = 'w-14 px-1 py-1 bg-gray-800 rounded text-xs';
+
+const STATUS_COLORS = { off: 'text-gray-500', connecting: 'text-amber-400', on: 'text-green-400', error: 'text-red-400' };
+
+export default function ControlPanel({ surface, state }: ControlPanelProps) {
+  // Re-lists targets as leva controls mount and unmount
+  const levaData = levaStore.useStore(store => store.data);
+  const targets = useMemo(() => levaTargets(levaData), [levaData]);
+
+  const targetLabel = (value: string) =>
+    APP_TARGETS.find(t => t.value === value)?.label ?? targets.find(t => t.value === value)?.label;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="text-sm">Controllers</label>
+        <div className="flex gap-1">
+          <button
+            onClick={() => (state.midi === 'on' ? surface.disconnectMidi() : surface.connectMidi())}
+            className={`px-2 py-1 rounded-lg ${state.midi === 'on' ? 'bg-green-700 hover:bg-green-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+            title={state.midi === 'on' ? 'Disconnect MIDI' : 'Connect MIDI'}
+          >
+            <Piano size={14} />
+          </button>
+          <button
+            onClick={() => surface.addMapping()}
+            className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded-lg"
+            title="Add mapping (then move a control to bind it)"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="text-xs space-y-0.5 mb-1">
+        <div className={STATUS_COLORS[state.midi]}>
+          MIDI: {state.midi === 'error' ? state.midiError
+            : state.midi === 'on' ? (state.midiInputs.length ? state.midiInputs.join(', ') : 'no inputs')
+            : state.midi}
+        </div>
+        {state.clockBpm !== null && (
+          <div className="text-green-400">Clock: {state.clockBpm.toFixed(1)} BPM (drives tempo)</div>
+        )}
+      </div>
+
+      <form
+        className="flex gap-1 items-center mb-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          const url = new FormData(e.currentTarget).get('url');
+          if (state.osc === 'on' || state.osc === 'connecting') surface.disconnectOsc();
+          else if (typeof url === 'string' && url) surface.connectOsc(url);
+        }}
+      >
+        <Radio size={12} className={`shrink-0 ${STATUS_COLORS[state.osc]}`} />
+        <input
+          name="url"
+          defaultValue={state.oscUrl}
+          className="flex-1 min-w-0 px-1 py-1 bg-gray-800 rounded text-xs"
+          title="OSC bridge (run npm run osc-relay to forward UDP OSC)"
+        />
+        <button type="submit" className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded text-xs">
+          {state.osc === 'on' || state.osc === 'connecting' ? 'Disconnect' : 'Connect OSC'}
+        </button>
+      </form>
+
+      {state.mappings.length === 0 && <div className="text-xs text-gray-500">No mappings: add one and move a knob.</div>}
+      <div className="space-y-2">
+        {state.mappings.map(mapping => {
+          const learning = state.learning === mapping.id;
+          return (
+            <div key={mapping.id} className="p-2 bg-gray-900 rounded-lg space-y-1">
+              <div className="flex gap-1 items-center">
+                <button
+                  onClick={() => surface.learn(learning ? null : mapping.id)}
+                  className={`flex flex-1 min-w-0 items-center gap-1 px-1 py-1 rounded text-xs ${
+                    learning ? 'bg-pink-700 animate-pulse' : 'bg-gray-800 hover:bg-gray-700'
+                  }`}
+                  title="Learn: bind the next control that moves"
+                >
+                  <Crosshair size={12} className="shrink-0" />
+                  <span className="truncate">{learning ? 'Move a control…' : describeSource(mapping)}</span>
+                </button>
+                <ArrowRight size={12} className="shrink-0 text-gray-500" />
+                <select
+                  value={mapping.target}
+                  onChange={(e) => surface.updateMapping(mapping.id, { target: e.target.value })}
+                  className={`flex-1 ${selectClass}`}
+                >
+                  <optgroup label="App">
+                    {APP_TARGETS.map(target => (
+                      <option key={target.value} value={target.value}>{target.label}</option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Controls">
+                    {targets.map(target => (
+                      <option key={target.value} value={target.value}>{target.label}</option>
+                    ))}
+                  </optgroup>
+                  {!targetLabel(mapping.target) && (
+                    <option value={mapping.target}>{mapping.target} (inactive)</option>
+                  )}
+                </select>
+                <button
+                  onClick={() => surface.removeMapping(mapping.id)}
+                  className="px-1 text-gray-400 hover:text-white"
+                  title="Remove mapping"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              <div className="flex gap-1 items-center text-xs text-gray-400">
+                <span>Range</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={mapping.min}
+                  onChange={(e) => surface.updateMapping(mapping.id, { min: Math.min(Math.max(Number(e.target.value), 0), 1) })}
+                  className={numberClass}
+                  title="Share of the target's range at the control's minimum"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={mapping.max}
+                  onChange={(e) => surface.updateMapping(mapping.id, { max: Math.min(Math.max(Number(e.target.value), 0), 1) })}
+                  className={numberClass}
+                  title="Share of the target's range at the control's maximum (below the minimum inverts)"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
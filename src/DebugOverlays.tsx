@@ -0,0 +1,46 @@
+import { useControls } from 'leva';
+import { AudioEngine } from './audioEngine';
+import FieldOverlay, { FieldOverlayMode } from './FieldOverlay';
+import HeatmapOverlay, { HeatmapMode } from './HeatmapOverlay';
+import PerformanceHud from './PerformanceHud';
+import SpectrumOverlay from './SpectrumOverlay';
+import { SimulationView } from './simulationView';
+
+interface DebugOverlaysProps {
+  simulation: SimulationView;
+  engine: AudioEngine;
+}
+
+/**
+ * Debug layers drawn over the finished frame. Each one is its own component
+ * so a disabled layer costs nothing. Not part of presets.
+ */
+export default function DebugOverlays({ simulation, engine }: DebugOverlaysProps) {
+  const debug = useControls('Debug', {
+    field: { value: 'off', options: ['off', 'arrows', 'streamlines'] },
+    columns: { value: 32, min: 8, max: 96, step: 1 },
+    fieldOpacity: { value: 0.6, min: 0, max: 1, step: 0.05 },
+    heatmap: { value: 'off', options: ['off', 'density', 'life'] },
+    heatmapOpacity: { value: 0.7, min: 0, max: 1, step: 0.05 },
+    spectrum: false,
+    hud: false,
+  }, { collapsed: true });
+
+  return (
+    <>
+      {debug.heatmap !== 'off' && (
+        <HeatmapOverlay simulation={simulation} mode={debug.heatmap as HeatmapMode} opacity={debug.heatmapOpacity} />
+      )}
+      {debug.field !== 'off' && (
+        <FieldOverlay
+          simulation={simulation}
+          mode={debug.field as FieldOverlayMode}
+          columns={debug.columns}
+          opacity={debug.fieldOpacity}
+        />
+      )}
+      {debug.spectrum && <SpectrumOverlay engine={engine} opacity={1} />}
+      {debug.hud && <PerformanceHud simulation={simulation} />}
+    </>
+  );
+}
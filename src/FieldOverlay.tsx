@@ -0,0 +1,212 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { curlNoise2DChunk } from './curlNoise2D';
+import { curlNoise3DChunk } from './curlNoise3D';
+import { fieldChunk } from './fields';
+import { SimulationView } from './simulationView';
+
+export type FieldOverlayMode = 'arrows' | 'streamlines';
+
+interface FieldOverlayProps {
+  simulation: SimulationView;
+  mode: FieldOverlayMode;
+  columns: number; // Grid resolution across the bounds; rows follow the aspect
+  opacity: number;
+}
+
+const STREAMLINE_SEGMENTS = 12;
+
+// --- SHADERS ---
+
+// Evaluates the simulation's own field (same uniforms, same code) at each grid point
+const fieldVertexShader = (customFieldCode: string) => `
+  uniform float time;
+  uniform float uFlowSpeed;
+  uniform float uCurlInfluence;
+  uniform float uNoiseScale;
+  uniform float uMaxSpeed;
+  uniform float uFieldRotation;
+  uniform float uBeatPulse;
+  uniform float uTimeWarp;
+  uniform float uNoiseDetail;
+  uniform float uSpeedMod;
+  uniform vec3 uBounds;
+
+  uniform vec2 uGrid;      // columns, rows
+  uniform float uSegments; // 0 draws arrows
+
+  attribute vec2 cell;   // Grid point, 0-1 across the bounds
+  attribute float along; // Arrows: 0 base, 1 tip, 2-3 head; streamlines: step index
+
+  varying float vAlpha;
+
+  vec2 rotate2D(vec2 v, float a) {
+    float c = cos(a);
+    float s = sin(a);
+    return vec2(c * v.x - s * v.y, s * v.x + c * v.y);
+  }
+
+#ifdef MODE_3D
+  ${curlNoise3DChunk}
+#else
+  ${curlNoise2DChunk}
+#endif
+
+  ${fieldChunk(customFieldCode)}
+
+  // Mirrors the flow computation in the velocity pass
+  vec3 flowAt(vec3 p) {
+    float timeStep = time * (0.2 + uTimeWarp);
+    float noiseScale = 0.003 + (uNoiseScale * uNoiseDetail * 0.02);
+    float speed = uFlowSpeed * (1.0 + uSpeedMod) * uBeatPulse;
+    vec3 q = vec3(rotate2D(p.xy, -uFieldRotation), p.z);
+    vec3 curl = sampleField(q, timeStep, noiseScale);
+    curl.xy = rotate2D(curl.xy, uFieldRotation);
+    return curl * speed * (1.0 + uCurlInfluence);
+  }
+
+  void main() {
+    vec3 p = vec3((cell * 2.0 - 1.0) * uBounds.xy, 0.0);
+    float cellSize = 2.0 * uBounds.x / uGrid.x;
+
+    if (uSegments < 0.5) {
+      vec3 flow = flowAt(p);
+      float speed = length(flow);
+      vec3 dir = speed > 0.0 ? flow / speed : vec3(1.0, 0.0, 0.0);
+      vec3 side = vec3(-dir.y, dir.x, 0.0);
+      float len = cellSize * 0.8;
+      vec3 tip = p + dir * len;
+      if (along > 1.5) {
+        p = tip - dir * len * 0.3 + side * len * (along < 2.5 ? 0.15 : -0.15);
+      } else if (along > 0.5) {
+        p = tip;
+      }
+      // Brightness shows speed relative to the speed limit (square root so slow flows still show)
+      vAlpha = mix(0.15, 1.0, sqrt(clamp(speed / uMaxSpeed, 0.0, 1.0))) * (along < 0.5 ? 0.3 : 1.0);
+    } else {
+      // Trace the streamline up to this vertex's step
+      float stepLength = cellSize * 1.5 / uSegments;
+      for (int i = 0; i < ${STREAMLINE_SEGMENTS}; i++) {
+        if (float(i) >= along) break;
+        vec3 flow = flowAt(p);
+        if (length(flow) < 1e-6) break;
+        p += normalize(flow) * stepLength;
+      }
+      vAlpha = 1.0 - along / uSegments;
+    }
+
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(p, 1.0);
+  }
+`;
+
+const fieldFragmentShader = `
+  uniform vec3 uColor;
+  uniform float uOpacity;
+
+  varying float vAlpha;
+
+  void main() {
+    gl_FragColor = vec4(uColor, vAlpha * uOpacity);
+  }
+`;
+
+function createFieldGeometry(columns: number, rows: number, mode: FieldOverlayMode): THREE.BufferGeometry {
+  // Line segment endpoints for one grid point
+  const pattern = mode === 'arrows'
+    ? [0, 1, 1, 2, 1, 3]
+    : Array.from({ length: STREAMLINE_SEGMENTS }, (_, i) => [i, i + 1]).flat();
+  const count = columns * rows * pattern.length;
+  const cells = new Float32Array(count * 2);
+  const along = new Float32Array(count);
+
+  let v = 0;
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      for (const step of pattern) {
+        cells[v * 2] = (x + 0.5) / columns;
+        cells[v * 2 + 1] = (y + 0.5) / rows;
+        along[v] = step;
+        v++;
+      }
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('cell', new THREE.BufferAttribute(cells, 2));
+  geometry.setAttribute('along', new THREE.BufferAttribute(along, 1));
+  geometry.setDrawRange(0, count);
+  return geometry;
+}
+
+/**
+ * Draws the current flow field as arrows or streamlines in its own layer,
+ * over the composited frame, so it never smears into the trails.
+ */
+export default function FieldOverlay({ simulation, mode, columns, opacity }: FieldOverlayProps) {
+  const scene = useMemo(() => new THREE.Scene(), []);
+  const lines = useMemo(() => new THREE.LineSegments(), []);
+  const sourceRef = useRef<{ uniforms: unknown; code: string; mode3D: boolean } | null>(null);
+  const gridRef = useRef({ columns: 0, rows: 0 });
+
+  useEffect(() => {
+    lines.frustumCulled = false;
+    scene.add(lines);
+    return () => {
+      scene.remove(lines);
+      lines.geometry.dispose();
+      (lines.material as THREE.Material).dispose();
+    };
+  }, [scene, lines]);
+
+  useFrame(({ gl, camera }) => {
+    const uniforms = simulation.fieldUniforms;
+    if (!uniforms) return;
+
+    // Rebuild the material whenever the simulation recompiles its field
+    const source = sourceRef.current;
+    if (!source || source.uniforms !== uniforms || source.code !== simulation.fieldCode || source.mode3D !== simulation.mode3D) {
+      (lines.material as THREE.Material).dispose();
+      lines.material = new THREE.ShaderMaterial({
+        vertexShader: fieldVertexShader(simulation.fieldCode),
+        fragmentShader: fieldFragmentShader,
+        // The simulation's uniform objects are shared, so the overlay follows it live
+        uniforms: {
+          ...uniforms,
+          uGrid: { value: new THREE.Vector2() },
+          uSegments: { value: 0 },
+          uColor: { value: new THREE.Color('#7fdfff') },
+          uOpacity: { value: 1 },
+        },
+        defines: simulation.mode3D ? { MODE_3D: '' } : {},
+        transparent: true,
+        depthTest: false,
+        depthWrite: false,
+      });
+      sourceRef.current = { uniforms, code: simulation.fieldCode, mode3D: simulation.mode3D };
+    }
+
+    // Rows follow the bounds' aspect so arrows sit on a square grid
+    const bounds = uniforms.uBounds.value as THREE.Vector3;
+    const rows = Math.max(1, Math.round(columns * (bounds.y / bounds.x)));
+    const grid = gridRef.current;
+    if (grid.columns !== columns || grid.rows !== rows || lines.userData.mode !== mode) {
+      lines.geometry.dispose();
+      lines.geometry = createFieldGeometry(columns, rows, mode);
+      lines.userData.mode = mode;
+      gridRef.current = { columns, rows };
+    }
+
+    const material = lines.material as THREE.ShaderMaterial;
+    material.uniforms.uGrid.value.set(columns, rows);
+    material.uniforms.uSegments.value = mode === 'arrows' ? 0 : STREAMLINE_SEGMENTS;
+    material.uniforms.uOpacity.value = opacity;
+
+    const autoClear = gl.autoClear;
+    gl.autoClear = false;
+    gl.render(scene, camera);
+    gl.autoClear = autoClear;
+  }, 2);
+
+  return null;
+}
@@ -0,0 +1,113 @@
+import { Trash2 } from 'lucide-react';
+import { FORCE_KINDS, ForceEmitter, ForceKind } from './forces';
+
+interface ForcePanelProps {
+  tool: ForceKind | null;
+  placing: boolean;
+  emitters: ForceEmitter[];
+  onToolChange: (tool: ForceKind | null) => void;
+  onPlacingChange: (placing: boolean) => void;
+  onEmittersChange: (emitters: ForceEmitter[]) => void;
+}
+
+const selectClass = 'min-w-0 px-1 py-1 bg-gray-800 rounded text-xs';
+const numberClass = 'w-14 px-1 py-1 bg-gray-800 rounded text-xs';
+
+export default function ForcePanel({
+  tool,
+  placing,
+  emitters,
+  onToolChange,
+  onPlacingChange,
+  onEmittersChange,
+}: ForcePanelProps) {
+  const update = (id: string, changes: Partial<ForceEmitter>) => {
+    onEmittersChange(emitters.map(emitter => (emitter.id === id ? { ...emitter, ...changes } : emitter)));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm mb-1">Pointer Force</label>
+      <div className="flex gap-1">
+        {[{ value: null, label: 'Off' }, ...FORCE_KINDS].map(kind => (
+          <button
+            key={kind.label}
+            onClick={() => onToolChange(kind.value)}
+            className={`flex-1 px-2 py-1 rounded-lg text-xs ${
+              tool === kind.value ? 'bg-pink-600' : 'bg-gray-800 hover:bg-gray-700'
+            }`}
+          >
+            {kind.label}
+          </button>
+        ))}
+      </div>
+      {tool && (
+        <div className="flex items-center justify-between mt-1 text-xs text-gray-400">
+          <span>Drag to {tool}; shift-click places an emitter.</span>
+          <label className="flex items-center gap-1 shrink-0" title="Taps place emitters (for touch screens)">
+            <input type="checkbox" checked={placing} onChange={(e) => onPlacingChange(e.target.checked)} />
+            Place
+          </label>
+        </div>
+      )}
+
+      {emitters.length > 0 && (
+        <div className="mt-2 space-y-1">
+          <div className="flex items-center justify-between">
+            <label className="text-sm">Emitters</label>
+            <button onClick={() => onEmittersChange([])} className="text-xs text-gray-400 hover:text-white">
+              Clear
+            </button>
+          </div>
+          {emitters.map(emitter => (
+            <div key={emitter.id} className="flex gap-1 items-center p-1 bg-gray-900 rounded-lg">
+              <select
+                value={emitter.kind}
+                onChange={(e) => update(emitter.id, { kind: e.target.value as ForceKind })}
+                className={`flex-1 ${selectClass}`}
+                title={`At ${emitter.position.map(Math.round).join(', ')}`}
+              >
+                {FORCE_KINDS.map(kind => (
+                  <option key={kind.value} value={kind.value}>{kind.label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                step="10"
+                value={emitter.radius}
+                onChange={(e) => update(emitter.id, { radius: Math.max(Number(e.target.value), 0) })}
+                className={numberClass}
+                title="Radius"
+              />
+              <input
+                type="number"
+                step="0.1"
+                value={emitter.strength}
+                onChange={(e) => update(emitter.id, { strength: Number(e.target.value) })}
+                className={numberClass}
+                title="Strength"
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={emitter.falloff}
+                onChange={(e) => update(emitter.id, { falloff: Math.max(Number(e.target.value), 0) })}
+                className={numberClass}
+                title="Falloff"
+              />
+              <button
+                onClick={() => onEmittersChange(emitters.filter(e => e.id !== emitter.id))}
+                className="px-1 text-gray-400 hover:text-white"
+                title="Remove emitter"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
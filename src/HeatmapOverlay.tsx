@@ -0,0 +1,173 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { FullScreenQuad } from 'three/examples/jsm/postprocessing/Pass.js';
+import { SimulationView, createReferenceGeometry } from './simulationView';
+import { getCapabilities, hdrTargetType } from './capabilities';
+
+export type HeatmapMode = 'density' | 'life';
+
+interface HeatmapOverlayProps {
+  simulation: SimulationView;
+  mode: HeatmapMode;
+  opacity: number;
+}
+
+const DOWNSAMPLE = 4; // Heatmap cells per screen pixel, per axis
+
+// --- SHADERS ---
+
+// Every particle adds (1, life) to the cell it lands in
+const splatVertexShader = `
+  uniform sampler2D uTexturePosition;
+
+  attribute vec2 reference;
+
+  varying float vLife;
+
+  void main() {
+    vec4 posData = texture2D(uTexturePosition, reference);
+    vLife = posData.w;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(posData.xyz, 1.0);
+    gl_PointSize = 1.0;
+  }
+`;
+
+const splatFragmentShader = `
+  varying float vLife;
+
+  void main() {
+    gl_FragColor = vec4(1.0, vLife, 0.0, 1.0);
+  }
+`;
+
+const fullscreenVertexShader = `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+const heatmapFragmentShader = `
+  uniform sampler2D uSplat;
+  uniform int uMode;        // 0 density, 1 mean life
+  uniform float uReference; // Count per cell that reads as hot
+  uniform float uOpacity;
+
+  varying vec2 vUv;
+
+  // Black body style ramp: black, purple, orange, pale yellow
+  vec3 heat(float t) {
+    return clamp(vec3(1.5 * t, 2.0 * t - 0.8, 3.0 * t * (1.0 - t) + max(4.0 * t - 3.0, 0.0)), 0.0, 1.0);
+  }
+
+  void main() {
+    vec2 splat = texture2D(uSplat, vUv).rg;
+    float count = splat.r;
+    float t = uMode == 0 ? 1.0 - exp(-count / uReference) : splat.g / max(count, 1.0);
+    float coverage = uMode == 0 ? t : step(0.5, count);
+    gl_FragColor = vec4(heat(t), coverage * uOpacity);
+  }
+`;
+
+/**
+ * Counts particles per screen cell in a low resolution float target and
+ * draws the result as a heatmap of density or average remaining life.
+ */
+export default function HeatmapOverlay({ simulation, mode, opacity }: HeatmapOverlayProps) {
+  const { gl, size } = useThree();
+  const dpr = useThree((state) => state.viewport.dpr);
+
+  const target = useMemo(() => new THREE.WebGLRenderTarget(1, 1, {
+    type: hdrTargetType(getCapabilities(gl)), // Counts saturate quickly in 8 bits
+    minFilter: THREE.NearestFilter,
+    magFilter: THREE.NearestFilter,
+    depthBuffer: false,
+  }), [gl]);
+
+  const splatScene = useMemo(() => new THREE.Scene(), []);
+  const points = useMemo(() => new THREE.Points(
+    new THREE.BufferGeometry(),
+    new THREE.ShaderMaterial({
+      vertexShader: splatVertexShader,
+      fragmentShader: splatFragmentShader,
+      uniforms: { uTexturePosition: { value: null } },
+      blending: THREE.AdditiveBlending,
+      depthTest: false,
+      depthWrite: false,
+    })
+  ), []);
+  const geometryKeyRef = useRef('');
+  const clearColor = useMemo(() => new THREE.Color(), []);
+
+  const heatmapQuad = useMemo(() => new FullScreenQuad(new THREE.ShaderMaterial({
+    vertexShader: fullscreenVertexShader,
+    fragmentShader: heatmapFragmentShader,
+    uniforms: {
+      uSplat: { value: target.texture },
+      uMode: { value: 0 },
+      uReference: { value: 4 },
+      uOpacity: { value: 1 },
+    },
+    transparent: true,
+    depthTest: false,
+    depthWrite: false,
+  })), [target]);
+
+  useEffect(() => {
+    target.setSize(
+      Math.max(1, Math.floor((size.width * dpr) / DOWNSAMPLE)),
+      Math.max(1, Math.floor((size.height * dpr) / DOWNSAMPLE))
+    );
+  }, [target, size.width, size.height, dpr]);
+
+  useEffect(() => {
+    points.frustumCulled = false;
+    splatScene.add(points);
+    return () => {
+      splatScene.remove(points);
+      points.geometry.dispose();
+      (points.material as THREE.Material).dispose();
+      (heatmapQuad.material as THREE.Material).dispose();
+      heatmapQuad.dispose();
+      target.dispose();
+    };
+  }, [splatScene, points, heatmapQuad, target]);
+
+  useFrame(({ camera }) => {
+    if (!simulation.position) return;
+
+    // Follow the simulation's size (tiers, GPU limits)
+    const key = `${simulation.textureSize}:${simulation.count}`;
+    if (geometryKeyRef.current !== key) {
+      points.geometry.dispose();
+      points.geometry = createReferenceGeometry(simulation.textureSize, simulation.count);
+      geometryKeyRef.current = key;
+    }
+    (points.material as THREE.ShaderMaterial).uniforms.uTexturePosition.value = simulation.position;
+
+    // 1. Splat the particles into the count target
+    const previousTarget = gl.getRenderTarget();
+    gl.getClearColor(clearColor);
+    const clearAlpha = gl.getClearAlpha();
+    gl.setRenderTarget(target);
+    gl.setClearColor(0x000000, 0);
+    gl.render(splatScene, camera); // autoClear wipes last frame's counts
+    gl.setClearColor(clearColor, clearAlpha);
+    gl.setRenderTarget(previousTarget);
+
+    // 2. Shade over the frame; "hot" means a few times the average cell count
+    const uniforms = (heatmapQuad.material as THREE.ShaderMaterial).uniforms;
+    uniforms.uMode.value = mode === 'density' ? 0 : 1;
+    uniforms.uReference.value = Math.max((simulation.count / (target.width * target.height)) * 3, 1);
+    uniforms.uOpacity.value = opacity;
+    const autoClear = gl.autoClear;
+    gl.autoClear = false;
+    heatmapQuad.render(gl);
+    gl.autoClear = autoClear;
+  }, 2);
+
+  return null;
+}
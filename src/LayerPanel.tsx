@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Eye, EyeOff, Headphones, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { FIELD_TYPES, FieldType } from './fields';
+import { COLOR_INPUTS, ColorInput, Palette } from './palettes';
+import { LAYER_BANDS, LAYER_BLENDINGS, LayerBand, LayerBlending, MAX_LAYERS, ParticleLayer, createLayer } from './layers';
+
+interface LayerPanelProps {
+  layers: ParticleLayer[];
+  palettes: Palette[];
+  particleCount: number; // The tier's count, which layers take a share of
+  onChange: (layers: ParticleLayer[]) => void;
+}
+
+const selectClass = 'min-w-0 px-1 py-1 bg-gray-800 rounded text-xs';
+const numberClass = 'min-w-0 px-1 py-1 bg-gray-800 rounded text-xs';
+
+// Sliders on each layer; all but the share multiply the panel's value
+const LAYER_PARAMS: { key: 'share' | 'size' | 'flowSpeed' | 'noiseScale' | 'mass' | 'bandDepth'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'share', label: 'Count', min: 0.05, max: 1, step: 0.05 },
+  { key: 'size', label: 'Size', min: 0.1, max: 4, step: 0.05 },
+  { key: 'flowSpeed', label: 'Speed', min: 0, max: 4, step: 0.05 },
+  { key: 'noiseScale', label: 'Scale', min: 0.1, max: 4, step: 0.05 },
+  { key: 'mass', label: 'Mass', min: 0.1, max: 10, step: 0.1 },
+  { key: 'bandDepth', label: 'Band Depth', min: 0, max: 4, step: 0.05 },
+];
+
+export default function LayerPanel({ layers, palettes, particleCount, onChange }: LayerPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const soloing = layers.some(layer => layer.solo);
+
+  const update = (id: string, changes: Partial<ParticleLayer>) => {
+    onChange(layers.map(layer => (layer.id === id ? { ...layer, ...changes } : layer)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...layers];
+    const [layer] = next.splice(index, 1);
+    next.splice(index + offset, 0, layer);
+    onChange(next);
+  };
+
+  const add = () => {
+    const layer = createLayer({ name: `Layer ${layers.length + 1}`, share: 0.25, seed: layers.length * 101 });
+    onChange([...layers, layer]);
+    setExpanded(layer.id);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="text-sm">Layers</label>
+        <button
+          onClick={add}
+          disabled={layers.length >= MAX_LAYERS}
+          className="px-2 py-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-30 rounded-lg"
+          title="Add layer"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+      <div className="text-xs text-gray-500 mb-1">Later layers draw over earlier ones; each scales the panels' values.</div>
+      <div className="space-y-1">
+        {layers.map((layer, index) => {
+          const hidden = soloing ? !layer.solo : !layer.visible;
+          return (
+            <div key={layer.id} className="p-1 bg-gray-900 rounded-lg">
+              <div className="flex gap-1 items-center">
+                <button
+                  onClick={() => update(layer.id, { visible: !layer.visible })}
+                  className="px-1 text-gray-400 hover:text-white"
+                  title={layer.visible ? 'Hide layer' : 'Show layer'}
+                >
+                  {layer.visible ? <Eye size={12} /> : <EyeOff size={12} />}
+                </button>
+                <input
+                  value={layer.name}
+                  onChange={(e) => update(layer.id, { name: e.target.value })}
+                  className={`flex-1 ${selectClass} ${hidden ? 'text-gray-500' : ''}`}
+                />
+                <button
+                  onClick={() => update(layer.id, { solo: !layer.solo })}
+                  className={`px-1 ${layer.solo ? 'text-amber-400' : 'text-gray-400 hover:text-white'}`}
+                  title="Solo"
+                >
+                  <Headphones size={12} />
+                </button>
+                <button
+                  onClick={() => setExpanded(expanded === layer.id ? null : layer.id)}
+                  className={`px-1 ${expanded === layer.id ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+                  title="Layer settings"
+                >
+                  <SlidersHorizontal size={12} />
+                </button>
+                <button
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+                  title="Draw earlier (below)"
+                >
+                  <ChevronUp size={12} />
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={index === layers.length - 1}
+                  className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+                  title="Draw later (on top)"
+                >
+                  <ChevronDown size={12} />
+                </button>
+                <button
+                  onClick={() => onChange(layers.filter(l => l.id !== layer.id))}
+                  disabled={layers.length === 1}
+                  className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+                  title="Remove layer"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              {expanded === layer.id && (
+                <div className="mt-1 space-y-0.5">
+                  <div className="grid grid-cols-2 gap-1">
+                    <select
+                      value={layer.palette ?? ''}
+                      onChange={(e) => update(layer.id, { palette: e.target.value || null })}
+                      className={selectClass}
+                      title="Palette"
+                    >
+                      <option value="">Scene palette</option>
+                      {palettes.map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={layer.colorInput ?? ''}
+                      onChange={(e) => update(layer.id, { colorInput: (e.target.value || null) as ColorInput | null })}
+                      className={selectClass}
+                      title="Color by"
+                    >
+                      <option value="">Scene color input</option>
+                      {COLOR_INPUTS.map(input => (
+                        <option key={input.value} value={input.value}>{input.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={layer.field ?? ''}
+                      onChange={(e) => update(layer.id, { field: (e.target.value || null) as FieldType | null })}
+                      className={selectClass}
+                      title="Field"
+                    >
+                      <option value="">Panel field</option>
+                      {FIELD_TYPES.map(type => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={layer.blending}
+                      onChange={(e) => update(layer.id, { blending: e.target.value as LayerBlending })}
+                      className={selectClass}
+                      title="Blending"
+                    >
+                      {LAYER_BLENDINGS.map(blending => (
+                        <option key={blending.value} value={blending.value}>{blending.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={layer.band}
+                      onChange={(e) => update(layer.id, { band: e.target.value as LayerBand })}
+                      className={selectClass}
+                      title="Audio band driving speed and size"
+                    >
+                      {LAYER_BANDS.map(band => (
+                        <option key={band.value} value={band.value}>{band.value === 'none' ? 'No band' : band.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={layer.seed}
+                      onChange={(e) => update(layer.id, { seed: Math.max(Math.round(Number(e.target.value)), 0) })}
+                      className={numberClass}
+                      title="Seed offset"
+                    />
+                  </div>
+                  {LAYER_PARAMS.map(param => (
+                    <label key={param.key} className="flex gap-1 items-center text-xs text-gray-400">
+                      <span className="w-16 shrink-0">{param.label}</span>
+                      <input
+                        type="range"
+                        min={param.min}
+                        max={param.max}
+                        step={param.step}
+                        value={layer[param.key]}
+                        onChange={(e) => update(layer.id, { [param.key]: Number(e.target.value) })}
+                        className="flex-1 min-w-0"
+                      />
+                      <span className="w-12 text-right">
+                        {param.key === 'share'
+                          ? Math.max(Math.round(particleCount * layer.share), 1).toLocaleString()
+                          : layer[param.key].toFixed(2)}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
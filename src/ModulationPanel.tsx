@@ -0,0 +1,118 @@
+import { Plus, Trash2, ArrowRight } from 'lucide-react';
+import { MOD_CURVES, MOD_TARGETS, ModCurve, ModRoute, ModSource, ModTarget, createRoute, modSources } from './modulation';
+
+interface ModulationPanelProps {
+  routes: ModRoute[];
+  bandCount: number; // Analyzer bands available as sources
+  onChange: (routes: ModRoute[]) => void;
+}
+
+const selectClass = 'min-w-0 px-1 py-1 bg-gray-800 rounded text-xs';
+const numberClass = 'w-12 px-1 py-1 bg-gray-800 rounded text-xs';
+
+export default function ModulationPanel({ routes, bandCount, onChange }: ModulationPanelProps) {
+  const sources = modSources(bandCount);
+
+  const update = (id: string, changes: Partial<ModRoute>) => {
+    onChange(routes.map(route => (route.id === id ? { ...route, ...changes } : route)));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="text-sm">Audio Modulation</label>
+        <button
+          onClick={() => onChange([...routes, createRoute()])}
+          className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded-lg"
+          title="Add route"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+      {routes.length === 0 && <div className="text-xs text-gray-500">No routes: the flow ignores the music.</div>}
+      <div className="space-y-2">
+        {routes.map(route => (
+          <div key={route.id} className="p-2 bg-gray-900 rounded-lg space-y-1">
+            <div className="flex gap-1 items-center">
+              <select
+                value={route.source}
+                onChange={(e) => update(route.id, { source: e.target.value as ModSource })}
+                className={`flex-1 ${selectClass}`}
+              >
+                {sources.map(source => (
+                  <option key={source.value} value={source.value}>{source.label}</option>
+                ))}
+                {!sources.some(source => source.value === route.source) && (
+                  <option value={route.source}>{route.source} (inactive)</option>
+                )}
+              </select>
+              <ArrowRight size={12} className="shrink-0 text-gray-500" />
+              <select
+                value={route.target}
+                onChange={(e) => update(route.id, { target: e.target.value as ModTarget })}
+                className={`flex-1 ${selectClass}`}
+              >
+                {MOD_TARGETS.map(target => (
+                  <option key={target.value} value={target.value}>{target.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onChange(routes.filter(r => r.id !== route.id))}
+                className="px-1 text-gray-400 hover:text-white"
+                title="Remove route"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+            <div className="flex gap-1 items-center text-xs">
+              <input
+                type="number"
+                step="0.1"
+                value={route.depth}
+                onChange={(e) => update(route.id, { depth: Number(e.target.value) })}
+                className={numberClass}
+                title="Depth"
+              />
+              <select
+                value={route.curve}
+                onChange={(e) => update(route.id, { curve: e.target.value as ModCurve })}
+                className={selectClass}
+                title="Curve"
+              >
+                {MOD_CURVES.map(curve => (
+                  <option key={curve.value} value={curve.value}>{curve.label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                step="0.05"
+                value={route.attack}
+                onChange={(e) => update(route.id, { attack: Math.max(Number(e.target.value), 0) })}
+                className={numberClass}
+                title="Attack (s)"
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.05"
+                value={route.release}
+                onChange={(e) => update(route.id, { release: Math.max(Number(e.target.value), 0) })}
+                className={numberClass}
+                title="Release (s)"
+              />
+              <label className="flex items-center gap-1" title="Invert">
+                <input
+                  type="checkbox"
+                  checked={route.invert}
+                  onChange={(e) => update(route.id, { invert: e.target.checked })}
+                />
+                Inv
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
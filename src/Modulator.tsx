@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { AudioAnalyzerData } from './audioFeatures';
+import { ModRoute, ModulationMatrix } from './modulation';
+
+interface ModulatorProps {
+  matrix: ModulationMatrix;
+  routes: ModRoute[];
+  audioData: AudioAnalyzerData;
+}
+
+/**
+ * Steps the modulation matrix once per frame, ahead of the scene components
+ * that read its values (negative priority runs first without taking over rendering).
+ */
+export default function Modulator({ matrix, routes, audioData }: ModulatorProps) {
+  // Envelopes start from silence whenever the scene is (re)mounted
+  useEffect(() => {
+    matrix.reset();
+  }, [matrix]);
+
+  useFrame((_, delta) => {
+    matrix.update(routes, audioData, delta);
+  }, -1);
+
+  return null;
+}
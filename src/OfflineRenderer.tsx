@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import { AudioAnalyzerData, AudioFeatureOptions } from './audioFeatures';
+import { OfflineRenderProgress, OfflineRenderSettings, renderOffline } from './offlineRender';
+
+export interface OfflineRenderJob {
+  file: File;
+  settings: OfflineRenderSettings;
+  featureOptions: AudioFeatureOptions;
+  controller: AbortController;
+}
+
+interface OfflineRendererProps {
+  job: OfflineRenderJob;
+  // Mutable object the scene reads its audio features from while rendering
+  audioTarget: AudioAnalyzerData;
+  // Receives the time of the frame being rendered, for the timeline
+  timeTarget: { seconds: number };
+  onProgress: (progress: OfflineRenderProgress) => void;
+  onComplete: (result: Blob | null, error?: unknown) => void;
+}
+
+/**
+ * Drives the R3F loop by hand for an offline render. Waits until the canvas
+ * has been resized to the output resolution with the frameloop stopped, then
+ * steps the scene one fixed-duration frame at a time.
+ */
+export default function OfflineRenderer({ job, audioTarget, timeTarget, onProgress, onComplete }: OfflineRendererProps) {
+  const { gl, size, frameloop, advance, clock } = useThree();
+  const dpr = useThree((state) => state.viewport.dpr);
+  const startedRef = useRef<OfflineRenderJob | null>(null);
+
+  useEffect(() => {
+    if (startedRef.current === job) return;
+
+    const { width, height, fps } = job.settings;
+    const ready = frameloop === 'never' && dpr === 1 && size.width === width && size.height === height;
+    if (!ready) return;
+    startedRef.current = job;
+
+    // The first advance then covers exactly one frame from t = 0
+    clock.elapsedTime = -1 / fps;
+
+    renderOffline({
+      file: job.file,
+      settings: job.settings,
+      featureOptions: job.featureOptions,
+      canvas: gl.domElement,
+      signal: job.controller.signal,
+      onProgress,
+      step: (index, features) => {
+        Object.assign(audioTarget, features);
+        timeTarget.seconds = index / fps;
+        advance(index / fps);
+      },
+    }).then(
+      (blob) => onComplete(blob),
+      (error) => onComplete(null, error)
+    );
+  }, [job, gl, size.width, size.height, dpr, frameloop, advance, clock, audioTarget, timeTarget, onProgress, onComplete]);
+
+  return null;
+}
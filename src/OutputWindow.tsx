@@ -0,0 +1,125 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { Leva, levaStore } from 'leva';
+import ParticleLayers from './ParticleLayers';
+import CameraRig from './CameraRig';
+import TrailPass from './TrailPass';
+import Modulator from './Modulator';
+import { SILENT_AUDIO_DATA } from './audioFeatures';
+import { ModulationMatrix } from './modulation';
+import { ForceField } from './forces';
+import { SimulationView } from './simulationView';
+import { OutputScene, createOutputChannel, toggleFullscreen } from './presentation';
+import { useIdle } from './useIdle';
+
+/**
+ * A second window that shows only the render, for a projector. It has no
+ * controls or audio of its own: the control window streams the scene
+ * settings, leva values and audio features over a BroadcastChannel.
+ */
+export default function OutputWindow() {
+  const [scene, setScene] = useState<OutputScene | null>(null);
+  const [sceneKey, setSceneKey] = useState(0);
+  const idle = useIdle(true);
+
+  const audioData = useMemo(() => ({ ...SILENT_AUDIO_DATA }), []);
+  const modulation = useMemo(() => new ModulationMatrix(), []);
+  const forceField = useMemo(() => new ForceField(), []);
+  const simulation = useMemo(() => new SimulationView(), []);
+
+  useEffect(() => {
+    // Values for controls that have not mounted yet wait here until they do
+    const pending = new Map<string, unknown>();
+    const flush = () => {
+      for (const [path, value] of pending) {
+        if (!levaStore.getInput(path)) continue;
+        pending.delete(path);
+        levaStore.setValueAtPath(path, value, false);
+      }
+    };
+    const unsubscribe = levaStore.useStore.subscribe(() => {
+      if (pending.size > 0) flush();
+    });
+
+    const channel = createOutputChannel((message) => {
+      switch (message.type) {
+        case 'ping':
+          channel.postMessage({ type: 'hello' });
+          break;
+        case 'scene':
+          setScene(message.scene);
+          break;
+        case 'controls':
+          for (const [path, value] of Object.entries(message.values)) pending.set(path, value);
+          flush();
+          break;
+        case 'audio':
+          Object.assign(audioData, message.data);
+          break;
+        case 'panic':
+          setSceneKey(key => key + 1);
+          break;
+      }
+    });
+    channel.postMessage({ type: 'hello' });
+
+    const leave = () => channel.postMessage({ type: 'bye' });
+    window.addEventListener('pagehide', leave);
+    return () => {
+      leave();
+      window.removeEventListener('pagehide', leave);
+      channel.close();
+      unsubscribe();
+    };
+  }, [audioData]);
+
+  useEffect(() => {
+    if (scene) forceField.emitters = scene.emitters;
+  }, [forceField, scene]);
+
+  return (
+    <div
+      className={`relative w-full h-screen bg-black overflow-hidden ${idle ? 'cursor-none' : ''}`}
+      onDoubleClick={() => toggleFullscreen().catch(err => console.warn('Fullscreen unavailable:', err))}
+    >
+      <Leva hidden />
+      <Canvas
+        camera={{ position: [0, 0, 800], fov: 60, near: 1, far: 10000 }}
+        gl={{ alpha: false, antialias: false }}
+        dpr={[1, 2]}
+      >
+        <color attach="background" args={['#000000']} />
+        {scene && (
+          <group key={sceneKey}>
+            <Modulator matrix={modulation} routes={scene.routes} audioData={audioData} />
+            <ParticleLayers
+              layers={scene.layers}
+              audioData={audioData}
+              modulation={modulation}
+              forces={forceField}
+              simulation={simulation}
+              palette={scene.palette}
+              palettes={scene.palettes}
+              colorInput={scene.colorInput}
+              mode3D={scene.mode3D}
+              particleCount={scene.particleCount}
+            />
+            <CameraRig mode3D={scene.mode3D} modulation={modulation} />
+            <TrailPass trailLength={scene.trailLength} effects={scene.post} modulation={modulation} />
+          </group>
+        )}
+      </Canvas>
+
+      {!scene && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+          Waiting for the control window…
+        </div>
+      )}
+      {!idle && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 rounded-lg bg-black/70 px-3 py-1 text-xs text-gray-300">
+          Double-click for fullscreen
+        </div>
+      )}
+    </div>
+  );
+}
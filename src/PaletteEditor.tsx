@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Palette, PaletteStop, paletteToCss } from './palettes';
+
+interface PaletteEditorProps {
+  initial?: Palette;
+  onSave: (palette: Palette) => void;
+  onCancel: () => void;
+}
+
+const MIN_STOPS = 2;
+const MAX_STOPS = 8;
+
+const DEFAULT_STOPS: PaletteStop[] = [
+  { position: 0, color: '#2040ff' },
+  { position: 1, color: '#ff40a0' },
+];
+
+export default function PaletteEditor({ initial, onSave, onCancel }: PaletteEditorProps) {
+  const [name, setName] = useState(initial?.name ?? 'Custom');
+  const [stops, setStops] = useState<PaletteStop[]>(initial?.stops ?? DEFAULT_STOPS);
+
+  const preview: Palette = { id: 'preview', name, stops };
+
+  const updateStop = (index: number, patch: Partial<PaletteStop>) => {
+    setStops(stops.map((stop, i) => (i === index ? { ...stop, ...patch } : stop)));
+  };
+
+  const addStop = () => {
+    if (stops.length >= MAX_STOPS) return;
+    const last = stops[stops.length - 1];
+    setStops([...stops, { position: 1, color: last.color }]);
+  };
+
+  const removeStop = (index: number) => {
+    if (stops.length <= MIN_STOPS) return;
+    setStops(stops.filter((_, i) => i !== index));
+  };
+
+  const save = () => {
+    onSave({
+      id: initial?.id ?? `custom-${Date.now().toString(36)}`,
+      name: name.trim() || 'Custom',
+      stops: [...stops].sort((a, b) => a.position - b.position),
+      custom: true,
+    });
+  };
+
+  return (
+    <div className="space-y-2 p-2 bg-gray-900 rounded-lg">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className="w-full px-2 py-1 bg-gray-800 rounded text-sm"
+        placeholder="Palette name"
+      />
+
+      <div className="h-3 rounded" style={{ background: paletteToCss(preview) }} />
+
+      {stops.map((stop, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <input
+            type="color"
+            value={stop.color}
+            onChange={(e) => updateStop(i, { color: e.target.value })}
+            className="w-8 h-6 bg-transparent"
+          />
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.01"
+            value={stop.position}
+            onChange={(e) => updateStop(i, { position: Number(e.target.value) })}
+            className="flex-1"
+          />
+          <button
+            onClick={() => removeStop(i)}
+            disabled={stops.length <= MIN_STOPS}
+            className="text-gray-400 hover:text-white disabled:opacity-30"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          onClick={addStop}
+          disabled={stops.length >= MAX_STOPS}
+          className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-30 rounded"
+        >
+          <Plus size={12} /> Stop
+        </button>
+        <div className="flex-1" />
+        <button onClick={onCancel} className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded">
+          Cancel
+        </button>
+        <button onClick={save} className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 rounded">
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
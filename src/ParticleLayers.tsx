@@ -0,0 +1,56 @@
+import Particles from './Particles';
+import { ModulationMatrix } from './modulation';
+import { ForceField } from './forces';
+import { SimulationView } from './simulationView';
+import { SimulationBackend } from './capabilities';
+import { AudioAnalyzerData } from './audioFeatures';
+import { ColorInput, Palette } from './palettes';
+import { ParticleLayer, activeLayers, layerPalette } from './layers';
+
+interface ParticleLayersProps {
+  layers: ParticleLayer[];
+  audioData: AudioAnalyzerData;
+  modulation: ModulationMatrix;
+  forces: ForceField;
+  simulation: SimulationView; // Shows the bottom layer
+  onBackendChange?: (backend: SimulationBackend, count: number) => void;
+  palette: Palette; // The scene's, for layers without their own
+  palettes: Palette[]; // Every palette a layer can pick
+  colorInput: ColorInput;
+  mode3D: boolean;
+  particleCount: number; // The tier's count; each layer takes its share
+}
+
+/**
+ * Draws the layer stack, bottom first. Each layer is its own simulation, but
+ * they compile to the same shader sources, so three shares the programs.
+ */
+export default function ParticleLayers({
+  layers,
+  palette,
+  palettes,
+  colorInput,
+  particleCount,
+  simulation,
+  onBackendChange,
+  ...shared
+}: ParticleLayersProps) {
+  return (
+    <>
+      {activeLayers(layers).map((layer, index) => (
+        <Particles
+          key={layer.id}
+          {...shared}
+          // Debug overlays and the backend notice follow the bottom layer
+          simulation={index === 0 ? simulation : undefined}
+          onBackendChange={index === 0 ? onBackendChange : undefined}
+          palette={layerPalette(layer, palette, palettes)}
+          colorInput={layer.colorInput ?? colorInput}
+          particleCount={Math.max(Math.round(particleCount * layer.share), 1)}
+          layer={layer}
+          renderOrder={index}
+        />
+      ))}
+    </>
+  );
+}
@@ -1,8 +1,23 @@
-import { useRef, useMemo } from 'react';
+import { useRef, useMemo, useEffect, useState } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
-import { useControls, button } from 'leva';
+import { GPUComputationRenderer } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+import { useControls } from 'leva';
+import { COLOR_INPUTS, ColorInput, Palette, PaletteBlender } from './palettes';
+import { curlNoise2DChunk } from './curlNoise2D';
+import { curlNoise3DChunk } from './curlNoise3D';
+import { DEFAULT_CUSTOM_FIELD, FIELD_TYPES, FieldBlender, FieldType, MAX_FIELD_POINTS, fieldChunk, validateFieldCode } from './fields';
+import { createRandom } from './random';
+import { ModulationMatrix } from './modulation';
+import { ForceField, MAX_FORCES } from './forces';
+import { SimulationView, createReferenceGeometry } from './simulationView';
+import { CPU_MAX_TEXTURE_SIZE, SimulationBackend, chooseBackend, densityGridType, getCapabilities } from './capabilities';
+import { CpuSimulation } from './cpuSimulation';
+import { SPAWN_SHAPES, SpawnShape, generateSpawnPoints } from './spawnShapes';
+import { useDebounced } from './useDebounced';
+import { DEFAULT_TIER_ID, getTier, textureSizeForCount, tierParticleCount } from './particleTiers';
+import { DEFAULT_LAYERS, LayerBlending, ParticleLayer } from './layers';
+import { DensityGrid, GRID_SIZES } from './densityGrid';
 
 interface ParticlesProps {
   audioData: {
@@ -11,113 +26,335 @@ interface ParticlesProps {
     mid: number;
     treble: number;
     transient: number;
+    bpm: number;
+    beatPhase: number;
+    beatCount: number;
   };
-  colorScheme: string;
+  modulation: ModulationMatrix;
+  forces: ForceField;
+  simulation?: SimulationView; // Published for debug overlays
+  onBackendChange?: (backend: SimulationBackend, count: number) => void;
+  palette: Palette;
+  colorInput: ColorInput;
+  mode3D?: boolean;
   particleCount?: number;
+  layer?: ParticleLayer; // Scales and overrides the panel values for this system
+  renderOrder?: number; // Position in the layer stack, bottom first
 }
 
-const PARTICLE_COUNT = 100000;
-const TEXTURE_SIZE = 512;
+const PARTICLE_COUNT = tierParticleCount(getTier(DEFAULT_TIER_ID));
+
+// The simulation advances in fixed steps, independent of the display refresh rate
+const SIM_RATE = 60; // Steps per second
+const SIM_STEP = 1 / SIM_RATE;
+const MAX_STEPS_PER_FRAME = 4; // Drop time rather than spiral when the GPU falls behind
+
+// Particles output premultiplied color, which three's blend functions expect with premultipliedAlpha
+const BLENDING_MODES: Record<LayerBlending, THREE.Blending> = {
+  additive: THREE.AdditiveBlending,
+  normal: THREE.NormalBlending,
+  subtractive: THREE.SubtractiveBlending,
+};
+
+// What happens at the edge of the simulation bounds (index is uBoundsMode)
+const BOUNDS_MODES = ['respawn', 'wrap', 'bounce', 'contain'] as const;
+
+// Compute uniforms, shared by the GPU passes and the CPU fallback (which reads them by name)
+function createSimulationUniforms(textureSize: number, seed: number) {
+  const velocity: Record<string, THREE.IUniform> = {
+    time: { value: 0 },
+    uDelta: { value: SIM_STEP * 60 }, // Measured in 60Hz frames
+    uFlowSpeed: { value: 1.0 },
+    uResolution: { value: new THREE.Vector2(textureSize, textureSize) },
+    uTimeWarp: { value: 0 },
+    uNoiseDetail: { value: 0 },
+    uSpeedMod: { value: 0 },
+    uCurlInfluence: { value: 1.0 },
+    uNoiseScale: { value: 0.1 },
+    uMass: { value: 1.0 },
+    uDrag: { value: 0.15 },
+    uMaxSpeed: { value: 20.0 },
+    uBurst: { value: 0 },
+    uFieldRotation: { value: 0 },
+    uBeatPulse: { value: 1 },
+    uForceCount: { value: 0 },
+    uForces: { value: Array.from({ length: MAX_FORCES }, () => new THREE.Vector4()) },
+    uForceParams: { value: Array.from({ length: MAX_FORCES }, () => new THREE.Vector4()) },
+    uSpawn: { value: null },
+    uReform: { value: 0 },
+    uDepth: { value: 0 },
+    uBounds: { value: new THREE.Vector3(800, 500, 1) },
+    uBoundsMode: { value: 0 },
+    uFieldWeights: { value: FIELD_TYPES.map((_, i) => (i === 0 ? 1 : 0)) },
+    uFbm: { value: new THREE.Vector3(4, 2, 0.5) },
+    uWarp: { value: new THREE.Vector2(150, 0.002) },
+    uVortices: { value: new THREE.Vector3(4, 200, 3) },
+    uSinks: { value: new THREE.Vector3(2, 250, 3) },
+    uWind: { value: new THREE.Vector3(0, 2, 0.5) },
+    uContainStrength: { value: 1 },
+    uDensity: { value: null },
+    uDensityResolution: { value: 0 }, // Grid cells per side; 0 while flocking is off
+    uFlock: { value: new THREE.Vector4(1, 1, 0.05, 1) },
+  };
+
+  const position: Record<string, THREE.IUniform> = {
+    uDelta: { value: SIM_STEP * 60 },
+    uResolution: { value: new THREE.Vector2(textureSize, textureSize) },
+    uLifeDecay: { value: 0 },
+    uDepth: { value: 0 },
+    uSeed: { value: seed },
+    uStep: { value: 0 },
+    uSpawn: { value: null },
+    uBounds: velocity.uBounds, // Shared, so both passes agree
+    uBoundsMode: velocity.uBoundsMode,
+  };
+
+  return { velocity, position };
+}
 
 // --- SHADERS ---
 
-const positionFragmentShader = `
+// The field library is compiled in; only the custom field's code changes the source
+const velocityFragmentShader = (customFieldCode: string) => `
   uniform float time;
+  uniform float uDelta;
   uniform float uFlowSpeed;
   uniform vec2 uResolution;
-  uniform float audioBass;
-  uniform float audioTreble;
   uniform float uCurlInfluence;
   uniform float uNoiseScale;
 
-  // --- SIMPLEX NOISE (Standard implementation) ---
-  vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
-  vec2 mod289(vec2 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
-  vec3 permute(vec3 x) { return mod289(((x*34.0)+1.0)*x); }
-
-  float snoise(vec2 v) {
-    const vec4 C = vec4(0.211324865405187, 0.366025403784439,
-             -0.577350269189626, 0.024390243902439);
-    vec2 i  = floor(v + dot(v, C.yy) );
-    vec2 x0 = v - i + dot(i, C.xx);
-    vec2 i1;
-    i1 = (x0.x > x0.y) ? vec2(1.0, 0.0) : vec2(0.0, 1.0);
-    vec4 x12 = x0.xyxy + C.xxzz;
-    x12.xy -= i1;
-    i = mod289(i);
-    vec3 p = permute( permute( i.y + vec3(0.0, i1.y, 1.0 ))
-    + i.x + vec3(0.0, i1.x, 1.0 ));
-    vec3 m = max(0.5 - vec3(dot(x0,x0), dot(x12.xy,x12.xy), dot(x12.zw,x12.zw)), 0.0);
-    m = m*m ;
-    m = m*m ;
-    vec3 x = 2.0 * fract(p * C.www) - 1.0;
-    vec3 h = abs(x) - 0.5;
-    vec3 ox = floor(x + 0.5); // TYPO FIXED HERE
-    vec3 a0 = x - ox;
-    m *= 1.79284291400159 - 0.85373472095314 * ( a0*a0 + h*h );
-    vec3 g;
-    g.x  = a0.x  * x0.x  + h.x  * x0.y;
-    g.yz = a0.yz * x12.xz + h.yz * x12.yw;
-    return 130.0 * dot(m, g);
+  // Physics
+  uniform float uMass;
+  uniform float uDrag;
+  uniform float uMaxSpeed;
+  uniform float uBurst; // Radial impulse strength (driven by transients)
+
+  // Beat grid
+  uniform float uFieldRotation; // Radians, steps on each beat
+  uniform float uBeatPulse;     // Flow speed multiplier, kicks on each beat
+
+  // Audio modulation (summed routes from the modulation matrix)
+  uniform float uTimeWarp;
+  uniform float uNoiseDetail;
+  uniform float uSpeedMod;
+
+  // Pointer and emitter forces (see forces.ts)
+  uniform int uForceCount;
+  uniform vec4 uForces[${MAX_FORCES}];      // xyz position, w kind (0 attract, 1 repel, 2 vortex)
+  uniform vec4 uForceParams[${MAX_FORCES}]; // radius, strength, falloff
+
+  // Spawn shape: each particle's own texel is its home for reforming
+  uniform sampler2D uSpawn;
+  uniform float uReform;
+  uniform float uDepth;
+
+  // Bounds (half extents) and edge behavior, see BOUNDS_MODES
+  uniform vec3 uBounds;
+  uniform int uBoundsMode;
+  uniform float uContainStrength;
+
+#ifdef FLOCKING
+  // Neighbours, through a density grid over the bounds' xy extent (see densityGrid.ts)
+  uniform sampler2D uDensity; // Summed velocity (rgb) and density (a), 1 in the average cell
+  uniform float uDensityResolution;
+  uniform vec4 uFlock; // cohesion, separation, alignment, rest density
+#endif
+
+  vec2 rotate2D(vec2 v, float a) {
+    float c = cos(a);
+    float s = sin(a);
+    return vec2(c * v.x - s * v.y, s * v.x + c * v.y);
   }
 
-  // --- CURL NOISE ---
-  vec2 curlNoise(vec2 p, float t, float scale) {
-    float eps = 0.1;
-    // Base noise
-    float n1 = snoise(vec2(p.x * scale, p.y * scale + t));
-    // Offset x
-    float n2 = snoise(vec2((p.x + eps) * scale, p.y * scale + t));
-    // Offset y
-    float n3 = snoise(vec2(p.x * scale, (p.y + eps) * scale + t));
-    
-    // Curl = (dNoise/dy, -dNoise/dx)
-    float a = (n3 - n1) / eps;
-    float b = (n2 - n1) / eps;
-    return vec2(a, -b);
+#ifdef MODE_3D
+  ${curlNoise3DChunk}
+#else
+  ${curlNoise2DChunk}
+#endif
+
+  ${fieldChunk(customFieldCode)}
+
+  vec3 interactiveForce(vec3 p) {
+    vec3 total = vec3(0.0);
+    for (int i = 0; i < ${MAX_FORCES}; i++) {
+      if (i >= uForceCount) break;
+      vec3 d = uForces[i].xyz - p;
+      float dist = length(d);
+      float radius = uForceParams[i].x;
+      if (dist >= radius || dist < 0.001) continue;
+
+      float weight = uForceParams[i].y * pow(1.0 - dist / radius, uForceParams[i].z);
+      vec3 dir = d / dist;
+      float kind = uForces[i].w;
+      if (kind < 0.5) {
+        total += dir * weight;
+      } else if (kind < 1.5) {
+        total -= dir * weight;
+      } else {
+        // Spin counter-clockwise around the z axis (undefined right on it)
+        vec3 tangent = vec3(-d.y, d.x, 0.0);
+        float tangentLength = length(tangent);
+        if (tangentLength > 0.001) total += tangent / tangentLength * weight;
+      }
+    }
+    return total;
   }
 
-  // Pseudo-random generator for respawning
-  float rand(vec2 co){
-    return fract(sin(dot(co.xy ,vec2(12.9898,78.233))) * 43758.5453);
+#ifdef FLOCKING
+  // Central difference of density, reach cells either side
+  vec2 densityGradient(vec2 cell, float reach) {
+    vec2 h = vec2(reach / uDensityResolution, 0.0);
+    return vec2(
+      texture2D(uDensity, cell + h.xy).a - texture2D(uDensity, cell - h.xy).a,
+      texture2D(uDensity, cell + h.yx).a - texture2D(uDensity, cell - h.yx).a
+    ) * 0.5;
   }
 
+  vec3 flockForce(vec3 p, vec3 v) {
+    vec2 cell = p.xy / uBounds.xy * 0.5 + 0.5;
+    vec4 here = texture2D(uDensity, cell);
+
+    // Cohesion climbs the broad density slope toward groups; separation acts
+    // as pressure, pushing down the local slope once a cell is over the rest density
+    vec2 steer = densityGradient(cell, 4.0) * uFlock.x;
+    steer -= densityGradient(cell, 1.0) * uFlock.y * max(here.a - uFlock.w, 0.0);
+
+    // Alignment steers toward the mean velocity of the cell
+    vec3 align = here.a > 0.001 ? (here.rgb / here.a - v) * uFlock.z : vec3(0.0);
+    return vec3(steer, 0.0) + align;
+  }
+#endif
+
   void main() {
     vec2 uv = gl_FragCoord.xy / uResolution.xy;
     vec4 pos = texture2D(texturePosition, uv);
     vec3 p = pos.xyz;
-    float life = pos.w;
+    vec3 v = texture2D(textureVelocity, uv).xyz;
 
     // --- AUDIO REACTIVE PHYSICS ---
     
     // 1. Time Step (The "Time Warp")
-    // Bass makes the flow evolve faster
-    float timeStep = time * (0.2 + audioBass * 0.5);
+    // Modulation makes the flow evolve faster
+    float timeStep = time * (0.2 + uTimeWarp);
 
     // 2. Noise Scale (The "Jitter")
-    // Treble makes the field "crunchy" / high frequency
-    float noiseScale = 0.003 + (uNoiseScale * audioTreble * 0.02);
+    // Modulation makes the field "crunchy" / high frequency
+    float noiseScale = 0.003 + (uNoiseScale * uNoiseDetail * 0.02);
 
-    // 3. Calculate Velocity (Curl Noise)
-    vec2 velocity = curlNoise(p.xy, timeStep, noiseScale);
-    
-    // 4. Apply Speed
-    // Overall volume makes particles move faster
-    float speed = uFlowSpeed * (1.0 + audioLevel * 3.0);
-    p.xy += velocity * speed * (1.0 + uCurlInfluence);
-    
-    // 5. Life Cycle
-    life -= 0.003 * (1.0 + audioLevel); // Die faster when music is loud
+    // 3. Flow Velocity (blend of the selected fields, see fields.ts)
+    // Modulation makes the flow faster, beats kick it
+    float speed = uFlowSpeed * (1.0 + uSpeedMod) * uBeatPulse;
+
+    // Sample the field in rotated space, then rotate the result back
+    vec3 q = vec3(rotate2D(p.xy, -uFieldRotation), p.z);
+    vec3 curl = sampleField(q, timeStep, noiseScale);
+    curl.xy = rotate2D(curl.xy, uFieldRotation);
+    vec3 flow = curl * speed * (1.0 + uCurlInfluence);
+
+    // Freshly respawned particles start out riding the flow
+    if (pos.w >= 1.0) {
+      gl_FragColor = vec4(flow, 0.0);
+      return;
+    }
+
+    // 4. Drag pulls the particle toward the flow velocity; mass resists it
+    v = flow + (v - flow) * exp(-uDrag * uDelta / uMass);
+
+    // 5. External forces: transients push particles out from the center,
+    // pointers and emitters pull, push or spin them locally
+#ifdef MODE_3D
+    vec3 force = p / max(length(p), 1.0) * uBurst;
+#else
+    vec3 force = vec3(p.xy / max(length(p.xy), 1.0) * uBurst, 0.0);
+#endif
+    force += interactiveForce(p);
+#ifdef FLOCKING
+    force += flockForce(p, v);
+#endif
+
+    // Springs back toward the spawn shape, so it reforms when the flow calms
+    vec4 home = texture2D(uSpawn, uv);
+    force += (vec3(home.xy, home.w * uDepth) - p) * uReform * 0.01;
+
+    // Soft containment pushes back harder the further past the edge a particle strays
+    if (uBoundsMode == 3) {
+      force -= sign(p) * max(abs(p) - uBounds, 0.0) * uContainStrength * 0.01;
+    }
+    v += force * uDelta / uMass;
 
-    // 6. Respawn Logic
-    bool outOfBounds = abs(p.x) > 800.0 || abs(p.y) > 500.0;
+    // Bounce: reflect velocity off any wall the particle is outside of and moving past
+    if (uBoundsMode == 2) {
+      vec3 outward = step(uBounds, abs(p)) * step(0.0, p * v);
+      v *= 1.0 - 2.0 * outward;
+    }
+
+    // 6. Speed limit
+    float len = length(v);
+    if (len > uMaxSpeed) v *= uMaxSpeed / len;
+
+    gl_FragColor = vec4(v, 0.0);
+  }
+`;
+
+const positionFragmentShader = `
+  uniform float uDelta;
+  uniform vec2 uResolution;
+  uniform float uLifeDecay; // Audio modulation of the decay rate
+  uniform float uDepth; // Spawn volume depth (0 in 2D mode)
+  uniform vec3 uBounds; // Half extents of the simulated area
+  uniform int uBoundsMode; // See BOUNDS_MODES
+  uniform float uSeed;
+  uniform float uStep; // Simulation step index
+  uniform sampler2D uSpawn; // Precomputed spawn points (xy, depth offset in w)
+
+  // PCG3D hash (Jarzynski & Olano) for respawning: well distributed and
+  // identical on every GPU, unlike fract(sin(...))
+  uvec3 pcg3d(uvec3 v) {
+    v = v * 1664525u + 1013904223u;
+    v.x += v.y * v.z; v.y += v.z * v.x; v.z += v.x * v.y;
+    v ^= v >> 16u;
+    v.x += v.y * v.z; v.y += v.z * v.x; v.z += v.x * v.y;
+    return v;
+  }
+
+  vec3 random3() {
+    uvec3 key = uvec3(uvec2(gl_FragCoord.xy), uint(uStep)) ^ uvec3(uint(uSeed) * 0x9E3779B9u);
+    return vec3(pcg3d(key)) * (1.0 / 4294967295.0);
+  }
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / uResolution.xy;
+    vec4 pos = texture2D(texturePosition, uv);
+    vec3 v = texture2D(textureVelocity, uv).xyz;
+    vec3 p = pos.xyz;
+    float life = pos.w;
+
+    // 1. Integrate (velocity is still stale on the step right after a respawn)
+    if (life < 1.0) {
+      p += v * uDelta;
+    }
     
+    // 2. Life Cycle
+    life -= 0.003 * (1.0 + uLifeDecay) * uDelta; // Die faster when modulated (by default, when music is loud)
+
+    // 3. Bounds
+    if (uBoundsMode == 1) {
+      // Wrap around (toroidal)
+      p = mod(p + uBounds, 2.0 * uBounds) - uBounds;
+    } else if (uBoundsMode == 2) {
+      // Bounce: the velocity shader turns it around, so just keep it inside
+      p = clamp(p, -uBounds, uBounds);
+    }
+    // Containment lets particles stray a little; anything further is lost
+    vec3 limit = uBoundsMode == 3 ? uBounds * 2.0 : uBounds;
+    bool outOfBounds = any(greaterThan(abs(p), limit + 0.001));
+
+    // 4. Respawn Logic
     if (outOfBounds || life <= 0.0) {
-      // Respawn in a random area in the center
-      vec2 seed = uv + vec2(time);
-      p.x = (rand(seed) - 0.5) * 1000.0;
-      p.y = (rand(seed + 1.0) - 0.5) * 600.0;
-      p.z = 0.0;
+      // Respawn at a random point of the spawn shape (spread through the volume in 3D)
+      vec3 r = random3();
+      vec4 spawn = texture2D(uSpawn, (floor(r.xy * uResolution) + 0.5) / uResolution);
+      p = vec3(spawn.xy, spawn.w * uDepth);
       life = 1.0; // Reset life
     }
 
@@ -127,13 +364,34 @@ const positionFragmentShader = `
 
 const renderVertexShader = `
   uniform sampler2D uTexturePosition;
+  uniform sampler2D uTextureVelocity;
   uniform float uParticleSize;
   uniform float uPixelRatio;
+
+  // Palette
+  uniform sampler2D uPaletteFrom;
+  uniform sampler2D uPaletteTo;
+  uniform float uPaletteBlend;
+  uniform int uColorInput;
+  uniform float uMaxSpeed;
+  uniform vec4 uAudio; // level, bass, mid, treble
+
+  // Depth cues (3D mode)
+  uniform float uFogAmount;
+  uniform float uFogNear;
+  uniform float uFogFar;
+  uniform float uDepthSize;
   
   attribute vec2 reference;
   
   varying vec3 vColor;
   varying float vLife;
+  varying float vFog;
+
+  vec3 samplePalette(float t) {
+    vec2 lookup = vec2(clamp(t, 0.0, 1.0), 0.5);
+    return mix(texture2D(uPaletteFrom, lookup).rgb, texture2D(uPaletteTo, lookup).rgb, uPaletteBlend);
+  }
   
   void main() {
     // Read position from texture
@@ -145,28 +403,37 @@ const renderVertexShader = `
     float alpha = smoothstep(0.0, 0.2, life); // Fade in quickly
     alpha *= smoothstep(1.0, 0.8, life); // Fade out slowly
     vLife = alpha;
-    
-    // Color Mapping
-    // Cool Blue/Purple default
-    vec3 colorCold = vec3(0.1, 0.3, 0.9); 
-    // Hot Orange/White for energy
-    vec3 colorHot = vec3(1.0, 0.6, 0.1);
-    
-    // Mix based on life and position speed (simulated by life decay)
-    vColor = mix(colorHot, colorCold, life);
 
     vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
     
-    // Size attenuation (bigger when close)
-    gl_PointSize = uParticleSize * uPixelRatio * (1200.0 / -mvPosition.z);
+    // Color Mapping: pick the gradient lookup from the selected input
+    float t = 1.0 - life;
+    if (uColorInput == 1) {
+      t = length(texture2D(uTextureVelocity, reference).xyz) / uMaxSpeed;
+    } else if (uColorInput == 2) {
+      t = gl_Position.x / gl_Position.w * 0.5 + 0.5;
+    } else if (uColorInput >= 3) {
+      // Audio band picks the base color, life adds a little spread
+      float band = uAudio[uColorInput - 3];
+      t = band * 0.8 + (1.0 - life) * 0.2;
+    }
+    vColor = samplePalette(t);
     
-    gl_Position = projectionMatrix * mvPosition;
+    // Size attenuation (bigger when close), optionally exaggerated with depth
+    float depth = -mvPosition.z;
+    float depthSize = pow(800.0 / max(depth, 1.0), uDepthSize);
+    gl_PointSize = uParticleSize * uPixelRatio * (1200.0 / depth) * depthSize;
+
+    // Distance fog fades far particles into the background
+    vFog = mix(1.0, 1.0 - smoothstep(uFogNear, uFogFar, depth), uFogAmount);
   }
 `;
 
 const renderFragmentShader = `
   varying vec3 vColor;
   varying float vLife;
+  varying float vFog;
   
   void main() {
     // Soft circular particle
@@ -175,127 +442,535 @@ const renderFragmentShader = `
     if (r > 1.0) discard;
     
     // Soft edge glow
-    float alpha = vLife * (1.0 - r) * 0.8;
+    float alpha = vLife * vFog * (1.0 - r) * 0.8;
     
-    gl_FragColor = vec4(vColor, alpha);
+    gl_FragColor = vec4(vColor * alpha, alpha);
   }
 `;
 
-export default function Particles({ audioData, particleCount = PARTICLE_COUNT }: ParticlesProps) {
-  const { gl, size: canvasSize } = useThree();
-  const gpuComputeRef = useRef<GPUComputationRenderer | null>(null);
-  const positionVariableRef = useRef<any>(null); // Using any to avoid TS complexity with GPGPU lib
+// Builds the simulation state on the chosen backend, starting from the spawn shape
+function createSimulation(
+  gl: THREE.WebGLRenderer,
+  backend: SimulationBackend,
+  textureSize: number,
+  drawCount: number,
+  seed: number,
+  spawnPoints: Float32Array,
+  fieldCode: string
+) {
+  const uniforms = createSimulationUniforms(textureSize, seed);
+  const geometry = createReferenceGeometry(textureSize, drawCount);
+
+  // Start spread over the spawn shape, at random points in life
+  const random = createRandom(seed);
+  const initialPosition = new Float32Array(textureSize * textureSize * 4);
+  for (let i = 0; i < initialPosition.length; i += 4) {
+    initialPosition[i] = spawnPoints[i];
+    initialPosition[i + 1] = spawnPoints[i + 1];
+    initialPosition[i + 3] = random();
+  }
+
+  if (backend.kind === 'cpu') {
+    const cpu = new CpuSimulation(textureSize, initialPosition, seed);
+    return {
+      ...uniforms, geometry, cpu, gpuCompute: null, velVar: null, posVar: null, velPrefix: '', error: null,
+      initialTexture: cpu.positionTexture, initialVelocity: cpu.velocityTexture,
+    };
+  }
+
+  // 1. Setup GPGPU
+  const gpuCompute = new GPUComputationRenderer(textureSize, textureSize, gl);
+  gpuCompute.setDataType(backend.dataType);
+
+  const dtPosition = gpuCompute.createTexture();
+  (dtPosition.image.data as Float32Array).set(initialPosition);
+  const dtVelocity = gpuCompute.createTexture(); // Starts at rest
+
+  const velSource = velocityFragmentShader(fieldCode);
+  const velVar = gpuCompute.addVariable('textureVelocity', velSource, dtVelocity);
+  const posVar = gpuCompute.addVariable('texturePosition', positionFragmentShader, dtPosition);
+  gpuCompute.setVariableDependencies(velVar, [velVar, posVar]);
+  gpuCompute.setVariableDependencies(posVar, [velVar, posVar]);
+  Object.assign(velVar.material.uniforms, uniforms.velocity);
+  Object.assign(posVar.material.uniforms, uniforms.position);
+
+  // A failure rebuilds on the CPU (see the component)
+  const error = gpuCompute.init();
+
+  // init() prepends the dependency samplers; keep them when the source is swapped later
+  const velFragment = velVar.material.fragmentShader;
+  const velPrefix = velFragment.slice(0, velFragment.length - velSource.length);
+
+  return {
+    ...uniforms, geometry, cpu: null, gpuCompute, velVar, posVar, velPrefix, error,
+    initialTexture: dtPosition, initialVelocity: dtVelocity,
+  };
+}
+
+type Simulation = ReturnType<typeof createSimulation>;
+
+function disposeSimulation(sim: Simulation) {
+  sim.gpuCompute?.dispose();
+  sim.cpu?.dispose();
+  sim.geometry.dispose();
+}
+
+export default function Particles({
+  audioData,
+  modulation,
+  forces,
+  simulation,
+  onBackendChange,
+  palette,
+  colorInput,
+  mode3D = false,
+  particleCount = PARTICLE_COUNT,
+  layer = DEFAULT_LAYERS[0],
+  renderOrder = 0,
+}: ParticlesProps) {
+  const { gl } = useThree();
   const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const stepRef = useRef(0); // Simulation steps taken since (re)build
+  const accumulatorRef = useRef(0); // Unsimulated time carried between frames
+
+  // Palette textures live for the lifetime of the component; changes crossfade
+  const paletteBlender = useMemo(() => new PaletteBlender(palette), []);
+
+  useEffect(() => {
+    paletteBlender.setPalette(palette);
+  }, [paletteBlender, palette]);
+
+  useEffect(() => () => paletteBlender.dispose(), [paletteBlender]);
 
   const controls = useControls('Particle Simulation', {
     flowSpeed: { value: 1.5, min: 0.0, max: 5.0 },
     particleSize: { value: 3.0, min: 0.1, max: 20.0 },
     curlInfluence: { value: 1.0, min: 0.0, max: 5.0 },
     noiseScale: { value: 0.1, min: 0.0, max: 1.0 },
+    seed: { value: 1, min: 0, max: 99999, step: 1 },
   });
+  const seed = controls.seed + layer.seed;
 
-  const { geometry, initialTexture } = useMemo(() => {
-    // 1. Setup GPGPU
-    const gpuCompute = new GPUComputationRenderer(TEXTURE_SIZE, TEXTURE_SIZE, gl);
-    
-    // Use HalfFloatType for Mac compatibility
-    if (gl.capabilities.isWebGL2) {
-      gpuCompute.setDataType(THREE.HalfFloatType);
-    } else {
-      gpuCompute.setDataType(THREE.FloatType);
+  const physics = useControls('Physics', {
+    mass: { value: 1.0, min: 0.1, max: 10.0 },
+    drag: { value: 0.15, min: 0.01, max: 1.0 },
+    maxSpeed: { value: 20.0, min: 1.0, max: 60.0 },
+    burstStrength: { value: 4.0, min: 0.0, max: 20.0 },
+  });
+
+  const beatSync = useControls('Beat Sync', {
+    rotationPerBeat: { value: 10, min: 0, max: 90, step: 1, label: 'Rotation / Beat' },
+    pulse: { value: 0.5, min: 0.0, max: 3.0, label: 'Beat Pulse' },
+  });
+
+  const volume = useControls('3D', {
+    depth: { value: 600, min: 50, max: 2000, label: 'Spawn Depth' },
+    fogNear: { value: 500, min: 0, max: 3000 },
+    fogFar: { value: 1600, min: 100, max: 5000 },
+    depthSize: { value: 0.5, min: 0.0, max: 2.0, label: 'Depth Size' },
+  });
+
+  // Crossfades between field types; weights are read by the velocity shader
+  const fieldBlender = useMemo(() => new FieldBlender(), []);
+
+  const fieldOptions = Object.fromEntries(FIELD_TYPES.map(type => [type.label, type.value]));
+  // Per-type parameters only show while that type is in use
+  const uses = (type: FieldType) => (get: (path: string) => unknown) =>
+    get('Field.type') === type || get('Field.secondary') === type;
+
+  const field = useControls('Field', {
+    type: { value: 'curl', options: fieldOptions, label: 'Field' },
+    secondary: { value: 'none', options: { None: 'none', ...fieldOptions }, label: 'Blend With' },
+    mix: { value: 0.5, min: 0.0, max: 1.0, render: (get) => get('Field.secondary') !== 'none' },
+    fadeTime: { value: 2.0, min: 0.0, max: 10.0, label: 'Crossfade (s)' },
+    octaves: { value: 4, min: 1, max: 6, step: 1, render: uses('fbm') },
+    lacunarity: { value: 2.0, min: 1.5, max: 3.0, render: uses('fbm') },
+    gain: { value: 0.5, min: 0.2, max: 0.8, render: uses('fbm') },
+    warpAmount: { value: 150, min: 0, max: 500, label: 'Warp Amount', render: uses('warp') },
+    warpScale: { value: 0.002, min: 0.0005, max: 0.01, label: 'Warp Scale', render: uses('warp') },
+    vortexCount: { value: 4, min: 1, max: MAX_FIELD_POINTS, step: 1, label: 'Vortices', render: uses('vortices') },
+    vortexRadius: { value: 200, min: 20, max: 800, label: 'Vortex Radius', render: uses('vortices') },
+    vortexSpin: { value: 3.0, min: -10.0, max: 10.0, label: 'Vortex Spin', render: uses('vortices') },
+    sinkCount: { value: 2, min: 1, max: MAX_FIELD_POINTS, step: 1, label: 'Sinks', render: uses('sinks') },
+    sinkRadius: { value: 250, min: 20, max: 800, label: 'Sink Radius', render: uses('sinks') },
+    sinkStrength: { value: 3.0, min: -10.0, max: 10.0, label: 'Sink Strength', render: uses('sinks') },
+    windAngle: { value: 0, min: -180, max: 180, step: 1, label: 'Wind Angle', render: uses('wind') },
+    windStrength: { value: 2.0, min: 0.0, max: 10.0, label: 'Wind Strength', render: uses('wind') },
+    windGust: { value: 0.5, min: 0.0, max: 2.0, label: 'Gusts', render: uses('wind') },
+  });
+
+  const [customField, setCustomField] = useControls('Custom Field', () => ({
+    code: { value: DEFAULT_CUSTOM_FIELD, rows: 8, render: uses('custom') },
+    status: { value: 'OK', editable: false, render: uses('custom') },
+  }));
+
+  // Last snippet that compiled; a broken edit leaves the running field alone
+  const [fieldCode, setFieldCode] = useState(DEFAULT_CUSTOM_FIELD);
+  const fieldCodeRef = useRef(fieldCode);
+  fieldCodeRef.current = fieldCode;
+
+  // Particle-particle interaction through a density grid, within this layer
+  const flocking = useControls('Flocking', {
+    enabled: false,
+    gridSize: { value: 64, options: GRID_SIZES, label: 'Grid Size', render: (get) => get('Flocking.enabled') },
+    cohesion: { value: 1.0, min: 0.0, max: 10.0, render: (get) => get('Flocking.enabled') },
+    separation: { value: 1.0, min: 0.0, max: 10.0, render: (get) => get('Flocking.enabled') },
+    alignment: { value: 0.05, min: 0.0, max: 0.5, render: (get) => get('Flocking.enabled') },
+    restDensity: { value: 1.0, min: 0.0, max: 10.0, label: 'Rest Density', render: (get) => get('Flocking.enabled') },
+  });
+
+  const bounds = useControls('Bounds', {
+    mode: { value: 'respawn', options: [...BOUNDS_MODES] },
+    margin: { value: 40, min: -200, max: 400, label: 'Margin' }, // Beyond the visible edge, world units
+    containStrength: { value: 1.0, min: 0.1, max: 10.0, label: 'Containment', render: (get) => get('Bounds.mode') === 'contain' },
+  });
+
+  const spawn = useControls('Spawn', {
+    shape: { value: 'rect', options: Object.fromEntries(SPAWN_SHAPES.map(shape => [shape.label, shape.value])) },
+    width: { value: 1000, min: 10, max: 2000 },
+    height: { value: 600, min: 10, max: 1200 },
+    thickness: { value: 60, min: 1, max: 500, render: (get) => ['ring', 'line'].includes(get('Spawn.shape')) },
+    angle: { value: 0, min: -180, max: 180, step: 1, render: (get) => get('Spawn.shape') === 'line' },
+    text: { value: 'FLOW', render: (get) => get('Spawn.shape') === 'text' },
+    font: { value: 'sans-serif', render: (get) => get('Spawn.shape') === 'text' },
+    svgPath: { value: 'M0 0 L100 0 L50 87 Z', label: 'SVG Path', render: (get) => get('Spawn.shape') === 'svg' },
+    image: { image: undefined, render: (get) => get('Spawn.shape') === 'image' },
+    reform: { value: 0.0, min: 0.0, max: 5.0 },
+  });
+
+  // Rasterizing text and paths is slow, so shapes are rebuilt once typing pauses
+  const spawnText = useDebounced(spawn.text);
+  const spawnFont = useDebounced(spawn.font);
+  const spawnSvgPath = useDebounced(spawn.svgPath);
+
+  // Uploaded images decode asynchronously; until then (or without one) the rectangle is used
+  const [spawnImage, setSpawnImage] = useState<HTMLImageElement | null>(null);
+  useEffect(() => {
+    if (!spawn.image) {
+      setSpawnImage(null);
+      return;
     }
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      if (!cancelled) setSpawnImage(image);
+    };
+    image.onerror = () => {
+      if (cancelled) return;
+      console.warn('Could not load the spawn image; spawning in the rectangle instead');
+      setSpawnImage(null);
+    };
+    image.src = spawn.image;
+    return () => {
+      cancelled = true;
+    };
+  }, [spawn.image]);
 
-    const dtPosition = gpuCompute.createTexture();
-    const data = dtPosition.image.data;
-    
-    if (data) {
-        for (let i = 0; i < data.length; i += 4) {
-            // Random initial positions
-            data[i] = (Math.random() - 0.5) * 1000;
-            data[i + 1] = (Math.random() - 0.5) * 600;
-            data[i + 2] = 0;
-            data[i + 3] = Math.random(); // Random start life
-        }
+  const debug = useControls('Debug', {
+    simulation: { value: 'auto', options: { Auto: 'auto', 'CPU fallback': 'cpu' } },
+  });
+
+  // Where the simulation runs: the GPU when it can render to float textures, else the CPU
+  const capabilities = useMemo(() => getCapabilities(gl), [gl]);
+  const [gpuFailure, setGpuFailure] = useState<string | null>(null);
+  const backend = useMemo((): SimulationBackend => {
+    if (debug.simulation === 'cpu') return { kind: 'cpu', reason: 'Selected in the Debug panel' };
+    if (gpuFailure) return { kind: 'cpu', reason: `GPU simulation failed: ${gpuFailure}` };
+    return chooseBackend(capabilities);
+  }, [capabilities, debug.simulation, gpuFailure]);
+
+  // Compute textures are sized to the requested count, within the GPU's limit (or the CPU's budget)
+  const textureSize = Math.min(
+    textureSizeForCount(particleCount),
+    backend.kind === 'cpu' ? CPU_MAX_TEXTURE_SIZE : capabilities.maxTextureSize
+  );
+  const drawCount = Math.min(particleCount, textureSize * textureSize);
+
+  // The CPU fallback can't run GLSL, so the status says what runs instead
+  useEffect(() => {
+    const error = validateFieldCode(gl.getContext(), customField.code);
+    const running = backend.kind === 'cpu' ? 'OK, but the CPU simulation runs curl noise instead' : 'OK';
+    setCustomField({ status: error ?? running });
+    if (!error) setFieldCode(customField.code);
+  }, [gl, backend.kind, customField.code, setCustomField]);
+
+  // One spawn point per texel; respawns pick one at random, and each particle's own is its home
+  const spawnPoints = useMemo(
+    () => generateSpawnPoints({
+      shape: spawn.shape as SpawnShape,
+      width: spawn.width,
+      height: spawn.height,
+      thickness: spawn.thickness,
+      angle: spawn.angle,
+      text: spawnText,
+      font: spawnFont,
+      svgPath: spawnSvgPath,
+      image: spawnImage,
+    }, textureSize * textureSize, seed),
+    [spawn.shape, spawn.width, spawn.height, spawn.thickness, spawn.angle, spawnText, spawnFont, spawnSvgPath, spawnImage, textureSize, seed]
+  );
+
+  const spawnTexture = useMemo(() => {
+    const texture = new THREE.DataTexture(spawnPoints, textureSize, textureSize, THREE.RGBAFormat, THREE.FloatType);
+    texture.needsUpdate = true;
+    return texture;
+  }, [spawnPoints, textureSize]);
+
+  useEffect(() => () => spawnTexture.dispose(), [spawnTexture]);
+
+  // Read by the initial fill without rebuilding the simulation whenever the shape changes
+  const spawnPointsRef = useRef(spawnPoints);
+  spawnPointsRef.current = spawnPoints;
+
+  // Created and freed by the same effect, so a remount (e.g. under StrictMode) starts
+  // from a freshly seeded simulation rather than one whose targets were disposed
+  const [sim, setSim] = useState<Simulation | null>(null);
+  const simRef = useRef<Simulation | null>(null);
+
+  useEffect(() => {
+    const created = createSimulation(gl, backend, textureSize, drawCount, seed, spawnPointsRef.current, fieldCodeRef.current);
+    if (created.error) {
+      console.error('GPGPU Init Error:', created.error);
+      disposeSimulation(created);
+      setGpuFailure(created.error);
+      return;
     }
+    setSim(created);
+    return () => {
+      if (simRef.current === created) simRef.current = null;
+      setSim(null);
+      disposeSimulation(created);
+    };
+  }, [gl, backend, textureSize, drawCount, seed]);
 
-    const posVar = gpuCompute.addVariable('texturePosition', positionFragmentShader, dtPosition);
-    gpuCompute.setVariableDependencies(posVar, [posVar]);
-    
-    // Initialize Uniforms
-    const uniforms = posVar.material.uniforms;
-    uniforms.time = { value: 0 };
-    uniforms.uFlowSpeed = { value: 1.0 };
-    uniforms.uResolution = { value: new THREE.Vector2(TEXTURE_SIZE, TEXTURE_SIZE) };
-    uniforms.audioBass = { value: 0 };
-    uniforms.audioTreble = { value: 0 };
-    uniforms.audioLevel = { value: 0 };
-    uniforms.uCurlInfluence = { value: 1.0 };
-    uniforms.uNoiseScale = { value: 0.1 };
-
-    const error = gpuCompute.init();
-    if (error !== null) console.error("GPGPU Init Error:", error);
-
-    gpuComputeRef.current = gpuCompute;
-    positionVariableRef.current = posVar;
-
-    // 2. Render Geometry
-    const geom = new THREE.BufferGeometry();
-    const references = new Float32Array(particleCount * 2);
-    
-    for (let i = 0; i < particleCount; i++) {
-      const x = (i % TEXTURE_SIZE) / TEXTURE_SIZE;
-      const y = Math.floor(i / TEXTURE_SIZE) / TEXTURE_SIZE;
-      references[i * 2] = x + (0.5 / TEXTURE_SIZE);
-      references[i * 2 + 1] = y + (0.5 / TEXTURE_SIZE);
+  useEffect(() => {
+    onBackendChange?.(backend, drawCount);
+  }, [onBackendChange, backend, drawCount]);
+
+  // Hot-swap a newly validated custom field
+  useEffect(() => {
+    if (!sim?.velVar) return;
+    const material = sim.velVar.material;
+    const source = sim.velPrefix + velocityFragmentShader(fieldCode);
+    if (material.fragmentShader === source) return;
+    material.fragmentShader = source;
+    material.needsUpdate = true;
+  }, [sim, fieldCode]);
+
+  // Switching between 2D and 3D swaps the noise implementation, so recompile
+  useEffect(() => {
+    if (!sim?.velVar) return;
+    const material = sim.velVar.material;
+    if (mode3D) {
+      material.defines.MODE_3D = '';
+    } else {
+      delete material.defines.MODE_3D;
+    }
+    material.needsUpdate = true;
+  }, [sim, mode3D]);
+
+  // The GPU grid needs a float target that blends; without one flocking stays off
+  const gridType = densityGridType(capabilities);
+  const flockingOn = flocking.enabled && (backend.kind === 'cpu' || gridType !== null);
+  useEffect(() => {
+    if (flocking.enabled && !flockingOn) console.warn('Flocking is unavailable: this GPU cannot blend into float textures');
+  }, [flocking.enabled, flockingOn]);
+
+  // Flocking compiles the neighbour forces into the velocity pass
+  useEffect(() => {
+    if (!sim?.velVar) return;
+    const material = sim.velVar.material;
+    if (flockingOn) {
+      material.defines.FLOCKING = '';
+    } else {
+      delete material.defines.FLOCKING;
     }
+    material.needsUpdate = true;
+  }, [sim, flockingOn]);
 
-    geom.setAttribute('reference', new THREE.BufferAttribute(references, 2));
-    geom.boundingSphere = new THREE.Sphere(new THREE.Vector3(0, 0, 0), 5000);
+  // Only the GPU needs a grid target; the CPU fallback bins into an array as it steps
+  const densityGridRef = useRef<DensityGrid | null>(null);
+  useEffect(() => {
+    if (!sim?.gpuCompute || !flockingOn || gridType === null) return;
+    const grid = new DensityGrid(flocking.gridSize, sim.geometry, gridType);
+    densityGridRef.current = grid;
+    return () => {
+      densityGridRef.current = null;
+      grid.dispose();
+    };
+  }, [sim, gridType, flockingOn, flocking.gridSize]);
 
-    return { geometry: geom, initialTexture: dtPosition };
-  }, [gl, particleCount]);
+  // Start stepping once the shader defines above are in place
+  useEffect(() => {
+    stepRef.current = 0;
+    accumulatorRef.current = 0;
+    simRef.current = sim;
+  }, [sim]);
 
-  useFrame((state) => {
-    if (!gpuComputeRef.current || !positionVariableRef.current) return;
+  useFrame(({ camera, size }, delta) => {
+    const sim = simRef.current;
+    if (!sim) return;
+    const densityGrid = densityGridRef.current;
 
-    // 1. Update Simulation Uniforms
-    const computeMat = positionVariableRef.current.material;
-    computeMat.uniforms.time.value = state.clock.elapsedTime;
+    // 1. Update Simulation Uniforms (held constant across this frame's steps)
+    const velUniforms = sim.velocity;
     
-    // Control Panel
-    computeMat.uniforms.uFlowSpeed.value = controls.flowSpeed;
-    computeMat.uniforms.uCurlInfluence.value = controls.curlInfluence;
-    computeMat.uniforms.uNoiseScale.value = controls.noiseScale;
+    const mod = modulation.values;
+    // The layer's own band speeds it up and swells its particles
+    const drive = 1 + (layer.band === 'none' ? 0 : audioData[layer.band] * layer.bandDepth);
     
-    // Audio Data
-    computeMat.uniforms.audioBass.value = audioData.bass;
-    computeMat.uniforms.audioTreble.value = audioData.treble;
-    computeMat.uniforms.audioLevel.value = audioData.level;
+    // Control Panel, scaled by the layer
+    velUniforms.uFlowSpeed.value = controls.flowSpeed * layer.flowSpeed * drive;
+    velUniforms.uCurlInfluence.value = Math.max(controls.curlInfluence + mod.curlInfluence, 0);
+    velUniforms.uNoiseScale.value = controls.noiseScale * layer.noiseScale;
+    velUniforms.uMass.value = Math.max(physics.mass * layer.mass, 0.01);
+    velUniforms.uDrag.value = Math.max(physics.drag * (1 + mod.drag), 0.001);
+    velUniforms.uMaxSpeed.value = physics.maxSpeed;
+    
+    // Audio Modulation
+    velUniforms.uTimeWarp.value = mod.timeWarp;
+    velUniforms.uNoiseDetail.value = mod.noiseDetail;
+    velUniforms.uSpeedMod.value = mod.flowSpeed;
+    velUniforms.uBurst.value = mod.burst * physics.burstStrength;
+
+    // Interaction
+    velUniforms.uForceCount.value = forces.pack(velUniforms.uForces.value, velUniforms.uForceParams.value);
+    velUniforms.uSpawn.value = spawnTexture;
+    velUniforms.uReform.value = Math.max(spawn.reform + mod.reform, 0);
+    velUniforms.uDepth.value = mode3D ? volume.depth : 0;
+
+    // Field library
+    fieldBlender.update(
+      layer.field ?? (field.type as FieldType),
+      field.secondary === 'none' ? null : (field.secondary as FieldType),
+      field.mix + mod.fieldMix,
+      field.fadeTime,
+      delta
+    );
+    velUniforms.uFieldWeights.value = fieldBlender.weights;
+    velUniforms.uFbm.value.set(field.octaves, field.lacunarity, field.gain);
+    velUniforms.uWarp.value.set(field.warpAmount, field.warpScale);
+    velUniforms.uVortices.value.set(field.vortexCount, field.vortexRadius, field.vortexSpin);
+    velUniforms.uSinks.value.set(field.sinkCount, field.sinkRadius, field.sinkStrength);
+    velUniforms.uWind.value.set(THREE.MathUtils.degToRad(field.windAngle), field.windStrength, field.windGust);
+
+    // Bounds: the frustum's extent at the origin plane, matched to the canvas aspect
+    const fov = camera instanceof THREE.PerspectiveCamera ? camera.fov : 60;
+    const halfHeight = Math.tan(THREE.MathUtils.degToRad(fov) / 2) * camera.position.length();
+    const halfWidth = halfHeight * (size.width / Math.max(size.height, 1));
+    velUniforms.uBounds.value.set(
+      Math.max(halfWidth + bounds.margin, 10),
+      Math.max(halfHeight + bounds.margin, 10),
+      Math.max(mode3D ? volume.depth : 0, 1)
+    );
+    velUniforms.uBoundsMode.value = BOUNDS_MODES.indexOf(bounds.mode as typeof BOUNDS_MODES[number]);
+    velUniforms.uContainStrength.value = bounds.containStrength;
+
+    // Flocking
+    velUniforms.uDensity.value = densityGrid?.texture ?? null;
+    velUniforms.uDensityResolution.value = flockingOn ? flocking.gridSize : 0;
+    velUniforms.uFlock.value.set(flocking.cohesion, flocking.separation, flocking.alignment, flocking.restDensity);
+
+    // Beat grid: the field turns by a fixed step per beat, eased in over the beat,
+    // and flow speed spikes on the downbeat of each beat
+    const easedPhase = 1 - Math.pow(1 - audioData.beatPhase, 3);
+    const step = THREE.MathUtils.degToRad(beatSync.rotationPerBeat);
+    velUniforms.uFieldRotation.value = ((audioData.beatCount + easedPhase) * step) % (Math.PI * 2);
+    velUniforms.uBeatPulse.value = audioData.bpm > 0 ? 1 + beatSync.pulse * Math.pow(1 - audioData.beatPhase, 4) : 1;
+
+    const posUniforms = sim.position;
+    posUniforms.uLifeDecay.value = mod.lifeDecay;
+    posUniforms.uDepth.value = mode3D ? volume.depth : 0;
+    posUniforms.uSpawn.value = spawnTexture;
     
-    gpuComputeRef.current.compute();
+    // 2. Fixed timestep: simulation time only ever advances by whole steps
+    accumulatorRef.current = Math.min(accumulatorRef.current + Math.max(delta, 0), SIM_STEP * MAX_STEPS_PER_FRAME);
+    // (with a little slack so rounding never drops a step at exact multiples, e.g. offline at 30fps)
+    const cpuStart = performance.now();
+    if (sim.gpuCompute) simulation?.computeTimer.begin(gl.getContext());
+    while (accumulatorRef.current >= SIM_STEP - 1e-6) {
+      accumulatorRef.current = Math.max(accumulatorRef.current - SIM_STEP, 0);
+      velUniforms.time.value = stepRef.current * SIM_STEP;
+      posUniforms.uStep.value = stepRef.current;
+      if (sim.gpuCompute) {
+        // Neighbours as of the previous step, like the rest of the state the pass reads
+        densityGrid?.splat(
+          gl,
+          sim.gpuCompute.getCurrentRenderTarget(sim.posVar).texture,
+          sim.gpuCompute.getCurrentRenderTarget(sim.velVar).texture,
+          velUniforms.uBounds.value,
+          drawCount
+        );
+        sim.gpuCompute.compute();
+      } else {
+        sim.cpu.step(velUniforms, posUniforms, spawnPoints, mode3D, drawCount);
+      }
+      stepRef.current++;
+    }
+    if (sim.gpuCompute) simulation?.computeTimer.end();
+
+    const position = sim.gpuCompute ? sim.gpuCompute.getCurrentRenderTarget(sim.posVar).texture : sim.cpu.positionTexture;
+    const velocity = sim.gpuCompute ? sim.gpuCompute.getCurrentRenderTarget(sim.velVar).texture : sim.cpu.velocityTexture;
 
-    // 2. Update Render Uniforms
+    // Publish the state for debug overlays
+    if (simulation) {
+      simulation.position = position;
+      simulation.velocity = velocity;
+      simulation.cpuMilliseconds = sim.gpuCompute ? null : performance.now() - cpuStart;
+      simulation.textureSize = textureSize;
+      simulation.count = drawCount;
+      simulation.fieldUniforms = velUniforms;
+      simulation.fieldCode = fieldCode;
+      simulation.mode3D = mode3D;
+    }
+
+    // 3. Update Render Uniforms
     if (materialRef.current) {
-      const target = gpuComputeRef.current.getCurrentRenderTarget(positionVariableRef.current);
-      materialRef.current.uniforms.uTexturePosition.value = target.texture;
-      materialRef.current.uniforms.uParticleSize.value = controls.particleSize;
+      const uniforms = materialRef.current.uniforms;
+      uniforms.uTexturePosition.value = position;
+      uniforms.uTextureVelocity.value = velocity;
+      uniforms.uParticleSize.value = controls.particleSize * layer.size * drive * Math.max(1 + mod.particleSize, 0);
+      uniforms.uMaxSpeed.value = physics.maxSpeed;
+      uniforms.uFogAmount.value = mode3D ? 1 : 0;
+      uniforms.uFogNear.value = volume.fogNear;
+      uniforms.uFogFar.value = Math.max(volume.fogFar, volume.fogNear + 1);
+      uniforms.uDepthSize.value = mode3D ? volume.depthSize : 0;
+
+      paletteBlender.update(delta);
+      uniforms.uPaletteBlend.value = paletteBlender.blend;
+      uniforms.uColorInput.value = COLOR_INPUTS.findIndex(input => input.value === colorInput);
+      uniforms.uAudio.value.set(audioData.level, audioData.bass, audioData.mid, audioData.treble);
     }
   });
 
+  if (!sim) return null;
+
   return (
-    <points geometry={geometry} frustumCulled={false}>
+    <points geometry={sim.geometry} frustumCulled={false} renderOrder={renderOrder}>
       <shaderMaterial
         ref={materialRef}
         vertexShader={renderVertexShader}
         fragmentShader={renderFragmentShader}
         uniforms={{
-          uTexturePosition: { value: initialTexture },
+          uTexturePosition: { value: sim.initialTexture },
+          uTextureVelocity: { value: sim.initialVelocity },
           uParticleSize: { value: 3.0 },
-          uPixelRatio: { value: gl.getPixelRatio() }
+          uPixelRatio: { value: gl.getPixelRatio() },
+          uPaletteFrom: { value: paletteBlender.from },
+          uPaletteTo: { value: paletteBlender.to },
+          uPaletteBlend: { value: paletteBlender.blend },
+          uColorInput: { value: 0 },
+          uMaxSpeed: { value: 20.0 },
+          uAudio: { value: new THREE.Vector4() },
+          uFogAmount: { value: 0 },
+          uFogNear: { value: 500 },
+          uFogFar: { value: 1600 },
+          uDepthSize: { value: 0 },
         }}
         transparent={true}
         depthWrite={false}
-        blending={THREE.AdditiveBlending}
+        blending={BLENDING_MODES[layer.blending]}
+        premultipliedAlpha={true}
       />
     </points>
   );
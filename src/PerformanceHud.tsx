@@ -0,0 +1,46 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import { SimulationView } from './simulationView';
+
+interface PerformanceHudProps {
+  simulation: SimulationView;
+}
+
+const UPDATE_INTERVAL = 0.25; // Seconds between readouts
+
+/**
+ * Frame rate, GPU compute time and particle count. Written straight to the
+ * DOM a few times a second instead of through React state.
+ */
+export default function PerformanceHud({ simulation }: PerformanceHudProps) {
+  const textRef = useRef<HTMLPreElement>(null);
+  const statsRef = useRef({ frames: 0, elapsed: 0 });
+
+  useFrame((_, delta) => {
+    const stats = statsRef.current;
+    stats.frames++;
+    stats.elapsed += delta;
+    if (stats.elapsed < UPDATE_INTERVAL || !textRef.current) return;
+
+    const fps = stats.frames / stats.elapsed;
+    const cpuMs = simulation.cpuMilliseconds;
+    const computeMs = cpuMs ?? simulation.computeTimer.milliseconds;
+    textRef.current.textContent = [
+      `FPS       ${fps.toFixed(0)} (${(1000 / fps).toFixed(1)} ms)`,
+      `Compute   ${computeMs === null ? 'n/a' : `${computeMs.toFixed(2)} ms`} ${cpuMs === null ? '(GPU)' : '(CPU)'}`,
+      `Particles ${simulation.count.toLocaleString()}`,
+    ].join('\n');
+    stats.frames = 0;
+    stats.elapsed = 0;
+  });
+
+  return (
+    <Html fullscreen style={{ pointerEvents: 'none' }}>
+      <pre
+        ref={textRef}
+        className="absolute bottom-4 left-4 m-0 rounded bg-black/60 px-3 py-2 font-mono text-xs text-white"
+      />
+    </Html>
+  );
+}
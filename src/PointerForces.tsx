@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useControls } from 'leva';
+import { ForceEmitter, ForceField, ForceKind } from './forces';
+
+interface PointerForcesProps {
+  field: ForceField;
+  emitters: ForceEmitter[];
+  tool: ForceKind | null; // null leaves the pointer to the camera
+  placing: boolean; // Clicks drop emitters instead of holding a force
+  onPlace: (kind: ForceKind, position: [number, number, number]) => void;
+}
+
+/**
+ * Turns pointers on the canvas into forces: every held mouse button or touch
+ * pushes one force, following the pointer through the camera onto the plane
+ * through the origin that faces the view. Shift-click (or placing mode)
+ * leaves a persistent emitter there instead.
+ */
+export default function PointerForces({ field, emitters, tool, placing, onPlace }: PointerForcesProps) {
+  const { gl, camera } = useThree();
+
+  const shape = useControls('Pointer', {
+    radius: { value: 250, min: 20, max: 1000 },
+    strength: { value: 2.0, min: 0.0, max: 10.0 },
+    falloff: { value: 1.0, min: 0.0, max: 4.0 },
+  });
+
+  // Screen positions of the held pointers, in NDC
+  const held = useMemo(() => new Map<number, THREE.Vector2>(), []);
+  const unprojector = useMemo(
+    () => ({ raycaster: new THREE.Raycaster(), plane: new THREE.Plane(), normal: new THREE.Vector3(), point: new THREE.Vector3() }),
+    []
+  );
+
+  // Ray from the camera through the pointer, hit against the plane through the origin facing the view
+  const unproject = useCallback((ndc: THREE.Vector2) => {
+    const { raycaster, plane, normal, point } = unprojector;
+    raycaster.setFromCamera(ndc, camera);
+    plane.set(camera.getWorldDirection(normal), 0);
+    return raycaster.ray.intersectPlane(plane, point);
+  }, [camera, unprojector]);
+
+  useEffect(() => {
+    field.emitters = emitters;
+  }, [field, emitters]);
+
+  useEffect(() => {
+    field.pointerShape = { ...shape };
+  }, [field, shape]);
+
+  useEffect(() => {
+    const canvas = gl.domElement;
+    if (!tool) return;
+
+    const toNdc = (e: PointerEvent, target: THREE.Vector2) => {
+      const rect = canvas.getBoundingClientRect();
+      return target.set(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1);
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      const ndc = toNdc(e, new THREE.Vector2());
+      if (placing || e.shiftKey) {
+        const point = unproject(ndc);
+        if (point) onPlace(tool, [point.x, point.y, point.z]);
+        return;
+      }
+      canvas.setPointerCapture(e.pointerId);
+      held.set(e.pointerId, ndc);
+    };
+    const onPointerMove = (e: PointerEvent) => {
+      const ndc = held.get(e.pointerId);
+      if (ndc) toNdc(e, ndc);
+    };
+    const onPointerUp = (e: PointerEvent) => {
+      held.delete(e.pointerId);
+      field.removePointer(e.pointerId);
+    };
+
+    // Keep touches from scrolling or zooming the page
+    const touchAction = canvas.style.touchAction;
+    canvas.style.touchAction = 'none';
+    canvas.addEventListener('pointerdown', onPointerDown);
+    canvas.addEventListener('pointermove', onPointerMove);
+    canvas.addEventListener('pointerup', onPointerUp);
+    canvas.addEventListener('pointercancel', onPointerUp);
+    return () => {
+      canvas.style.touchAction = touchAction;
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointermove', onPointerMove);
+      canvas.removeEventListener('pointerup', onPointerUp);
+      canvas.removeEventListener('pointercancel', onPointerUp);
+      held.clear();
+      field.clearPointers();
+    };
+  }, [gl, field, held, unproject, tool, placing, onPlace]);
+
+  // Re-project every frame so a held pointer stays under the finger while the camera moves
+  useFrame(() => {
+    if (!tool) return;
+    for (const [id, ndc] of held) {
+      const point = unproject(ndc);
+      if (point) field.setPointer(id, tool, point);
+    }
+  }, -1);
+
+  return null;
+}
@@ -0,0 +1,90 @@
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { PostEffect, postEffectInfo } from './postEffects';
+
+interface PostPanelProps {
+  effects: PostEffect[];
+  onChange: (effects: PostEffect[]) => void;
+}
+
+// As many decimals as the slider step has
+const formatValue = (value: number, step: number) => value.toFixed(Math.max(0, Math.ceil(-Math.log10(step))));
+
+export default function PostPanel({ effects, onChange }: PostPanelProps) {
+  const update = (index: number, changes: Partial<PostEffect>) => {
+    onChange(effects.map((effect, i) => (i === index ? { ...effect, ...changes } : effect)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...effects];
+    const [effect] = next.splice(index, 1);
+    next.splice(index + offset, 0, effect);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm mb-1">Post Effects</label>
+      <div className="text-xs text-gray-500 mb-1">Applied top to bottom; route audio to an effect to drive its amount.</div>
+      <div className="space-y-1">
+        {effects.map((effect, index) => {
+          const info = postEffectInfo(effect.kind);
+          return (
+            <div key={effect.kind} className="p-1 bg-gray-900 rounded-lg">
+              <div className="flex gap-1 items-center">
+                <input
+                  type="checkbox"
+                  checked={effect.enabled}
+                  onChange={(e) => update(index, { enabled: e.target.checked })}
+                />
+                <span className={`flex-1 text-xs ${effect.enabled ? '' : 'text-gray-500'}`}>{info.label}</span>
+                <button
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ChevronUp size={12} />
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={index === effects.length - 1}
+                  className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ChevronDown size={12} />
+                </button>
+              </div>
+              {effect.enabled && (
+                <div className="mt-1 space-y-0.5">
+                  {[
+                    { key: 'amount', label: 'Amount', min: 0, ...info.amount, value: effect.amount },
+                    ...info.params.map(param => ({ ...param, value: effect.params[param.key] })),
+                  ].map(param => (
+                    <label key={param.key} className="flex gap-1 items-center text-xs text-gray-400">
+                      <span className="w-16 shrink-0">{param.label}</span>
+                      <input
+                        type="range"
+                        min={param.min}
+                        max={param.max}
+                        step={param.step}
+                        value={param.value}
+                        onChange={(e) => {
+                          const value = Number(e.target.value);
+                          update(index, param.key === 'amount'
+                            ? { amount: value }
+                            : { params: { ...effect.params, [param.key]: value } });
+                        }}
+                        className="flex-1 min-w-0"
+                      />
+                      <span className="w-10 text-right">{formatValue(param.value, param.step)}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
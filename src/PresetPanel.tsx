@@ -0,0 +1,155 @@
+import { useRef, useState } from 'react';
+import { Save, Trash2, Download, Upload, Link } from 'lucide-react';
+import { BUILT_IN_PRESETS, Preset, encodePresetHash, loadSavedPresets, parsePresetJson, storeSavedPresets } from './presets';
+import { downloadBlob } from './offlineRender';
+
+interface PresetPanelProps {
+  // Snapshot of every current setting under the given name
+  capture: (name: string) => Preset;
+  onApply: (preset: Preset) => void;
+}
+
+export default function PresetPanel({ capture, onApply }: PresetPanelProps) {
+  const [saved, setSaved] = useState<Preset[]>(loadSavedPresets);
+  const [selected, setSelected] = useState('');
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const updateSaved = (presets: Preset[]) => {
+    setSaved(presets);
+    storeSavedPresets(presets);
+  };
+
+  const select = (value: string) => {
+    setSelected(value);
+    const separator = value.indexOf(':');
+    const source = value.slice(0, separator);
+    const presetName = value.slice(separator + 1);
+    const preset = (source === 'builtin' ? BUILT_IN_PRESETS : saved).find(p => p.name === presetName);
+    if (!preset) return;
+    setName(preset.name);
+    onApply(preset);
+  };
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const preset = capture(trimmed);
+    // Saving under an existing name overwrites it
+    updateSaved(saved.some(p => p.name === trimmed) ? saved.map(p => (p.name === trimmed ? preset : p)) : [...saved, preset]);
+    setSelected(`saved:${trimmed}`);
+  };
+
+  const remove = () => {
+    if (!selected.startsWith('saved:')) return;
+    updateSaved(saved.filter(p => `saved:${p.name}` !== selected));
+    setSelected('');
+  };
+
+  const exportJson = () => {
+    const preset = capture(name.trim() || 'Untitled');
+    const blob = new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `${preset.name.replace(/[^\w-]+/g, '_')}.json`);
+  };
+
+  const importJson = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const preset = parsePresetJson(await file.text());
+      updateSaved([...saved.filter(p => p.name !== preset.name), preset]);
+      setSelected(`saved:${preset.name}`);
+      setName(preset.name);
+      onApply(preset);
+    } catch (err) {
+      console.error('Error importing preset:', err);
+      alert(`Could not import preset: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const copyLink = async () => {
+    const hash = encodePresetHash(capture(name.trim() || 'Shared'));
+    history.replaceState(null, '', hash);
+    try {
+      await navigator.clipboard.writeText(location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // The link is still in the address bar to copy by hand
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm mb-1">Presets</label>
+      <select
+        value={selected}
+        onChange={(e) => select(e.target.value)}
+        className="w-full px-3 py-2 bg-gray-800 rounded-lg mb-2"
+      >
+        <option value="" disabled>Load a preset…</option>
+        <optgroup label="Built-in">
+          {BUILT_IN_PRESETS.map(p => (
+            <option key={p.name} value={`builtin:${p.name}`}>{p.name}</option>
+          ))}
+        </optgroup>
+        {saved.length > 0 && (
+          <optgroup label="Saved">
+            {saved.map(p => (
+              <option key={p.name} value={`saved:${p.name}`}>{p.name}</option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="Preset name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 bg-gray-800 rounded-lg text-sm"
+        />
+        <button
+          onClick={save}
+          disabled={!name.trim()}
+          className="px-2 bg-gray-800 hover:bg-gray-700 disabled:text-gray-600 rounded-lg"
+          title="Save preset"
+        >
+          <Save size={16} />
+        </button>
+        <button
+          onClick={remove}
+          disabled={!selected.startsWith('saved:')}
+          className="px-2 bg-gray-800 hover:bg-gray-700 disabled:text-gray-600 rounded-lg"
+          title="Delete saved preset"
+        >
+          <Trash2 size={16} />
+        </button>
+        <button
+          onClick={exportJson}
+          className="px-2 bg-gray-800 hover:bg-gray-700 rounded-lg"
+          title="Export as JSON"
+        >
+          <Download size={16} />
+        </button>
+        <button
+          onClick={() => importRef.current?.click()}
+          className="px-2 bg-gray-800 hover:bg-gray-700 rounded-lg"
+          title="Import JSON"
+        >
+          <Upload size={16} />
+        </button>
+        <button
+          onClick={copyLink}
+          className={`px-2 rounded-lg ${copied ? 'bg-green-700' : 'bg-gray-800 hover:bg-gray-700'}`}
+          title={copied ? 'Link copied' : 'Copy share link'}
+        >
+          <Link size={16} />
+        </button>
+        <input ref={importRef} type="file" accept="application/json,.json" onChange={importJson} className="hidden" />
+      </div>
+    </div>
+  );
+}
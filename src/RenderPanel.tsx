@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { Film } from 'lucide-react';
+import { OfflineRenderFormat, OfflineRenderSettings, RENDER_FRAME_RATES, RENDER_RESOLUTIONS } from './offlineRender';
+
+interface RenderPanelProps {
+  disabled: boolean;
+  onRender: (settings: OfflineRenderSettings) => void;
+}
+
+export default function RenderPanel({ disabled, onRender }: RenderPanelProps) {
+  const [resolutionId, setResolutionId] = useState('1080p');
+  const [fps, setFps] = useState(30);
+  const [format, setFormat] = useState<OfflineRenderFormat>('webm');
+
+  const start = () => {
+    const resolution = RENDER_RESOLUTIONS.find(r => r.id === resolutionId) ?? RENDER_RESOLUTIONS[0];
+    onRender({ width: resolution.width, height: resolution.height, fps, format });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm mb-1">Render Video</label>
+      <div className="flex gap-2 mb-2">
+        <select
+          value={resolutionId}
+          onChange={(e) => setResolutionId(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 bg-gray-800 rounded-lg text-sm"
+        >
+          {RENDER_RESOLUTIONS.map(r => (
+            <option key={r.id} value={r.id}>{r.label}</option>
+          ))}
+        </select>
+        <select
+          value={fps}
+          onChange={(e) => setFps(Number(e.target.value))}
+          className="px-2 py-1 bg-gray-800 rounded-lg text-sm"
+        >
+          {RENDER_FRAME_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate} fps</option>
+          ))}
+        </select>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as OfflineRenderFormat)}
+          className="px-2 py-1 bg-gray-800 rounded-lg text-sm"
+        >
+          <option value="webm">WebM</option>
+          <option value="png-zip">PNG (zip)</option>
+        </select>
+      </div>
+      <button
+        onClick={start}
+        disabled={disabled}
+        className="flex items-center gap-2 px-4 py-2 w-full justify-center bg-pink-600 hover:bg-pink-700 disabled:bg-gray-600 rounded-lg transition-colors"
+        title={disabled ? 'Upload an audio file to render' : undefined}
+      >
+        <Film size={18} />
+        Render Track
+      </button>
+    </div>
+  );
+}
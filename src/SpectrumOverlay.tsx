@@ -0,0 +1,137 @@
+import { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { FullScreenQuad } from 'three/examples/jsm/postprocessing/Pass.js';
+import { AudioEngine } from './audioEngine';
+
+interface SpectrumOverlayProps {
+  engine: AudioEngine;
+  opacity: number;
+}
+
+// Panel placement in CSS pixels, from the bottom right corner
+const PANEL_WIDTH = 320;
+const PANEL_HEIGHT = 120;
+const PANEL_MARGIN = 16;
+const MAX_BINS = 16384; // Largest analyser fftSize is 32768
+const MAX_BANDS = 32;
+const MIN_FREQUENCY = 20;
+
+// --- SHADERS ---
+
+const fullscreenVertexShader = `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+// Top: spectrum on a log frequency axis; bottom strip: the analyzer's bands
+const spectrumFragmentShader = `
+  uniform sampler2D uSpectrum; // 0-1 per bin
+  uniform sampler2D uBands;    // 0-1 per band
+  uniform float uBinCount;
+  uniform float uBandCount;
+  uniform float uMinFrequency;
+  uniform float uNyquist;
+  uniform float uOpacity;
+
+  varying vec2 vUv;
+
+  void main() {
+    vec4 color = vec4(0.0, 0.0, 0.0, 0.6);
+    const float split = 0.3;
+
+    if (vUv.y > split) {
+      float frequency = uMinFrequency * pow(uNyquist / uMinFrequency, vUv.x);
+      float bin = frequency / uNyquist * uBinCount;
+      float level = texture2D(uSpectrum, vec2((floor(bin) + 0.5) / ${MAX_BINS}.0, 0.5)).r;
+      if ((vUv.y - split) / (1.0 - split) < level) color = vec4(mix(vec3(0.2, 0.6, 1.0), vec3(1.0, 0.4, 0.8), level), 0.9);
+    } else {
+      float band = floor(vUv.x * uBandCount);
+      float level = texture2D(uBands, vec2((band + 0.5) / ${MAX_BANDS}.0, 0.5)).r;
+      float gap = step(0.1, fract(vUv.x * uBandCount));
+      if (vUv.y / split < level && gap > 0.0) color = vec4(vec3(1.0, 0.8, 0.3), 0.9);
+    }
+
+    gl_FragColor = vec4(color.rgb, color.a * uOpacity);
+  }
+`;
+
+function createLevelTexture(width: number) {
+  const texture = new THREE.DataTexture(new Float32Array(width), width, 1, THREE.RedFormat, THREE.FloatType);
+  texture.minFilter = THREE.NearestFilter;
+  texture.magFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * Live spectrum and band meter in a corner of the canvas, read straight from
+ * the audio engine each frame.
+ */
+export default function SpectrumOverlay({ engine, opacity }: SpectrumOverlayProps) {
+  const spectrumTexture = useMemo(() => createLevelTexture(MAX_BINS), []);
+  const bandTexture = useMemo(() => createLevelTexture(MAX_BANDS), []);
+  const viewport = useMemo(() => new THREE.Vector4(), []);
+
+  const quad = useMemo(() => new FullScreenQuad(new THREE.ShaderMaterial({
+    vertexShader: fullscreenVertexShader,
+    fragmentShader: spectrumFragmentShader,
+    uniforms: {
+      uSpectrum: { value: spectrumTexture },
+      uBands: { value: bandTexture },
+      uBinCount: { value: 1 },
+      uBandCount: { value: 1 },
+      uMinFrequency: { value: MIN_FREQUENCY },
+      uNyquist: { value: 22050 },
+      uOpacity: { value: 1 },
+    },
+    transparent: true,
+    depthTest: false,
+    depthWrite: false,
+  })), [spectrumTexture, bandTexture]);
+
+  useEffect(() => () => {
+    (quad.material as THREE.Material).dispose();
+    quad.dispose();
+    spectrumTexture.dispose();
+    bandTexture.dispose();
+  }, [quad, spectrumTexture, bandTexture]);
+
+  useFrame(({ gl, size }) => {
+    // dB to 0-1 over the analyser's range
+    const spectrum = engine.spectrumDecibels;
+    const [minDb, maxDb] = engine.decibelRange;
+    const levels = spectrumTexture.image.data as Float32Array;
+    const binCount = Math.min(spectrum.length, MAX_BINS);
+    for (let i = 0; i < binCount; i++) {
+      levels[i] = Math.min(Math.max((spectrum[i] - minDb) / (maxDb - minDb), 0), 1);
+    }
+    spectrumTexture.needsUpdate = true;
+
+    const bands = engine.data.bands;
+    const bandCount = Math.min(bands.length, MAX_BANDS);
+    (bandTexture.image.data as Float32Array).set(bands.slice(0, bandCount));
+    bandTexture.needsUpdate = true;
+
+    const uniforms = (quad.material as THREE.ShaderMaterial).uniforms;
+    uniforms.uBinCount.value = Math.max(binCount, 1);
+    uniforms.uBandCount.value = Math.max(bandCount, 1);
+    uniforms.uNyquist.value = engine.nyquist;
+    uniforms.uOpacity.value = opacity;
+
+    // Draw into a corner by narrowing the viewport (CSS pixels, y from the bottom)
+    gl.getViewport(viewport);
+    const autoClear = gl.autoClear;
+    gl.autoClear = false;
+    gl.setViewport(size.width - PANEL_WIDTH - PANEL_MARGIN, PANEL_MARGIN, PANEL_WIDTH, PANEL_HEIGHT);
+    quad.render(gl);
+    gl.setViewport(viewport);
+    gl.autoClear = autoClear;
+  }, 2);
+
+  return null;
+}
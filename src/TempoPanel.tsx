@@ -0,0 +1,58 @@
+import { AudioEngine } from './audioEngine';
+import { useAudioSnapshot } from './useAudioAnalyzer';
+
+interface TempoPanelProps {
+  engine: AudioEngine;
+  bpmOverride: string;
+  onBpmOverrideChange: (bpm: string) => void;
+  onTap: () => void;
+  onClearTap: () => void;
+}
+
+// Subscribes to engine snapshots itself, so the beat readout never re-renders the scene
+export default function TempoPanel({ engine, bpmOverride, onBpmOverrideChange, onTap, onClearTap }: TempoPanelProps) {
+  const audioData = useAudioSnapshot(engine);
+
+  return (
+    <div>
+      <label className="block text-sm mb-1">
+        Tempo: {audioData.bpm > 0 ? `${audioData.bpm.toFixed(1)} BPM` : 'listening…'}
+      </label>
+      <div className="flex gap-2 items-center">
+        <button
+          onClick={onTap}
+          className="px-3 py-1 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm"
+        >
+          Tap
+        </button>
+        <button
+          onClick={onClearTap}
+          className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm"
+          title="Forget the tapped tempo and return to detection"
+        >
+          Auto
+        </button>
+        <input
+          type="number"
+          min="40"
+          max="240"
+          placeholder="Auto"
+          value={bpmOverride}
+          onChange={(e) => onBpmOverrideChange(e.target.value)}
+          className="w-20 px-2 py-1 bg-gray-800 rounded-lg text-sm"
+          title="BPM override (leave empty to detect)"
+        />
+        <div className="flex gap-1">
+          {[0, 1, 2, 3].map(beat => (
+            <div
+              key={beat}
+              className={`w-2 h-2 rounded-full ${
+                audioData.bpm > 0 && Math.floor(audioData.barPhase * 4) === beat ? 'bg-white' : 'bg-gray-700'
+              }`}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { levaStore } from 'leva';
+import { ChevronDown, ChevronUp, Download, Flag, Plus, Trash2, Upload } from 'lucide-react';
+import { AudioSourceManager } from './audioSourceManager';
+import { levaTargets } from './controlSurface';
+import { downloadBlob } from './offlineRender';
+import { BUILT_IN_PRESETS, ControlValue, captureControls, loadSavedPresets } from './presets';
+import {
+  EASINGS, Easing, Keyframe, Timeline, TimelineMarker, TimelineTrack,
+  createKeyframe, createMarker, createTrack, parseTimelineJson, sortByTime,
+} from './timeline';
+
+interface TimelineEditorProps {
+  manager: AudioSourceManager;
+  timeline: Timeline;
+  enabled: boolean; // Whether the timeline drives the controls
+  onChange: (timeline: Timeline) => void;
+  onEnabledChange: (enabled: boolean) => void;
+}
+
+type Selection = { kind: 'keyframe'; trackId: string; id: string } | { kind: 'marker'; id: string } | null;
+
+const selectClass = 'min-w-0 px-1 py-1 bg-gray-800 rounded text-xs';
+const numberClass = 'w-16 px-1 py-1 bg-gray-800 rounded text-xs';
+
+const SNAPSHOT = 'snapshot';
+
+function formatTime(seconds: number): string {
+  const tenths = Math.max(0, Math.round(seconds * 10));
+  return `${Math.floor(tenths / 600)}:${String(Math.floor(tenths / 10) % 60).padStart(2, '0')}.${tenths % 10}`;
+}
+
+// Roughly ten labelled ticks across the lane
+function tickStep(duration: number): number {
+  const steps = [1, 2, 5, 10, 15, 30, 60, 120];
+  return steps.find(step => duration / step <= 10) ?? 300;
+}
+
+export default function TimelineEditor({ manager, timeline, enabled, onChange, onEnabledChange }: TimelineEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [selection, setSelection] = useState<Selection>(null);
+  const [newTarget, setNewTarget] = useState('');
+  const [trackDuration, setTrackDuration] = useState(0);
+  const lanesRef = useRef<HTMLDivElement>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const clockRef = useRef<HTMLSpanElement>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const levaData = levaStore.useStore(store => store.data);
+  const targets = useMemo(() => levaTargets(levaData), [levaData]);
+  const targetLabel = (path: string) => targets.find(t => t.value === path)?.label ?? `${path} (inactive)`;
+
+  // Without a loaded track, leave room past the last keyframe
+  const lastTime = Math.max(0, ...timeline.markers.map(m => m.time), ...timeline.tracks.flatMap(t => t.keyframes.map(k => k.time)));
+  const duration = trackDuration > 0 ? trackDuration : Math.max(60, lastTime + 10);
+  const percent = useCallback((time: number) => `${(time / duration) * 100}%`, [duration]);
+
+  useEffect(() => {
+    const element = manager.element;
+    const sync = () => setTrackDuration(Number.isFinite(element.duration) ? element.duration : 0);
+    sync();
+    element.addEventListener('durationchange', sync);
+    element.addEventListener('emptied', sync);
+    return () => {
+      element.removeEventListener('durationchange', sync);
+      element.removeEventListener('emptied', sync);
+    };
+  }, [manager]);
+
+  // The playhead moves every frame without re-rendering the editor
+  useEffect(() => {
+    if (!open) return;
+    let frame = requestAnimationFrame(function tick() {
+      const time = manager.element.currentTime;
+      if (playheadRef.current) playheadRef.current.style.left = percent(time);
+      if (clockRef.current) clockRef.current.textContent = formatTime(time);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [open, manager, percent]);
+
+  const timeAt = (clientX: number) => {
+    const rect = lanesRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1) * duration;
+  };
+
+  // --- EDITING ---
+
+  const updateTrack = (id: string, changes: Partial<TimelineTrack>) => {
+    onChange({ ...timeline, tracks: timeline.tracks.map(t => (t.id === id ? { ...t, ...changes } : t)) });
+  };
+
+  const updateKeyframe = (track: TimelineTrack, id: string, changes: Partial<Keyframe>) => {
+    updateTrack(track.id, { keyframes: sortByTime(track.keyframes.map(k => (k.id === id ? { ...k, ...changes } : k))) });
+  };
+
+  const updateMarker = (id: string, changes: Partial<TimelineMarker>) => {
+    onChange({ ...timeline, markers: sortByTime(timeline.markers.map(m => (m.id === id ? { ...m, ...changes } : m))) });
+  };
+
+  const addTrack = () => {
+    const target = newTarget || targets[0]?.value;
+    if (!target || timeline.tracks.some(t => t.target === target)) return;
+    onChange({ ...timeline, tracks: [...timeline.tracks, createTrack(target)] });
+  };
+
+  // New keyframes hold the control's current value
+  const addKeyframe = (track: TimelineTrack, time: number) => {
+    const current = levaStore.getInput(track.target)?.value;
+    const previous = track.keyframes[track.keyframes.length - 1]?.value;
+    const value = (current ?? previous ?? 0) as ControlValue;
+    const keyframe = createKeyframe({ time, value });
+    updateTrack(track.id, { keyframes: sortByTime([...track.keyframes, keyframe]) });
+    setSelection({ kind: 'keyframe', trackId: track.id, id: keyframe.id });
+  };
+
+  const addMarker = () => {
+    const marker = createMarker({ time: manager.element.currentTime, label: `Marker ${timeline.markers.length + 1}` });
+    onChange({ ...timeline, markers: sortByTime([...timeline.markers, marker]) });
+    setSelection({ kind: 'marker', id: marker.id });
+  };
+
+  const removeSelection = () => {
+    if (selection?.kind === 'marker') {
+      onChange({ ...timeline, markers: timeline.markers.filter(m => m.id !== selection.id) });
+    } else if (selection?.kind === 'keyframe') {
+      const track = timeline.tracks.find(t => t.id === selection.trackId);
+      if (track) updateTrack(track.id, { keyframes: track.keyframes.filter(k => k.id !== selection.id) });
+    }
+    setSelection(null);
+  };
+
+  // Keyframes and markers follow the pointer while held
+  const dragHandlers = (onMove: (time: number) => void) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (e.currentTarget.hasPointerCapture(e.pointerId)) onMove(Math.round(timeAt(e.clientX) * 100) / 100);
+    },
+  });
+
+  const setMarkerPreset = (marker: TimelineMarker, choice: string) => {
+    if (choice === '') {
+      updateMarker(marker.id, { presetName: '', controls: null });
+    } else if (choice === SNAPSHOT) {
+      updateMarker(marker.id, { presetName: 'Snapshot', controls: captureControls() });
+    } else {
+      const preset = [...BUILT_IN_PRESETS, ...loadSavedPresets()].find(p => p.name === choice);
+      if (preset) updateMarker(marker.id, { presetName: preset.name, controls: preset.controls });
+    }
+  };
+
+  const exportJson = () => {
+    downloadBlob(new Blob([JSON.stringify(timeline, null, 2)], { type: 'application/json' }), 'timeline.json');
+  };
+
+  const importJson = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseTimelineJson(await file.text()));
+      setSelection(null);
+    } catch (err) {
+      console.error('Error importing timeline:', err);
+      alert(`Could not import timeline: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  // --- INSPECTOR ---
+
+  const renderValueInput = (track: TimelineTrack, keyframe: Keyframe) => {
+    const input = levaStore.getInput(track.target);
+    const change = (value: ControlValue) => updateKeyframe(track, keyframe.id, { value });
+    if (input?.type === 'SELECT') {
+      const { keys, values } = input.settings as { keys: string[]; values: ControlValue[] };
+      return (
+        <select
+          value={Math.max(values.indexOf(keyframe.value), 0)}
+          onChange={(e) => change(values[Number(e.target.value)])}
+          className={selectClass}
+        >
+          {keys.map((key, i) => <option key={key} value={i}>{key}</option>)}
+        </select>
+      );
+    }
+    if (typeof keyframe.value === 'boolean') {
+      return <input type="checkbox" checked={keyframe.value} onChange={(e) => change(e.target.checked)} />;
+    }
+    if (typeof keyframe.value === 'string') {
+      return <input value={keyframe.value} onChange={(e) => change(e.target.value)} className={selectClass} />;
+    }
+    const { min, max, step } = (input?.settings ?? {}) as { min?: number; max?: number; step?: number };
+    return (
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step ?? 'any'}
+        value={keyframe.value}
+        onChange={(e) => change(Number(e.target.value))}
+        className={numberClass}
+      />
+    );
+  };
+
+  const easingSelect = (value: Easing, onSelect: (easing: Easing) => void) => (
+    <select value={value} onChange={(e) => onSelect(e.target.value as Easing)} className={selectClass} title="Easing">
+      {EASINGS.map(easing => <option key={easing.value} value={easing.value}>{easing.label}</option>)}
+    </select>
+  );
+
+  const renderInspector = () => {
+    if (selection?.kind === 'keyframe') {
+      const track = timeline.tracks.find(t => t.id === selection.trackId);
+      const keyframe = track?.keyframes.find(k => k.id === selection.id);
+      if (!track || !keyframe) return null;
+      return (
+        <>
+          <span className="text-gray-400 truncate">{targetLabel(track.target)}</span>
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={keyframe.time}
+            onChange={(e) => updateKeyframe(track, keyframe.id, { time: Math.max(Number(e.target.value), 0) })}
+            className={numberClass}
+            title="Time (s)"
+          />
+          {renderValueInput(track, keyframe)}
+          {easingSelect(keyframe.easing, easing => updateKeyframe(track, keyframe.id, { easing }))}
+        </>
+      );
+    }
+    if (selection?.kind === 'marker') {
+      const marker = timeline.markers.find(m => m.id === selection.id);
+      if (!marker) return null;
+      const saved = loadSavedPresets();
+      return (
+        <>
+          <input
+            value={marker.label}
+            onChange={(e) => updateMarker(marker.id, { label: e.target.value })}
+            className="w-28 px-1 py-1 bg-gray-800 rounded text-xs"
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={marker.time}
+            onChange={(e) => updateMarker(marker.id, { time: Math.max(Number(e.target.value), 0) })}
+            className={numberClass}
+            title="Time (s)"
+          />
+          <select
+            value={marker.controls ? (marker.presetName === 'Snapshot' ? SNAPSHOT : marker.presetName) : ''}
+            onChange={(e) => setMarkerPreset(marker, e.target.value)}
+            className={selectClass}
+            title="Look this section morphs into"
+          >
+            <option value="">No preset (marker only)</option>
+            <option value={SNAPSHOT}>Snapshot of current controls</option>
+            {BUILT_IN_PRESETS.map(p => <option key={`builtin:${p.name}`} value={p.name}>{p.name}</option>)}
+            {saved.map(p => <option key={`saved:${p.name}`} value={p.name}>{p.name}</option>)}
+            {marker.controls && marker.presetName !== 'Snapshot'
+              && ![...BUILT_IN_PRESETS, ...saved].some(p => p.name === marker.presetName) && (
+              <option value={marker.presetName}>{marker.presetName} (embedded)</option>
+            )}
+          </select>
+          {marker.controls && (
+            <>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={marker.morph}
+                onChange={(e) => updateMarker(marker.id, { morph: Math.max(Number(e.target.value), 0) })}
+                className={numberClass}
+                title="Morph (s)"
+              />
+              {easingSelect(marker.easing, easing => updateMarker(marker.id, { easing }))}
+            </>
+          )}
+        </>
+      );
+    }
+    return <span className="text-gray-500">Double-click a lane to add a keyframe; drag keyframes and markers to move them. Tracks drive panel controls only, not trail length or color scheme.</span>;
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="absolute bottom-0 left-1/2 -translate-x-1/2 z-10 flex items-center gap-1 px-3 py-1 bg-black/70 hover:bg-black/90 rounded-t-lg text-xs text-white"
+      >
+        <ChevronUp size={12} />
+        Timeline{enabled && timeline.tracks.length + timeline.markers.length > 0 ? ' (playing)' : ''}
+      </button>
+    );
+  }
+
+  const ticks = Array.from({ length: Math.floor(duration / tickStep(duration)) + 1 }, (_, i) => i * tickStep(duration));
+
+  return (
+    <div className="absolute bottom-0 inset-x-0 z-10 bg-black/80 backdrop-blur-sm text-white text-xs p-2 space-y-1">
+      <div className="flex flex-wrap gap-1 items-center">
+        <button onClick={() => setOpen(false)} className="px-1 text-gray-400 hover:text-white" title="Hide timeline">
+          <ChevronDown size={14} />
+        </button>
+        <span className="font-semibold">Timeline</span>
+        <span ref={clockRef} className="w-14 text-right tabular-nums text-gray-300">0:00.0</span>
+        <label className="flex items-center gap-1 ml-2" title="Drive the controls from the timeline">
+          <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} />
+          Automate
+        </label>
+        <button onClick={addMarker} className="flex items-center gap-1 px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded" title="Add a marker at the playhead">
+          <Flag size={12} /> Marker
+        </button>
+        <select
+          value={newTarget}
+          onChange={(e) => setNewTarget(e.target.value)}
+          className={`max-w-48 ${selectClass}`}
+          title="Panel controls only; trail length and color scheme can't be automated"
+        >
+          {targets.map(target => <option key={target.value} value={target.value}>{target.label}</option>)}
+        </select>
+        <button onClick={addTrack} className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded" title="Add a track for this control">
+          <Plus size={12} />
+        </button>
+        <div className="flex-1" />
+        <button onClick={exportJson} className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded" title="Export JSON">
+          <Download size={12} />
+        </button>
+        <button onClick={() => importRef.current?.click()} className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded" title="Import JSON">
+          <Upload size={12} />
+        </button>
+        <input ref={importRef} type="file" accept="application/json,.json" onChange={importJson} className="hidden" />
+      </div>
+
+      <div className="flex">
+        <div className="w-44 shrink-0 space-y-px">
+          <div className="h-4" />
+          <div className="h-5 text-gray-400">Markers</div>
+          {timeline.tracks.map(track => (
+            <div key={track.id} className="h-5 flex items-center gap-1">
+              <span className="flex-1 truncate" title={track.target}>{targetLabel(track.target)}</span>
+              <button
+                onClick={() => onChange({ ...timeline, tracks: timeline.tracks.filter(t => t.id !== track.id) })}
+                className="px-1 text-gray-400 hover:text-white"
+                title="Remove track"
+              >
+                <Trash2 size={10} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div ref={lanesRef} className="relative flex-1 min-w-0 space-y-px">
+          <div className="relative h-4 cursor-pointer border-b border-gray-700" onClick={(e) => manager.seek(timeAt(e.clientX))}>
+            {ticks.map(time => (
+              <span key={time} className="absolute top-0 -translate-x-1/2 text-[10px] text-gray-500" style={{ left: percent(time) }}>
+                {formatTime(time).replace(/\.\d$/, '')}
+              </span>
+            ))}
+          </div>
+
+          <div className="relative h-5 bg-gray-900 rounded">
+            {timeline.markers.filter(marker => marker.controls && marker.morph > 0).map(marker => (
+              <div
+                key={`morph-${marker.id}`}
+                className="absolute top-0 h-1 bg-pink-500/40 pointer-events-none"
+                style={{ left: percent(marker.time), width: percent(marker.morph) }}
+              />
+            ))}
+            {timeline.markers.map(marker => (
+              <div
+                key={marker.id}
+                {...dragHandlers(time => updateMarker(marker.id, { time }))}
+                onClick={() => {
+                  setSelection({ kind: 'marker', id: marker.id });
+                  manager.seek(marker.time);
+                }}
+                className={`absolute top-0 h-5 flex items-center gap-0.5 pl-0.5 border-l-2 cursor-pointer whitespace-nowrap ${
+                  marker.controls ? 'border-pink-500' : 'border-gray-400'
+                } ${selection?.kind === 'marker' && selection.id === marker.id ? 'bg-gray-700' : ''}`}
+                style={{ left: percent(marker.time) }}
+                title={marker.controls ? `${marker.label}: morph to ${marker.presetName}` : marker.label}
+              >
+                {marker.label}
+              </div>
+            ))}
+          </div>
+
+          {timeline.tracks.map(track => (
+            <div
+              key={track.id}
+              className="relative h-5 bg-gray-900 rounded"
+              onDoubleClick={(e) => addKeyframe(track, Math.round(timeAt(e.clientX) * 100) / 100)}
+            >
+              {track.keyframes.map(keyframe => (
+                <div
+                  key={keyframe.id}
+                  {...dragHandlers(time => updateKeyframe(track, keyframe.id, { time }))}
+                  onClick={() => setSelection({ kind: 'keyframe', trackId: track.id, id: keyframe.id })}
+                  onDoubleClick={(e) => e.stopPropagation()}
+                  className={`absolute top-1/2 w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rotate-45 cursor-pointer ${
+                    selection?.kind === 'keyframe' && selection.id === keyframe.id ? 'bg-white' : 'bg-blue-500'
+                  }`}
+                  style={{ left: percent(keyframe.time) }}
+                  title={`${formatTime(keyframe.time)}: ${String(keyframe.value)}`}
+                />
+              ))}
+            </div>
+          ))}
+
+          <div ref={playheadRef} className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none" />
+        </div>
+      </div>
+
+      <div className="flex gap-1 items-center min-h-6">
+        {renderInspector()}
+        {selection && (
+          <button onClick={removeSelection} className="px-1 text-gray-400 hover:text-white" title="Delete">
+            <Trash2 size={12} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react';
+import { flushSync, useFrame } from '@react-three/fiber';
+import { levaStore } from 'leva';
+import { ControlValue } from './presets';
+import { Timeline, evaluateTimeline } from './timeline';
+
+interface TimelinePlayerProps {
+  timeline: Timeline;
+  // Song time in seconds: the audio element live, the frame time offline
+  getTime: () => number;
+}
+
+/**
+ * Applies the timeline to leva at the very start of each frame (before
+ * modulation and the simulation read their controls). The update is flushed
+ * synchronously so the frame that sets a value also draws with it, the same
+ * way in live playback and in offline renders.
+ */
+export default function TimelinePlayer({ timeline, getTime }: TimelinePlayerProps) {
+  // Last value written per control, so holds do not re-render every frame
+  const appliedRef = useRef(new Map<string, ControlValue>());
+
+  useEffect(() => {
+    appliedRef.current.clear();
+  }, [timeline]);
+
+  useFrame(() => {
+    const values = evaluateTimeline(timeline, getTime());
+    const applied = appliedRef.current;
+    const changed = Object.entries(values).filter(([path, value]) => applied.get(path) !== value && levaStore.getInput(path));
+    if (changed.length === 0) return;
+
+    flushSync(() => {
+      for (const [path, value] of changed) {
+        // Recorded first, so a rejected value is reported once rather than every frame
+        applied.set(path, value);
+        try {
+          levaStore.setValueAtPath(path, value, false);
+        } catch (err) {
+          console.warn(`Timeline could not set ${path}:`, err);
+        }
+      }
+    });
+  }, -3);
+
+  return null;
+}
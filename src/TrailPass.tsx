@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { FullScreenQuad } from 'three/examples/jsm/postprocessing/Pass.js';
+import { useControls } from 'leva';
+import { ModulationMatrix } from './modulation';
+import { getCapabilities, hdrTargetType } from './capabilities';
+import { PostChain, TONE_MAPPINGS, ToneMapping } from './postChain';
+import { PostEffect } from './postEffects';
+
+interface TrailPassProps {
+  trailLength: number; // Fraction of the previous frame kept each frame (0-1)
+  effects: PostEffect[]; // Post effect stack, in order
+  modulation: ModulationMatrix;
+}
+
+// --- SHADERS ---
+
+const fullscreenVertexShader = `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+const fadeFragmentShader = `
+  uniform sampler2D uPrevious;
+  uniform float uFade;
+  uniform vec2 uSmear;     // UV offset applied when reading the previous frame
+  uniform float uHueDrift; // Hue rotation in radians per frame
+
+  varying vec2 vUv;
+
+  // Rotate hue around the grey axis in YIQ space
+  vec3 hueShift(vec3 color, float angle) {
+    const mat3 toYIQ = mat3(0.299, 0.596, 0.211, 0.587, -0.274, -0.523, 0.114, -0.322, 0.312);
+    const mat3 toRGB = mat3(1.0, 1.0, 1.0, 0.956, -0.272, -1.106, 0.621, -0.647, 1.703);
+    vec3 yiq = toYIQ * color;
+    float c = cos(angle);
+    float s = sin(angle);
+    yiq.yz = mat2(c, s, -s, c) * yiq.yz;
+    return toRGB * yiq;
+  }
+
+  void main() {
+    vec3 previous = texture2D(uPrevious, vUv - uSmear).rgb;
+    previous = max(hueShift(previous, uHueDrift), 0.0);
+    gl_FragColor = vec4(previous * uFade, 1.0);
+  }
+`;
+
+function createTrailTarget(width: number, height: number, type: THREE.TextureDataType) {
+  // Float so long trails fade smoothly instead of banding into 8-bit ghosts (where the GPU allows)
+  return new THREE.WebGLRenderTarget(width, height, {
+    type,
+    minFilter: THREE.LinearFilter,
+    magFilter: THREE.LinearFilter,
+    depthBuffer: false,
+  });
+}
+
+/**
+ * Takes over rendering of the scene: each frame the previous accumulation is
+ * faded by `trailLength` into a ping-pong target, the particles are drawn on
+ * top, and the result goes through the post chain to the screen.
+ */
+export default function TrailPass({ trailLength, effects, modulation }: TrailPassProps) {
+  const { gl, scene, camera, size } = useThree();
+  const dpr = useThree((state) => state.viewport.dpr);
+  const readIndexRef = useRef(0);
+
+  const controls = useControls('Trails', {
+    smear: { value: 0.0, min: 0.0, max: 4.0, label: 'Smear (px)' },
+    smearAngle: { value: 90, min: 0, max: 360, step: 1, label: 'Smear Angle' },
+    hueDrift: { value: 0.0, min: -0.05, max: 0.05, step: 0.001, label: 'Hue Drift' },
+  });
+
+  const toneMapping = useControls('Tone Mapping', {
+    operator: {
+      value: 'aces',
+      options: Object.fromEntries(TONE_MAPPINGS.map(t => [t.label, t.value])),
+      label: 'Operator',
+    },
+    exposure: { value: 1.0, min: 0.1, max: 4.0, step: 0.05, label: 'Exposure' },
+  });
+
+  const targetType = useMemo(() => hdrTargetType(getCapabilities(gl)), [gl]);
+  const targets = useMemo(() => [createTrailTarget(1, 1, targetType), createTrailTarget(1, 1, targetType)], [targetType]);
+
+  const fadeQuad = useMemo(() => new FullScreenQuad(new THREE.ShaderMaterial({
+    vertexShader: fullscreenVertexShader,
+    fragmentShader: fadeFragmentShader,
+    uniforms: {
+      uPrevious: { value: null },
+      uFade: { value: 0.95 },
+      uSmear: { value: new THREE.Vector2() },
+      uHueDrift: { value: 0 },
+    },
+    depthTest: false,
+    depthWrite: false,
+  })), []);
+
+  const postChain = useMemo(() => new PostChain(targetType), [targetType]);
+
+  // Match the drawing buffer and wipe the history on resize
+  useEffect(() => {
+    const width = Math.max(1, Math.floor(size.width * dpr));
+    const height = Math.max(1, Math.floor(size.height * dpr));
+    const previousTarget = gl.getRenderTarget();
+    for (const target of targets) {
+      target.setSize(width, height);
+      gl.setRenderTarget(target);
+      gl.clear();
+    }
+    gl.setRenderTarget(previousTarget);
+    postChain.setSize(width, height);
+  }, [gl, targets, postChain, size.width, size.height, dpr]);
+
+  useEffect(() => () => {
+    targets.forEach(target => target.dispose());
+    (fadeQuad.material as THREE.Material).dispose();
+    fadeQuad.dispose();
+    postChain.dispose();
+  }, [targets, fadeQuad, postChain]);
+
+  // Priority 1: runs after the simulation and replaces R3F's default render
+  useFrame((_, delta) => {
+    const read = targets[readIndexRef.current];
+    const write = targets[1 - readIndexRef.current];
+
+    // 1. Fade the accumulated history into the write target
+    const fadeUniforms = (fadeQuad.material as THREE.ShaderMaterial).uniforms;
+    const angle = THREE.MathUtils.degToRad(controls.smearAngle);
+    fadeUniforms.uPrevious.value = read.texture;
+    fadeUniforms.uFade.value = trailLength;
+    fadeUniforms.uSmear.value.set(
+      (Math.cos(angle) * controls.smear) / write.width,
+      (Math.sin(angle) * controls.smear) / write.height
+    );
+    fadeUniforms.uHueDrift.value = controls.hueDrift;
+
+    gl.setRenderTarget(write);
+    fadeQuad.render(gl);
+
+    // 2. Draw the particles on top without clearing (a color background forces a clear)
+    const autoClear = gl.autoClear;
+    const background = scene.background;
+    gl.autoClear = false;
+    scene.background = null;
+    gl.render(scene, camera);
+    scene.background = background;
+    gl.autoClear = autoClear;
+
+    // 3. Effects and tone mapping on the way to the screen (the history stays untouched)
+    gl.setRenderTarget(null);
+    postChain.render(
+      gl,
+      write.texture,
+      effects,
+      modulation.values,
+      { operator: toneMapping.operator as ToneMapping, exposure: toneMapping.exposure },
+      delta
+    );
+
+    readIndexRef.current = 1 - readIndexRef.current;
+  }, 1);
+
+  return null;
+}
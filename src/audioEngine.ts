@@ -0,0 +1,108 @@
+import { AudioAnalyzerData, AudioFeatureExtractor, AudioFeatureOptions, SILENT_AUDIO_DATA } from './audioFeatures';
+import { TempoTracker } from './tempoTracker';
+
+const UI_UPDATE_INTERVAL = 1 / 15; // Seconds between snapshots pushed to React
+
+type Listener = (data: AudioAnalyzerData) => void;
+
+/**
+ * Live audio analysis outside React. The scene samples it once per rendered
+ * frame (see AudioSampler), so features are frame-aligned with the simulation
+ * and nothing re-renders at frame rate; React only receives throttled
+ * snapshots for meters and readouts.
+ */
+export class AudioEngine {
+  // Latest features; mutated in place so the scene can hold on to one object
+  readonly data: AudioAnalyzerData = { ...SILENT_AUDIO_DATA };
+
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private extractor: AudioFeatureExtractor | null = null;
+  private tempoTracker: TempoTracker | null = null;
+  private spectrum = new Float32Array(0);
+  private waveform = new Float32Array(0);
+  private active = false;
+
+  private listeners = new Set<Listener>();
+  private lastNotifyTime = -Infinity;
+
+  configure(context: AudioContext | null, analyser: AnalyserNode | null, options: AudioFeatureOptions) {
+    this.context = context;
+    this.analyser = analyser;
+    this.tempoTracker = options.tempoTracker ?? null;
+    if (!context || !analyser) {
+      this.extractor = null;
+      return;
+    }
+    this.spectrum = new Float32Array(analyser.frequencyBinCount);
+    this.waveform = new Float32Array(analyser.fftSize);
+    this.extractor = new AudioFeatureExtractor(context.sampleRate, analyser.fftSize, {
+      ...options,
+      minDecibels: analyser.minDecibels,
+      maxDecibels: analyser.maxDecibels,
+    });
+  }
+
+  /** Inactive engines read as silence and forget their tempo. */
+  setActive(active: boolean) {
+    if (this.active === active) return;
+    this.active = active;
+    if (!active) {
+      this.extractor?.reset();
+      Object.assign(this.data, SILENT_AUDIO_DATA);
+      this.spectrum.fill(-Infinity);
+      this.notify(true);
+    }
+  }
+
+  /** Reads the analyser and updates `data`; call once per frame. */
+  sample() {
+    const { context, analyser, extractor, tempoTracker } = this;
+    if (!this.active || !context || !analyser || !extractor) {
+      // An external clock keeps the beat grid running with no audio playing
+      if (tempoTracker?.clocked) {
+        Object.assign(this.data, tempoTracker.state());
+        this.notify(false);
+      } else if (this.data.bpm !== 0) {
+        // The clock stopped: back to silence
+        Object.assign(this.data, SILENT_AUDIO_DATA);
+        this.notify(true);
+      }
+      return;
+    }
+
+    analyser.getFloatFrequencyData(this.spectrum);
+    analyser.getFloatTimeDomainData(this.waveform);
+    Object.assign(this.data, extractor.process(this.spectrum, this.waveform, context.currentTime));
+    this.notify(false);
+  }
+
+  /** The raw spectrum from the last sample, in dB per analyser bin (for meters). */
+  get spectrumDecibels(): Float32Array {
+    return this.spectrum;
+  }
+
+  get decibelRange(): [number, number] {
+    return this.analyser ? [this.analyser.minDecibels, this.analyser.maxDecibels] : [-100, -30];
+  }
+
+  get nyquist(): number {
+    return this.context ? this.context.sampleRate / 2 : 22050;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener({ ...this.data });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(force: boolean) {
+    const now = performance.now() / 1000;
+    if (!force && now - this.lastNotifyTime < UI_UPDATE_INTERVAL) return;
+    this.lastNotifyTime = now;
+    const snapshot = { ...this.data };
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
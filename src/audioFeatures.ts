@@ -0,0 +1,343 @@
+import { TempoTracker } from './tempoTracker';
+
+export interface AudioAnalyzerData {
+  level: number;      // Overall volume (smoothed 0-1)
+  bass: number;       // 20Hz-200Hz energy (0-1)
+  mid: number;        // 200Hz-2000Hz energy (0-1)
+  treble: number;     // 2000Hz+ energy (0-1)
+  transient: number;  // Beat detection trigger (0-1, spikes on beats)
+  bpm: number;        // Tracked tempo (0 until locked)
+  beatPhase: number;  // 0-1 position within the current beat
+  barPhase: number;   // 0-1 position within the current bar
+  beatCount: number;  // Beats elapsed since playback started
+  bands: number[];    // Configurable log/mel bands, auto-gained (0-1 each)
+  rms: number;        // Time-domain RMS amplitude (0-1)
+  peak: number;       // Time-domain peak amplitude (0-1)
+  centroid: number;   // Spectral centroid, log-scaled between min and max frequency (0-1)
+  flux: number;       // Spectral flux, auto-gained (0-1)
+}
+
+export const SILENT_AUDIO_DATA: AudioAnalyzerData = {
+  level: 0,
+  bass: 0,
+  mid: 0,
+  treble: 0,
+  transient: 0,
+  bpm: 0,
+  beatPhase: 0,
+  barPhase: 0,
+  beatCount: 0,
+  bands: [],
+  rms: 0,
+  peak: 0,
+  centroid: 0,
+  flux: 0,
+};
+
+export type BandScale = 'log' | 'mel';
+
+export interface AudioFeatureOptions {
+  lerpFactor?: number; // Smoothing factor for lerp (0-1, higher = more smoothing)
+  transientThreshold?: number; // Threshold for beat detection
+  transientDecay?: number; // How fast transient decays
+  tempoTracker?: TempoTracker; // Beat grid tracking (optional)
+  bandCount?: number; // Number of configurable bands
+  bandScale?: BandScale; // How band edges are spaced
+  minFrequency?: number; // Lower edge of the first band (Hz)
+  maxFrequency?: number; // Upper edge of the last band (Hz)
+  autoGain?: boolean; // Also auto-gain level/bass/mid/treble (bands and flux always are)
+  gateDb?: number; // Bands quieter than this read as silence
+  gainDecay?: number; // dB per second the auto-gain ceiling falls after a loud passage
+  minDecibels?: number; // Must match the AnalyserNode's range
+  maxDecibels?: number;
+}
+
+// Linear interpolation helper
+function lerp(start: number, end: number, factor: number): number {
+  return start + (end - start) * factor;
+}
+
+// Map frequency to FFT bin index
+function frequencyToBin(frequency: number, sampleRate: number, fftSize: number): number {
+  return Math.floor((frequency / sampleRate) * fftSize);
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+// count + 1 band edges in Hz, evenly spaced on a log or mel scale
+export function bandEdges(count: number, scale: BandScale, minFrequency: number, maxFrequency: number): number[] {
+  const edges: number[] = [];
+  for (let i = 0; i <= count; i++) {
+    const t = i / count;
+    edges.push(scale === 'mel'
+      ? melToHz(hzToMel(minFrequency) + (hzToMel(maxFrequency) - hzToMel(minFrequency)) * t)
+      : minFrequency * (maxFrequency / minFrequency) ** t);
+  }
+  return edges;
+}
+
+// Mean power of a bin range, back in dB
+function bandDecibels(spectrum: Float32Array, start: number, end: number): number {
+  let power = 0;
+  for (let i = start; i < end; i++) power += 10 ** (spectrum[i] / 10);
+  return 10 * Math.log10(power / Math.max(1, end - start) + 1e-20);
+}
+
+const AUTO_GAIN_RANGE_DB = 36; // Dynamic range mapped onto 0-1 below the ceiling
+const AUTO_GAIN_HEADROOM_DB = 12; // Ceiling never drops closer than this to the gate
+
+/**
+ * Adaptive normalization for one band: follows the recent loudest level
+ * (instantly up, slowly down) and maps the range below it onto 0-1, so quiet
+ * recordings and loud masters move the particles alike. Anything under the
+ * noise gate reads as 0.
+ */
+class AutoGain {
+  private ceiling = -Infinity;
+
+  constructor(private readonly gateDb: number, private readonly decayDbPerSecond: number) {}
+
+  reset() {
+    this.ceiling = -Infinity;
+  }
+
+  process(decibels: number, dt: number): number {
+    this.ceiling = Math.max(decibels, this.ceiling - this.decayDbPerSecond * dt, this.gateDb + AUTO_GAIN_HEADROOM_DB);
+    if (decibels < this.gateDb) return 0;
+    const floor = Math.max(this.gateDb, this.ceiling - AUTO_GAIN_RANGE_DB);
+    return Math.min(Math.max((decibels - floor) / (this.ceiling - floor), 0), 1);
+  }
+}
+
+/**
+ * Turns float spectra (as from AnalyserNode.getFloatFrequencyData, in dB) and
+ * waveforms into smoothed band energies, loudness, spectral shape, transients
+ * and beat grid data. Shared by live playback and offline rendering so both
+ * react identically to the same audio.
+ */
+export class AudioFeatureExtractor {
+  private readonly lerpFactor: number;
+  private readonly transientThreshold: number;
+  private readonly transientDecay: number;
+  private readonly tempoTracker?: TempoTracker;
+  private readonly autoGain: boolean;
+  private readonly minDecibels: number;
+  private readonly maxDecibels: number;
+  private readonly binWidth: number; // Hz per FFT bin
+  private readonly minFrequency: number;
+  private readonly maxFrequency: number;
+
+  private readonly bassStartBin: number;
+  private readonly bassEndBin: number;
+  private readonly midStartBin: number;
+  private readonly midEndBin: number;
+  private readonly trebleStartBin: number;
+  private readonly trebleEndBin: number;
+
+  // Configurable bands: [startBin, endBin) each, with their own auto-gain
+  private readonly bandRanges: [number, number][];
+  private readonly bandGains: AutoGain[];
+  private readonly legacyGains: AutoGain[]; // bass, mid, treble when autoGain is on
+  private readonly fluxGain: AutoGain;
+
+  // Byte-scaled copy of the spectrum: the legacy bands and tempo tracker were tuned on it
+  private byteSpectrum: Float32Array;
+  private previousSpectrum: Float32Array;
+  private lastTime = -1;
+
+  // Smoothed values for lerp
+  private smoothed: AudioAnalyzerData = { ...SILENT_AUDIO_DATA };
+
+  // Previous values for transient detection
+  private previousLevel = 0;
+  private transientValue = 0;
+
+  constructor(sampleRate: number, fftSize: number, options: AudioFeatureOptions = {}) {
+    const {
+      lerpFactor = 0.15, // Smooth but responsive
+      transientThreshold = 0.3, // 30% increase triggers beat
+      transientDecay = 0.92, // Decays 8% per frame
+      tempoTracker,
+      bandCount = 8,
+      bandScale = 'log',
+      minFrequency = 30,
+      maxFrequency = 16000,
+      autoGain = false, // Off keeps level/bass/mid/treble exactly as before
+      gateDb = -80,
+      gainDecay = 3,
+      minDecibels = -100, // AnalyserNode defaults
+      maxDecibels = -30,
+    } = options;
+    this.lerpFactor = lerpFactor;
+    this.transientThreshold = transientThreshold;
+    this.transientDecay = transientDecay;
+    this.tempoTracker = tempoTracker;
+    this.autoGain = autoGain;
+    this.minDecibels = minDecibels;
+    this.maxDecibels = maxDecibels;
+
+    // Calculate frequency band bin ranges
+    // Ensure bins are within valid range
+    const binCount = fftSize / 2;
+    this.bassStartBin = Math.max(0, Math.min(frequencyToBin(20, sampleRate, fftSize), binCount - 1));
+    this.bassEndBin = Math.max(this.bassStartBin + 1, Math.min(frequencyToBin(200, sampleRate, fftSize), binCount - 1));
+    this.midStartBin = this.bassEndBin;
+    this.midEndBin = Math.max(this.midStartBin + 1, Math.min(frequencyToBin(2000, sampleRate, fftSize), binCount - 1));
+    this.trebleStartBin = this.midEndBin;
+    this.trebleEndBin = binCount - 1;
+
+    // Bands narrower than a bin still read at least one
+    this.binWidth = sampleRate / fftSize;
+    this.maxFrequency = Math.min(maxFrequency, sampleRate / 2);
+    this.minFrequency = Math.min(Math.max(minFrequency, this.binWidth), this.maxFrequency / 2);
+    const edges = bandEdges(Math.max(1, Math.round(bandCount)), bandScale, this.minFrequency, this.maxFrequency);
+    this.bandRanges = edges.slice(1).map((edge, i) => {
+      const start = Math.min(frequencyToBin(edges[i], sampleRate, fftSize), binCount - 1);
+      return [start, Math.max(start + 1, Math.min(frequencyToBin(edge, sampleRate, fftSize), binCount))];
+    });
+    this.bandGains = this.bandRanges.map(() => new AutoGain(gateDb, gainDecay));
+    this.legacyGains = [0, 1, 2].map(() => new AutoGain(gateDb, gainDecay));
+    // Flux is already a difference, so it gets a fixed floor instead of a level gate
+    this.fluxGain = new AutoGain(-60, gainDecay);
+
+    this.byteSpectrum = new Float32Array(binCount);
+    this.previousSpectrum = new Float32Array(binCount);
+  }
+
+  reset() {
+    this.smoothed = { ...SILENT_AUDIO_DATA };
+    this.previousLevel = 0;
+    this.transientValue = 0;
+    this.lastTime = -1;
+    this.previousSpectrum.fill(0);
+    [...this.bandGains, ...this.legacyGains, this.fluxGain].forEach(gain => gain.reset());
+    this.tempoTracker?.reset();
+  }
+
+  /**
+   * @param spectrum Float frequency data in dB for one analysis frame
+   * @param waveform Float time-domain samples for the same frame
+   * @param time Audio clock time in seconds
+   */
+  process(spectrum: Float32Array, waveform: Float32Array, time: number): AudioAnalyzerData {
+    const binCount = Math.min(spectrum.length, this.byteSpectrum.length);
+    const dt = this.lastTime < 0 ? 0 : Math.min(Math.max(time - this.lastTime, 0), 0.1);
+    this.lastTime = time;
+
+    // Same scaling as getByteFrequencyData, so the legacy fields read exactly as before
+    const range = this.maxDecibels - this.minDecibels;
+    for (let i = 0; i < binCount; i++) {
+      this.byteSpectrum[i] = Math.min(Math.max(Math.floor(((spectrum[i] - this.minDecibels) / range) * 255), 0), 255);
+    }
+    const dataArray = this.byteSpectrum;
+
+    // Calculate raw frequency band energies
+    let bassEnergy = 0;
+    let midEnergy = 0;
+    let trebleEnergy = 0;
+
+    if (this.autoGain) {
+      bassEnergy = this.legacyGains[0].process(bandDecibels(spectrum, this.bassStartBin, this.bassEndBin), dt);
+      midEnergy = this.legacyGains[1].process(bandDecibels(spectrum, this.midStartBin, this.midEndBin), dt);
+      trebleEnergy = this.legacyGains[2].process(bandDecibels(spectrum, this.trebleStartBin, this.trebleEndBin + 1), dt);
+    } else {
+      // Bass: 20Hz - 200Hz
+      const bassBinCount = Math.max(1, this.bassEndBin - this.bassStartBin);
+      for (let i = this.bassStartBin; i < this.bassEndBin && i < binCount; i++) {
+        bassEnergy += dataArray[i] / 255;
+      }
+      bassEnergy /= bassBinCount;
+
+      // Mid: 200Hz - 2000Hz
+      const midBinCount = Math.max(1, this.midEndBin - this.midStartBin);
+      for (let i = this.midStartBin; i < this.midEndBin && i < binCount; i++) {
+        midEnergy += dataArray[i] / 255;
+      }
+      midEnergy /= midBinCount;
+
+      // Treble: 2000Hz+
+      const trebleBinCount = Math.max(1, this.trebleEndBin - this.trebleStartBin);
+      for (let i = this.trebleStartBin; i <= this.trebleEndBin && i < binCount; i++) {
+        trebleEnergy += dataArray[i] / 255;
+      }
+      trebleEnergy /= trebleBinCount;
+    }
+
+    // Overall level (weighted average)
+    const overallLevel = (
+      bassEnergy * 0.3 +
+      midEnergy * 0.4 +
+      trebleEnergy * 0.3
+    );
+
+    // Configurable bands, each normalized against its own recent loudness
+    const bands = this.bandRanges.map(([start, end], i) => this.bandGains[i].process(bandDecibels(spectrum, start, end), dt));
+
+    // Spectral centroid (power weighted) and flux (rise in byte-scaled magnitude)
+    let weightedFrequency = 0;
+    let totalPower = 0;
+    let flux = 0;
+    for (let i = 1; i < binCount; i++) {
+      const power = 10 ** (spectrum[i] / 10);
+      weightedFrequency += power * i * this.binWidth;
+      totalPower += power;
+      const magnitude = dataArray[i] / 255;
+      const rise = magnitude - this.previousSpectrum[i];
+      if (rise > 0) flux += rise;
+      this.previousSpectrum[i] = magnitude;
+    }
+    const centroidHz = totalPower > 0 ? weightedFrequency / totalPower : 0;
+    const centroid = centroidHz > this.minFrequency
+      ? Math.min(Math.log(centroidHz / this.minFrequency) / Math.log(this.maxFrequency / this.minFrequency), 1)
+      : 0;
+    const fluxLevel = this.fluxGain.process(10 * Math.log10(flux / binCount + 1e-10), dt);
+
+    // Loudness straight from the waveform
+    let sumSquares = 0;
+    let peak = 0;
+    for (let i = 0; i < waveform.length; i++) {
+      const sample = waveform[i];
+      sumSquares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    const rms = Math.sqrt(sumSquares / Math.max(1, waveform.length));
+
+    // Transient detection (beat detection)
+    const levelDelta = overallLevel - this.previousLevel;
+    const levelIncrease = levelDelta > 0 ? levelDelta : 0;
+
+    // Trigger transient if level increases significantly
+    if (levelIncrease > this.transientThreshold && overallLevel > 0.1) {
+      this.transientValue = Math.min(1.0, levelIncrease * 2); // Scale and clamp
+    }
+
+    // Decay transient
+    this.transientValue *= this.transientDecay;
+
+    // Apply lerp smoothing
+    const smoothed = this.smoothed;
+    smoothed.level = lerp(smoothed.level, overallLevel, this.lerpFactor);
+    smoothed.bass = lerp(smoothed.bass, bassEnergy, this.lerpFactor);
+    smoothed.mid = lerp(smoothed.mid, midEnergy, this.lerpFactor);
+    smoothed.treble = lerp(smoothed.treble, trebleEnergy, this.lerpFactor);
+    smoothed.transient = lerp(smoothed.transient, this.transientValue, 0.3); // Faster response for transients
+    smoothed.bands = bands.map((value, i) => lerp(smoothed.bands[i] ?? 0, value, this.lerpFactor));
+    smoothed.rms = lerp(smoothed.rms, rms, this.lerpFactor);
+    smoothed.peak = Math.max(peak, smoothed.peak * this.transientDecay); // Peak hold with the transient's decay
+    smoothed.centroid = lerp(smoothed.centroid, centroid, this.lerpFactor);
+    smoothed.flux = lerp(smoothed.flux, fluxLevel, 0.3);
+
+    // Beat grid (unsmoothed: phase must stay sample-accurate)
+    const tempo = this.tempoTracker?.process(dataArray, time);
+    smoothed.bpm = tempo?.bpm ?? 0;
+    smoothed.beatPhase = tempo?.beatPhase ?? 0;
+    smoothed.barPhase = tempo?.barPhase ?? 0;
+    smoothed.beatCount = tempo?.beatCount ?? 0;
+
+    // Store previous level for next frame
+    this.previousLevel = overallLevel;
+
+    return { ...smoothed };
+  }
+}
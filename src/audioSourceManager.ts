@@ -0,0 +1,354 @@
+export interface Track {
+  id: string;
+  name: string;
+  file: File;
+}
+
+export type SourceKind = 'none' | 'playlist' | 'microphone' | 'display';
+
+export interface AudioSourceState {
+  kind: SourceKind;
+  playing: boolean;
+  tracks: Track[];
+  trackIndex: number; // -1 when the playlist is empty
+  inputDeviceId: string; // '' for the system default
+  inputDevices: MediaDeviceInfo[];
+  inputGain: number; // Linear gain on live inputs
+  monitor: boolean; // Route live inputs to the speakers
+}
+
+const CROSSFADE_SECONDS = 0.05; // Time constant for gain ramps when switching sources
+
+/**
+ * Owns every piece of audio routing behind one persistent graph:
+ *
+ *   <audio> element ─ fileGain ──┬──────────────────── destination
+ *                                └─ bus ─ analyser
+ *   mic / tab stream ─ inputGain ┬─ bus
+ *                                └─ monitorGain ───── destination
+ *
+ * The analyser and the media element source are created once, so switching
+ * sources only ramps gains and never reconnects the analyser.
+ */
+export class AudioSourceManager {
+  readonly context: AudioContext;
+  readonly analyser: AnalyserNode;
+  readonly element: HTMLAudioElement;
+
+  private readonly bus: GainNode;
+  private readonly fileGain: GainNode;
+  private readonly inputGain: GainNode;
+  private readonly monitorGain: GainNode;
+
+  private stream: MediaStream | null = null;
+  private streamSource: MediaStreamAudioSourceNode | null = null;
+  private streamGain: GainNode | null = null; // Per stream, so an outgoing stream can fade out alone
+  private trackUrl: string | null = null;
+
+  private state: AudioSourceState = {
+    kind: 'none',
+    playing: false,
+    tracks: [],
+    trackIndex: -1,
+    inputDeviceId: '',
+    inputDevices: [],
+    inputGain: 1,
+    monitor: false,
+  };
+  private listeners = new Set<() => void>();
+
+  constructor(options: { fftSize?: number; smoothingTimeConstant?: number } = {}) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    this.context = new AudioContextClass();
+
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = options.fftSize ?? 2048;
+    this.analyser.smoothingTimeConstant = options.smoothingTimeConstant ?? 0.8;
+
+    this.bus = this.context.createGain();
+    this.bus.connect(this.analyser);
+
+    this.element = new Audio();
+    this.element.crossOrigin = 'anonymous';
+    this.fileGain = this.context.createGain();
+    this.fileGain.gain.value = 0;
+    this.context.createMediaElementSource(this.element).connect(this.fileGain);
+    this.fileGain.connect(this.bus);
+    this.fileGain.connect(this.context.destination);
+
+    this.inputGain = this.context.createGain();
+    this.inputGain.connect(this.bus);
+    this.monitorGain = this.context.createGain();
+    this.monitorGain.gain.value = 0;
+    this.inputGain.connect(this.monitorGain);
+    this.monitorGain.connect(this.context.destination);
+
+    this.element.addEventListener('play', () => {
+      if (this.state.kind === 'playlist') this.update({ playing: true });
+    });
+    this.element.addEventListener('pause', () => {
+      if (this.state.kind === 'playlist') this.update({ playing: false });
+    });
+    this.element.addEventListener('ended', () => {
+      // Nobody awaits this: a track that fails to start just leaves the playlist stopped
+      this.next().catch((err) => {
+        console.error('Could not play the next track:', err);
+        this.update({ playing: false });
+      });
+    });
+
+    navigator.mediaDevices?.addEventListener?.('devicechange', () => this.refreshDevices());
+    this.refreshDevices();
+  }
+
+  getState(): AudioSourceState {
+    return this.state;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get currentTrack(): Track | null {
+    return this.state.tracks[this.state.trackIndex] ?? null;
+  }
+
+  // --- PLAYLIST ---
+
+  async addFiles(files: Iterable<File>, play = true) {
+    const added = Array.from(files)
+      .filter(file => file.type.startsWith('audio/') || /\.(mp3|wav|ogg|flac|m4a|aac|opus|webm)$/i.test(file.name))
+      .map(file => ({ id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, name: file.name, file }));
+    if (added.length === 0) return;
+
+    const firstNew = this.state.tracks.length;
+    this.update({ tracks: [...this.state.tracks, ...added] });
+    if (play) await this.playTrack(firstNew);
+  }
+
+  removeTrack(id: string) {
+    const index = this.state.tracks.findIndex(track => track.id === id);
+    if (index < 0) return;
+    const tracks = this.state.tracks.filter(track => track.id !== id);
+    const playingRemoved = index === this.state.trackIndex;
+
+    if (playingRemoved) {
+      this.element.pause();
+      this.update({ tracks, trackIndex: -1, playing: false });
+      if (tracks.length > 0) {
+        this.loadTrack(Math.min(index, tracks.length - 1));
+      } else {
+        this.element.removeAttribute('src');
+        this.element.load();
+      }
+    } else {
+      this.update({ tracks, trackIndex: this.state.trackIndex - (index < this.state.trackIndex ? 1 : 0) });
+    }
+  }
+
+  moveTrack(from: number, to: number) {
+    const tracks = [...this.state.tracks];
+    if (from === to || !tracks[from] || to < 0 || to >= tracks.length) return;
+    const current = this.currentTrack;
+    const [moved] = tracks.splice(from, 1);
+    tracks.splice(to, 0, moved);
+    this.update({ tracks, trackIndex: current ? tracks.indexOf(current) : -1 });
+  }
+
+  async playTrack(index: number) {
+    if (!this.state.tracks[index]) return;
+    this.loadTrack(index);
+    this.selectPlaylist();
+    await this.play();
+  }
+
+  async next() {
+    const count = this.state.tracks.length;
+    if (count === 0) return;
+    // The playlist loops, which also keeps a single track repeating as before
+    await this.playTrack((this.state.trackIndex + 1) % count);
+  }
+
+  async previous() {
+    const count = this.state.tracks.length;
+    if (count === 0) return;
+    // Like most players: restart the track unless it has only just begun
+    if (this.element.currentTime > 3) {
+      this.seek(0);
+      return;
+    }
+    await this.playTrack((this.state.trackIndex - 1 + count) % count);
+  }
+
+  seek(time: number) {
+    if (!Number.isFinite(this.element.duration)) return;
+    this.element.currentTime = Math.min(Math.max(time, 0), this.element.duration);
+  }
+
+  private loadTrack(index: number) {
+    if (index === this.state.trackIndex && this.element.src) return;
+    if (this.trackUrl) URL.revokeObjectURL(this.trackUrl);
+    this.trackUrl = URL.createObjectURL(this.state.tracks[index].file);
+    this.element.src = this.trackUrl;
+    this.update({ trackIndex: index });
+  }
+
+  private selectPlaylist() {
+    if (this.state.kind === 'playlist') return;
+    this.stopStream();
+    this.fadeTo('playlist');
+    this.update({ kind: 'playlist' });
+  }
+
+  // --- LIVE INPUTS ---
+
+  async startMicrophone(deviceId = this.state.inputDeviceId) {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        // Processing meant for calls flattens music
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+      },
+    });
+    this.attachStream(stream, 'microphone');
+    this.update({ inputDeviceId: deviceId });
+    // Device labels are only exposed once permission has been granted
+    this.refreshDevices();
+  }
+
+  /** Captures audio from a browser tab or the whole system (where the browser allows it). */
+  async startDisplayAudio() {
+    // Browsers require video in the request; it is dropped straight away
+    const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+    stream.getVideoTracks().forEach(track => {
+      track.stop();
+      stream.removeTrack(track);
+    });
+    if (stream.getAudioTracks().length === 0) {
+      throw new Error('No audio was shared. Tick "Share audio" when choosing a tab or screen.');
+    }
+    this.attachStream(stream, 'display');
+  }
+
+  async setInputDevice(deviceId: string) {
+    this.update({ inputDeviceId: deviceId });
+    if (this.state.kind === 'microphone') await this.startMicrophone(deviceId);
+  }
+
+  setInputGain(gain: number) {
+    this.update({ inputGain: gain });
+    if (this.stream) this.inputGain.gain.setTargetAtTime(gain, this.context.currentTime, CROSSFADE_SECONDS);
+  }
+
+  setMonitor(monitor: boolean) {
+    this.monitorGain.gain.setTargetAtTime(monitor ? 1 : 0, this.context.currentTime, CROSSFADE_SECONDS);
+    this.update({ monitor });
+  }
+
+  /** Stops any live input; the playlist stays loaded but paused. */
+  stopInput() {
+    if (this.state.kind !== 'microphone' && this.state.kind !== 'display') return;
+    this.stopStream();
+    this.fadeTo('none');
+    this.update({ kind: 'none', playing: false });
+  }
+
+  private attachStream(stream: MediaStream, kind: 'microphone' | 'display') {
+    this.element.pause();
+    this.stopStream(); // Fades out whatever was live before
+
+    const gain = this.context.createGain();
+    gain.gain.value = 0;
+    gain.gain.setTargetAtTime(1, this.context.currentTime, CROSSFADE_SECONDS);
+    gain.connect(this.inputGain);
+    const source = this.context.createMediaStreamSource(stream);
+    source.connect(gain);
+    this.stream = stream;
+    this.streamSource = source;
+    this.streamGain = gain;
+
+    // Sharing can be ended from the browser's own UI
+    stream.getAudioTracks()[0]?.addEventListener('ended', () => {
+      if (this.stream === stream) this.stopInput();
+    });
+
+    this.fadeTo('input');
+    this.update({ kind, playing: true });
+    void this.context.resume();
+  }
+
+  private stopStream() {
+    const { stream, streamSource, streamGain } = this;
+    this.stream = null;
+    this.streamSource = null;
+    this.streamGain = null;
+    if (!stream) return;
+
+    streamGain?.gain.setTargetAtTime(0, this.context.currentTime, CROSSFADE_SECONDS);
+    // Tear down once the fade has settled (five time constants)
+    setTimeout(() => {
+      streamSource?.disconnect();
+      streamGain?.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+    }, CROSSFADE_SECONDS * 5 * 1000);
+  }
+
+  // Never rejects, since it runs from events and constructors; the device list just stays as it was
+  private async refreshDevices() {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      this.update({ inputDevices: devices.filter(device => device.kind === 'audioinput') });
+    } catch (err) {
+      console.warn('Could not list audio inputs:', err);
+    }
+  }
+
+  // --- TRANSPORT ---
+
+  async play() {
+    await this.context.resume();
+    if (this.state.kind === 'playlist') {
+      await this.element.play();
+    }
+    if (this.state.kind !== 'none') this.update({ playing: true });
+  }
+
+  pause() {
+    // Live inputs keep running; pausing only stops the visuals reacting to them
+    if (this.state.kind === 'playlist') this.element.pause();
+    this.update({ playing: false });
+  }
+
+  async togglePlay() {
+    if (this.state.playing) {
+      this.pause();
+    } else if (this.state.kind === 'none' && this.state.tracks.length > 0) {
+      await this.playTrack(Math.max(this.state.trackIndex, 0));
+    } else {
+      await this.play();
+    }
+  }
+
+  // Ramps each path so only the active source reaches the analyser and speakers
+  private fadeTo(path: 'playlist' | 'input' | 'none') {
+    const now = this.context.currentTime;
+    this.fileGain.gain.setTargetAtTime(path === 'playlist' ? 1 : 0, now, CROSSFADE_SECONDS);
+    this.bus.gain.setTargetAtTime(path === 'none' ? 0 : 1, now, CROSSFADE_SECONDS);
+    if (path !== 'input') {
+      this.inputGain.gain.setTargetAtTime(0, now, CROSSFADE_SECONDS);
+    } else {
+      this.inputGain.gain.setTargetAtTime(this.state.inputGain, now, CROSSFADE_SECONDS);
+    }
+  }
+
+  private update(changes: Partial<AudioSourceState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+
+export interface GpuCapabilities {
+  webgl2: boolean;
+  maxTextureSize: number;
+  floatRenderable: boolean; // RGBA32F color attachments
+  halfFloatRenderable: boolean; // RGBA16F color attachments
+  floatBlendable: boolean; // Blending into RGBA32F attachments (EXT_float_blend)
+}
+
+// Where the particle simulation runs, and why when it is not on the GPU
+export type SimulationBackend =
+  | { kind: 'gpu'; dataType: THREE.TextureDataType }
+  | { kind: 'cpu'; reason: string };
+
+// The CPU path steps every particle in JavaScript, so it runs at the smallest tier
+export const CPU_MAX_TEXTURE_SIZE = 128;
+
+// Attaches a 1x1 texture of the format to a framebuffer and asks whether it can be drawn to
+function isRenderable(gl: WebGL2RenderingContext, internalFormat: number, type: number): boolean {
+  const texture = gl.createTexture();
+  const framebuffer = gl.createFramebuffer();
+  if (!texture || !framebuffer) return false;
+
+  const previousFramebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING);
+  const previousTexture = gl.getParameter(gl.TEXTURE_BINDING_2D);
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, 1, 1, 0, gl.RGBA, type, null);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+  const complete = gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, previousFramebuffer);
+  gl.bindTexture(gl.TEXTURE_2D, previousTexture);
+  gl.deleteFramebuffer(framebuffer);
+  gl.deleteTexture(texture);
+  return complete;
+}
+
+/**
+ * Checks what the simulation needs from a context. Three only renders with
+ * WebGL2, so a WebGL1 context reports nothing as renderable.
+ */
+export function probeCapabilities(gl: WebGLRenderingContext | WebGL2RenderingContext): GpuCapabilities {
+  const webgl2 = typeof WebGL2RenderingContext !== 'undefined' && gl instanceof WebGL2RenderingContext;
+  const capabilities: GpuCapabilities = {
+    webgl2,
+    maxTextureSize: gl.getParameter(gl.MAX_TEXTURE_SIZE),
+    floatRenderable: false,
+    halfFloatRenderable: false,
+    floatBlendable: false,
+  };
+  if (!webgl2) return capabilities;
+
+  // Float attachments need the extension enabled before they can complete
+  const colorBufferFloat = gl.getExtension('EXT_color_buffer_float');
+  const colorBufferHalfFloat = gl.getExtension('EXT_color_buffer_half_float');
+  capabilities.floatRenderable = !!colorBufferFloat && isRenderable(gl, gl.RGBA32F, gl.FLOAT);
+  capabilities.halfFloatRenderable = (!!colorBufferFloat || !!colorBufferHalfFloat) && isRenderable(gl, gl.RGBA16F, gl.HALF_FLOAT);
+  // Enabling the extension is what allows the blend, so this must run on the renderer's context
+  capabilities.floatBlendable = capabilities.floatRenderable && !!gl.getExtension('EXT_float_blend');
+  return capabilities;
+}
+
+// Probes a throwaway canvas, before a renderer exists; null when there is no WebGL at all
+export function probeBrowser(): GpuCapabilities | null {
+  const canvas = document.createElement('canvas');
+  const gl = canvas.getContext('webgl2') ?? canvas.getContext('webgl');
+  if (!gl) return null;
+  const capabilities = probeCapabilities(gl);
+  gl.getExtension('WEBGL_lose_context')?.loseContext();
+  return capabilities;
+}
+
+// Half float where possible (smaller and the only option on many mobile GPUs), else float, else the CPU
+export function chooseBackend(capabilities: GpuCapabilities): SimulationBackend {
+  if (capabilities.halfFloatRenderable) return { kind: 'gpu', dataType: THREE.HalfFloatType };
+  if (capabilities.floatRenderable) return { kind: 'gpu', dataType: THREE.FloatType };
+  return { kind: 'cpu', reason: 'This GPU cannot render to float textures' };
+}
+
+const probed = new WeakMap<WebGLRenderingContext | WebGL2RenderingContext, GpuCapabilities>();
+
+// Probes a renderer's context once; later calls return the same result
+export function getCapabilities(renderer: THREE.WebGLRenderer): GpuCapabilities {
+  const gl = renderer.getContext();
+  let capabilities = probed.get(gl);
+  if (!capabilities) {
+    capabilities = probeCapabilities(gl);
+    probed.set(gl, capabilities);
+  }
+  return capabilities;
+}
+
+// Type for HDR render targets (trails, post effects): 8-bit clips, but still draws
+export function hdrTargetType(capabilities: GpuCapabilities): THREE.TextureDataType {
+  if (capabilities.halfFloatRenderable) return THREE.HalfFloatType;
+  if (capabilities.floatRenderable) return THREE.FloatType;
+  return THREE.UnsignedByteType;
+}
+
+// Type for the flocking density grid, which sums particles by blending: 8-bit
+// would clamp the sums, and float only blends with EXT_float_blend. Null when neither works
+export function densityGridType(capabilities: GpuCapabilities): THREE.TextureDataType | null {
+  if (capabilities.halfFloatRenderable) return THREE.HalfFloatType;
+  if (capabilities.floatBlendable) return THREE.FloatType;
+  return null;
+}
@@ -0,0 +1,498 @@
+import { levaStore } from 'leva';
+import { TempoTracker } from './tempoTracker';
+
+export type ControlSourceKind = 'none' | 'cc' | 'note' | 'osc';
+
+export const CONTROL_SOURCE_KINDS: { value: ControlSourceKind; label: string }[] = [
+  { value: 'none', label: 'Unassigned' },
+  { value: 'cc', label: 'MIDI CC' },
+  { value: 'note', label: 'MIDI Note' },
+  { value: 'osc', label: 'OSC' },
+];
+
+export const isControlSourceKind = (value: unknown): value is ControlSourceKind =>
+  CONTROL_SOURCE_KINDS.some(kind => kind.value === value);
+
+// Binds one hardware control to one parameter
+export interface ControlMapping {
+  id: string;
+  kind: ControlSourceKind;
+  channel: number; // MIDI channel 1-16
+  number: number; // CC or note number
+  address: string; // OSC address
+  target: string; // Leva path (e.g. 'Particle Simulation.flowSpeed') or an app target
+  min: number; // Share of the target's range at the control's minimum; above max inverts
+  max: number;
+}
+
+export function createMapping(mapping: Partial<ControlMapping> = {}): ControlMapping {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    kind: 'none',
+    channel: 1,
+    number: 0,
+    address: '',
+    target: 'Particle Simulation.flowSpeed',
+    min: 0,
+    max: 1,
+    ...mapping,
+  };
+}
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export function describeSource(mapping: ControlMapping): string {
+  switch (mapping.kind) {
+    case 'cc':
+      return `CC ${mapping.number} · ch ${mapping.channel}`;
+    case 'note':
+      return `${NOTE_NAMES[mapping.number % 12]}${Math.floor(mapping.number / 12) - 1} · ch ${mapping.channel}`;
+    case 'osc':
+      return mapping.address;
+    default:
+      return 'Unassigned';
+  }
+}
+
+// --- TARGETS ---
+
+// Settings held in React state rather than leva; the app applies these itself
+export const APP_TARGET_PREFIX = 'app.';
+
+export const APP_TARGETS: { value: string; label: string }[] = [
+  { value: 'app.trailLength', label: 'Trail Length' },
+  { value: 'app.colorScheme', label: 'Color Scheme' },
+  { value: 'app.colorInput', label: 'Color By' },
+  { value: 'app.mode3D', label: '3D' },
+  { value: 'app.tap', label: 'Tap Tempo' },
+];
+
+const MAPPABLE_INPUTS = ['NUMBER', 'SELECT', 'BOOLEAN'];
+
+/**
+ * Every mounted leva control a 0-1 value can drive: bounded numbers,
+ * selects and toggles. Pass levaStore.getData() (or the store's data).
+ */
+export function levaTargets(data: ReturnType<typeof levaStore.getData>): { value: string; label: string }[] {
+  const targets: { value: string; label: string }[] = [];
+  for (const [path, item] of Object.entries(data)) {
+    if (!MAPPABLE_INPUTS.includes(item.type)) continue;
+    if (item.type === 'NUMBER') {
+      const { min, max } = ('settings' in item ? item.settings : {}) as { min?: number; max?: number };
+      if (!Number.isFinite(min) || !Number.isFinite(max)) continue;
+    }
+    const folder = path.slice(0, path.lastIndexOf('.'));
+    targets.push({ value: path, label: `${folder} › ${typeof item.label === 'string' ? item.label : item.key}` });
+  }
+  return targets;
+}
+
+// Splits 0-1 into equal zones, one per option
+export const pickOption = <T>(options: readonly T[], value: number): T =>
+  options[Math.min(options.length - 1, Math.max(0, Math.floor(value * options.length)))];
+
+/** Drives a leva control from a 0-1 value. Returns false when it is not mounted or not mappable. */
+export function setLevaControl(path: string, value: number): boolean {
+  const input = levaStore.getInput(path);
+  if (!input) return false;
+  switch (input.type) {
+    case 'NUMBER': {
+      const { min, max, step } = input.settings as { min: number; max: number; step: number };
+      if (!Number.isFinite(min) || !Number.isFinite(max)) return false;
+      const raw = min + (max - min) * value;
+      const snapped = step > 0 ? min + Math.round((raw - min) / step) * step : raw;
+      levaStore.setValueAtPath(path, Math.min(Math.max(snapped, min), max), false);
+      return true;
+    }
+    case 'SELECT': {
+      const { values } = input.settings as { values: unknown[] };
+      levaStore.setValueAtPath(path, pickOption(values, value), false);
+      return true;
+    }
+    case 'BOOLEAN':
+      levaStore.setValueAtPath(path, value >= 0.5, false);
+      return true;
+    default:
+      return false;
+  }
+}
+
+// --- OSC ---
+
+export type OscArgument = number | string | boolean | null;
+
+export interface OscMessage {
+  address: string;
+  args: OscArgument[];
+}
+
+class OscReader {
+  private offset = 0;
+
+  constructor(private readonly view: DataView) {}
+
+  get done(): boolean {
+    return this.offset >= this.view.byteLength;
+  }
+
+  // Null-terminated, padded to a multiple of four bytes
+  string(): string {
+    let end = this.offset;
+    while (end < this.view.byteLength && this.view.getUint8(end) !== 0) end++;
+    const text = new TextDecoder().decode(new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, end - this.offset));
+    this.offset = (end + 4) & ~3;
+    return text;
+  }
+
+  int32(): number {
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  float32(): number {
+    const value = this.view.getFloat32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  float64(): number {
+    const value = this.view.getFloat64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  int64(): number {
+    const value = Number(this.view.getBigInt64(this.offset));
+    this.offset += 8;
+    return value;
+  }
+
+  blob(): DataView {
+    const size = this.int32();
+    const blob = new DataView(this.view.buffer, this.view.byteOffset + this.offset, size);
+    this.offset += (size + 3) & ~3;
+    return blob;
+  }
+}
+
+/** Unpacks an OSC packet, flattening bundles (their time tags are ignored: everything applies now). */
+export function parseOscPacket(view: DataView): OscMessage[] {
+  const reader = new OscReader(view);
+  const address = reader.string();
+
+  if (address === '#bundle') {
+    reader.int64(); // Time tag
+    const messages: OscMessage[] = [];
+    while (!reader.done) messages.push(...parseOscPacket(reader.blob()));
+    return messages;
+  }
+
+  const args: OscArgument[] = [];
+  const types = reader.done ? '' : reader.string();
+  for (const type of types.slice(1)) {
+    switch (type) {
+      case 'i': args.push(reader.int32()); break;
+      case 'f': args.push(reader.float32()); break;
+      case 'd': args.push(reader.float64()); break;
+      case 'h': args.push(reader.int64()); break;
+      case 's': case 'S': args.push(reader.string()); break;
+      case 'b': reader.blob(); args.push(null); break;
+      case 'T': args.push(true); break;
+      case 'F': args.push(false); break;
+      case 'N': case 'I': args.push(null); break;
+      default: return [{ address, args }]; // Unknown type: the rest cannot be located
+    }
+  }
+  return [{ address, args }];
+}
+
+// --- SURFACE ---
+
+export type ConnectionStatus = 'off' | 'connecting' | 'on' | 'error';
+
+export interface ControlSurfaceState {
+  midi: ConnectionStatus;
+  midiError: string;
+  midiInputs: string[];
+  osc: ConnectionStatus;
+  oscUrl: string;
+  mappings: ControlMapping[];
+  learning: string | null; // Mapping waiting for the next control that moves
+  clockBpm: number | null; // Tempo of incoming MIDI clock, while it runs
+}
+
+interface ControlMessage {
+  kind: Exclude<ControlSourceKind, 'none'>;
+  channel: number;
+  number: number;
+  address: string;
+  value: number; // 0-1
+}
+
+// Where the bundled relay (npm run osc-relay) serves OSC by default
+export const DEFAULT_OSC_URL = 'ws://localhost:8080';
+
+const CLOCK_PPQN = 24; // MIDI clock pulses per quarter note
+const CLOCK_WINDOW = 2 * CLOCK_PPQN; // Pulses the tempo is averaged over
+const CLOCK_TIMEOUT = 1000; // Milliseconds without pulses before the clock counts as stopped
+
+const matches = (mapping: ControlMapping, message: ControlMessage) =>
+  mapping.kind === message.kind &&
+  (message.kind === 'osc'
+    ? mapping.address === message.address
+    : mapping.channel === message.channel && mapping.number === message.number);
+
+/**
+ * Listens to MIDI inputs and an OSC-over-WebSocket bridge and drives the
+ * mapped parameters: leva controls directly, app targets through onAppControl.
+ * Incoming MIDI clock sets the tempo tracker's tempo and beat.
+ */
+export class ControlSurface {
+  // Receives app.* targets with the mapped 0-1 value
+  onAppControl: ((target: string, value: number) => void) | null = null;
+
+  private midiAccess: MIDIAccess | null = null;
+  private socket: WebSocket | null = null;
+  private clockTimes: number[] = [];
+  private clockPulse = 0;
+  private clockWatchdog: number | null = null;
+
+  private state: ControlSurfaceState = {
+    midi: 'off',
+    midiError: '',
+    midiInputs: [],
+    osc: 'off',
+    oscUrl: DEFAULT_OSC_URL,
+    mappings: [],
+    learning: null,
+    clockBpm: null,
+  };
+  private listeners = new Set<() => void>();
+
+  constructor(private readonly tempo: TempoTracker) {}
+
+  getState(): ControlSurfaceState {
+    return this.state;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // --- MAPPINGS ---
+
+  setMappings(mappings: ControlMapping[]) {
+    this.update({ mappings, learning: null });
+  }
+
+  addMapping(mapping: Partial<ControlMapping> = {}) {
+    const added = createMapping(mapping);
+    // New mappings start listening, so the next control moved binds to them
+    this.update({ mappings: [...this.state.mappings, added], learning: added.id });
+  }
+
+  updateMapping(id: string, changes: Partial<ControlMapping>) {
+    this.update({ mappings: this.state.mappings.map(m => (m.id === id ? { ...m, ...changes } : m)) });
+  }
+
+  removeMapping(id: string) {
+    this.update({
+      mappings: this.state.mappings.filter(m => m.id !== id),
+      learning: this.state.learning === id ? null : this.state.learning,
+    });
+  }
+
+  /** Binds the next control that moves to the mapping; null cancels. */
+  learn(id: string | null) {
+    this.update({ learning: id });
+  }
+
+  // --- MIDI ---
+
+  async connectMidi() {
+    if (!('requestMIDIAccess' in navigator)) {
+      this.update({ midi: 'error', midiError: 'Web MIDI is not supported in this browser' });
+      return;
+    }
+    this.update({ midi: 'connecting', midiError: '' });
+    try {
+      this.midiAccess = await navigator.requestMIDIAccess();
+    } catch (err) {
+      console.warn('MIDI access denied:', err);
+      this.update({ midi: 'error', midiError: 'MIDI access was denied' });
+      return;
+    }
+    // Devices plugged in later are picked up as they appear
+    this.midiAccess.onstatechange = () => this.attachMidiInputs();
+    this.attachMidiInputs();
+  }
+
+  disconnectMidi() {
+    if (this.midiAccess) {
+      this.midiAccess.onstatechange = null;
+      this.midiAccess.inputs.forEach(input => {
+        input.onmidimessage = null;
+      });
+      this.midiAccess = null;
+    }
+    this.stopClock();
+    this.update({ midi: 'off', midiInputs: [] });
+  }
+
+  private attachMidiInputs() {
+    if (!this.midiAccess) return;
+    const names: string[] = [];
+    this.midiAccess.inputs.forEach(input => {
+      input.onmidimessage = this.handleMidi;
+      if (input.state === 'connected') names.push(input.name || input.id);
+    });
+    this.update({ midi: 'on', midiInputs: names });
+  }
+
+  private handleMidi = (event: MIDIMessageEvent) => {
+    const data = event.data;
+    if (!data || data.length === 0) return;
+    const [status, data1 = 0, data2 = 0] = data;
+
+    switch (status) {
+      case 0xf8: this.handleClockPulse(event.timeStamp); return;
+      case 0xfa: this.clockPulse = 0; return; // Start: the next pulse is beat one
+      case 0xfc: return; // Stop: the tempo holds until pulses time out
+    }
+
+    const type = status & 0xf0;
+    const channel = (status & 0x0f) + 1;
+    if (type === 0xb0) {
+      this.dispatch({ kind: 'cc', channel, number: data1, address: '', value: data2 / 127 });
+    } else if (type === 0x90 || type === 0x80) {
+      // Note on with velocity 0 is a note off
+      const velocity = type === 0x90 ? data2 : 0;
+      this.dispatch({ kind: 'note', channel, number: data1, address: '', value: velocity / 127 });
+    }
+  };
+
+  // Tempo from the average pulse spacing; every 24th pulse is a beat
+  private handleClockPulse(time: number) {
+    this.tempo.clockPulse(this.clockPulse, CLOCK_PPQN);
+    this.clockPulse++;
+
+    this.clockTimes.push(time);
+    if (this.clockTimes.length > CLOCK_WINDOW + 1) this.clockTimes.shift();
+    if (this.clockWatchdog === null) {
+      this.clockWatchdog = window.setInterval(() => {
+        const last = this.clockTimes[this.clockTimes.length - 1];
+        if (last === undefined || performance.now() - last > CLOCK_TIMEOUT) this.stopClock();
+      }, CLOCK_TIMEOUT / 2);
+    }
+
+    const count = this.clockTimes.length - 1;
+    if (count < CLOCK_PPQN) return;
+    const span = this.clockTimes[count] - this.clockTimes[0];
+    if (span <= 0) return;
+    const bpm = (60000 * count) / (CLOCK_PPQN * span);
+    this.tempo.setClock(bpm);
+    if (this.state.clockBpm === null || Math.abs(bpm - this.state.clockBpm) >= 0.1) this.update({ clockBpm: bpm });
+  }
+
+  private stopClock() {
+    if (this.clockWatchdog !== null) window.clearInterval(this.clockWatchdog);
+    this.clockWatchdog = null;
+    this.clockTimes = [];
+    this.clockPulse = 0;
+    this.tempo.setClock(null);
+    if (this.state.clockBpm !== null) this.update({ clockBpm: null });
+  }
+
+  // --- OSC ---
+
+  /** Connects to a WebSocket that forwards raw OSC packets, such as scripts/osc-relay.js. */
+  connectOsc(url: string) {
+    this.disconnectOsc();
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (err) {
+      console.warn('Invalid OSC bridge URL:', err);
+      this.update({ osc: 'error', oscUrl: url });
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+    this.update({ osc: 'connecting', oscUrl: url });
+
+    let opened = false;
+    socket.onopen = () => {
+      opened = true;
+      this.update({ osc: 'on' });
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.update({ osc: opened ? 'off' : 'error' });
+    };
+    socket.onmessage = (event) => {
+      if (!(event.data instanceof ArrayBuffer)) return;
+      try {
+        for (const message of parseOscPacket(new DataView(event.data))) this.handleOsc(message);
+      } catch (err) {
+        console.warn('Ignoring malformed OSC packet:', err);
+      }
+    };
+  }
+
+  disconnectOsc() {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    if (this.state.osc !== 'off') this.update({ osc: 'off' });
+  }
+
+  /** Closes the OSC socket, detaches the MIDI inputs and stops the clock watchdog. */
+  dispose() {
+    this.disconnectOsc();
+    this.disconnectMidi();
+  }
+
+  // The first number or boolean is the value; a message without one is a trigger
+  private handleOsc({ address, args }: OscMessage) {
+    const arg = args.find(a => typeof a === 'number' || typeof a === 'boolean');
+    const value = arg === undefined ? 1 : Number(arg);
+    this.dispatch({ kind: 'osc', channel: 0, number: 0, address, value: Math.min(Math.max(value, 0), 1) });
+  }
+
+  // --- DISPATCH ---
+
+  private dispatch(message: ControlMessage) {
+    const { learning } = this.state;
+    if (learning) {
+      // Releases (note off, a CC returning to 0) are not a deliberate move
+      if (message.kind !== 'osc' && message.value === 0) return;
+      this.update({
+        mappings: this.state.mappings.map(m => m.id === learning
+          ? { ...m, kind: message.kind, channel: message.channel, number: message.number, address: message.address }
+          : m),
+        learning: null,
+      });
+      return;
+    }
+
+    for (const mapping of this.state.mappings) {
+      if (!matches(mapping, message)) continue;
+      const value = mapping.min + (mapping.max - mapping.min) * message.value;
+      if (mapping.target.startsWith(APP_TARGET_PREFIX)) {
+        this.onAppControl?.(mapping.target, value);
+      } else {
+        setLevaControl(mapping.target, value);
+      }
+    }
+  }
+
+  private update(changes: Partial<ControlSurfaceState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
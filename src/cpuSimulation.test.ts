@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { CpuSimulation } from './cpuSimulation';
+import { FIELD_TYPES } from './fields';
+
+const SIZE = 4;
+const COUNT = SIZE * SIZE;
+
+// The uniforms CpuSimulation reads: a steady wind along +x, no forces, and drag
+// high enough that each particle takes the flow's velocity in a single step
+function createUniforms() {
+  const velocity: Record<string, THREE.IUniform> = {
+    time: { value: 0 },
+    uDelta: { value: 1 },
+    uFlowSpeed: { value: 1 },
+    uTimeWarp: { value: 0 },
+    uNoiseDetail: { value: 0 },
+    uSpeedMod: { value: 0 },
+    uCurlInfluence: { value: 0 },
+    uNoiseScale: { value: 0.1 },
+    uMass: { value: 1 },
+    uDrag: { value: 1000 },
+    uMaxSpeed: { value: 20 },
+    uBurst: { value: 0 },
+    uFieldRotation: { value: 0 },
+    uBeatPulse: { value: 1 },
+    uForceCount: { value: 0 },
+    uForces: { value: [] },
+    uForceParams: { value: [] },
+    uReform: { value: 0 },
+    uDepth: { value: 0 },
+    uBounds: { value: new THREE.Vector3(100, 100, 1) },
+    uBoundsMode: { value: 0 },
+    uFieldWeights: { value: FIELD_TYPES.map(type => (type.value === 'wind' ? 1 : 0)) },
+    uFbm: { value: new THREE.Vector3(4, 2, 0.5) },
+    uWarp: { value: new THREE.Vector2(150, 0.002) },
+    uVortices: { value: new THREE.Vector3(4, 200, 3) },
+    uSinks: { value: new THREE.Vector3(2, 250, 3) },
+    uWind: { value: new THREE.Vector3(0, 2, 0) }, // Angle, strength, no gusts
+    uContainStrength: { value: 1 },
+    uDensityResolution: { value: 0 },
+    uFlock: { value: new THREE.Vector4(1, 1, 0.05, 1) },
+  };
+  const position: Record<string, THREE.IUniform> = { uLifeDecay: { value: 0 } };
+  return { velocity, position };
+}
+
+// Particles on a grid around the origin, half their life left
+function createPositions() {
+  const data = new Float32Array(COUNT * 4);
+  for (let i = 0; i < COUNT; i++) {
+    data[i * 4] = (i % SIZE) * 10 - 15;
+    data[i * 4 + 1] = Math.floor(i / SIZE) * 10 - 15;
+    data[i * 4 + 3] = 0.5;
+  }
+  return data;
+}
+
+function run(seed: number, steps: number, uniforms = createUniforms()) {
+  const spawn = createPositions();
+  const simulation = new CpuSimulation(SIZE, createPositions(), seed);
+  for (let i = 0; i < steps; i++) simulation.step(uniforms.velocity, uniforms.position, spawn, false, COUNT);
+  return simulation.position;
+}
+
+describe('CpuSimulation', () => {
+  it('moves particles with the wind field', () => {
+    const start = createPositions();
+    const position = run(1, 3);
+    // Wind strength 2 in field units of 0.006; position lags velocity by a step
+    const travelled = 2 * 0.006 * 2;
+    for (let i = 0; i < position.length; i += 4) {
+      expect(position[i]).toBeCloseTo(start[i] + travelled, 5);
+      expect(position[i + 1]).toBeCloseTo(start[i + 1], 5);
+      expect(position[i + 3]).toBeCloseTo(0.5 - 0.003 * 3, 5);
+    }
+  });
+
+  it('respawns the same way for the same seed', () => {
+    // A strong wind carries particles out of bounds, so they respawn at random spawn points
+    const uniforms = () => {
+      const u = createUniforms();
+      u.velocity.uWind.value.y = 1000;
+      return u;
+    };
+    const a = run(7, 20, uniforms());
+    const b = run(7, 20, uniforms());
+    const c = run(8, 20, uniforms());
+    expect(Array.from(a)).toEqual(Array.from(b));
+    expect(Array.from(a)).not.toEqual(Array.from(c));
+  });
+});
@@ -0,0 +1,416 @@
+import * as THREE from 'three';
+import { MAX_FIELD_POINTS } from './fields';
+import { createRandom } from './random';
+
+// Mirrors the field library in fields.ts, for the CPU simulation. The field is
+// always the 2D one (3D mode samples it on the xy plane), and custom GLSL
+// cannot run here, so the custom slot falls back to curl noise.
+
+const FIELD_UNIT = 0.006;
+
+const fract = (x: number) => x - Math.floor(x);
+const mod289 = (x: number) => x - Math.floor(x / 289) * 289;
+const permute = (x: number) => mod289((x * 34 + 1) * x);
+
+// One simplex corner's contribution, for the hashed gradient p at offset (x, y)
+function corner(p: number, x: number, y: number): number {
+  let m = Math.max(0.5 - (x * x + y * y), 0);
+  m = m * m;
+  m = m * m;
+  const gx = 2 * fract(p * 0.024390243902439) - 1;
+  const h = Math.abs(gx) - 0.5;
+  const a0 = gx - Math.floor(gx + 0.5);
+  m *= 1.79284291400159 - 0.85373472095314 * (a0 * a0 + h * h);
+  return m * (a0 * x + h * y);
+}
+
+// 2D simplex noise, a direct port of snoise(vec2) in curlNoise2D.ts
+function snoise(vx: number, vy: number): number {
+  const C0 = 0.211324865405187;
+  const C1 = 0.366025403784439;
+  const C2 = -0.577350269189626;
+
+  let ix = Math.floor(vx + (vx + vy) * C1);
+  let iy = Math.floor(vy + (vx + vy) * C1);
+  const x0x = vx - ix + (ix + iy) * C0;
+  const x0y = vy - iy + (ix + iy) * C0;
+  const i1x = x0x > x0y ? 1 : 0;
+  const i1y = 1 - i1x;
+
+  ix = mod289(ix);
+  iy = mod289(iy);
+  return 130 * (
+    corner(permute(permute(iy) + ix), x0x, x0y) +
+    corner(permute(permute(iy + i1y) + ix + i1x), x0x + C0 - i1x, x0y + C0 - i1y) +
+    corner(permute(permute(iy + 1) + ix + 1), x0x + C2, x0y + C2)
+  );
+}
+
+export interface FieldParams {
+  weights: number[]; // Per FIELD_TYPES entry
+  fbm: THREE.Vector3;
+  warp: THREE.Vector2;
+  vortices: THREE.Vector3;
+  sinks: THREE.Vector3;
+  wind: THREE.Vector3;
+}
+
+// Adds curlNoise(q.xy, t, scale) * weight to out
+function addCurl(out: number[], qx: number, qy: number, t: number, scale: number, weight: number) {
+  const eps = 0.1;
+  const n1 = snoise(qx * scale, qy * scale + t);
+  const n2 = snoise((qx + eps) * scale, qy * scale + t);
+  const n3 = snoise(qx * scale, (qy + eps) * scale + t);
+  out[0] += ((n3 - n1) / eps) * weight;
+  out[1] -= ((n2 - n1) / eps) * weight;
+}
+
+const scratch = [0, 0, 0];
+
+function addFbm(out: number[], qx: number, qy: number, t: number, scale: number, weight: number, fbm: THREE.Vector3) {
+  let amplitude = 1;
+  let total = 0;
+  const start = [out[0], out[1]];
+  for (let i = 0; i < Math.min(fbm.x, 6); i++) {
+    const frequency = Math.pow(fbm.y, i);
+    addCurl(out, qx + i * 37, qy + i * 37, t * frequency, scale * frequency, (amplitude / frequency) * weight);
+    total += amplitude;
+    amplitude *= fbm.z;
+  }
+  const norm = 1 / Math.max(total, 0.001);
+  out[0] = start[0] + (out[0] - start[0]) * norm;
+  out[1] = start[1] + (out[1] - start[1]) * norm;
+}
+
+function addWarp(out: number[], qx: number, qy: number, t: number, scale: number, weight: number, warp: THREE.Vector2) {
+  scratch[0] = 0;
+  scratch[1] = 0;
+  addCurl(scratch, qx + 91, qy + 91, t * 0.5, warp.y, 1 / (warp.y * 2));
+  addCurl(out, qx + scratch[0] * warp.x, qy + scratch[1] * warp.x, t, scale, weight);
+}
+
+function fieldPoint(i: number, count: number, t: number): [number, number] {
+  const a = (i / count) * 6.28318 + t * 0.1;
+  return [Math.cos(a) * 300, Math.sin(a) * 300];
+}
+
+function addVortices(out: number[], qx: number, qy: number, t: number, weight: number, vortices: THREE.Vector3) {
+  const count = Math.min(vortices.x, MAX_FIELD_POINTS);
+  const scale = vortices.z * FIELD_UNIT * weight;
+  for (let i = 0; i < count; i++) {
+    const [fx, fy] = fieldPoint(i, vortices.x, t);
+    const dx = qx - fx;
+    const dy = qy - fy;
+    const falloff = Math.exp(-(dx * dx + dy * dy) / (vortices.y * vortices.y));
+    const spin = i % 2 === 0 ? 1 : -1;
+    const length = Math.max(Math.hypot(dx, dy), 1);
+    out[0] += (-dy / length) * falloff * spin * scale;
+    out[1] += (dx / length) * falloff * spin * scale;
+  }
+}
+
+function addSinks(out: number[], qx: number, qy: number, qz: number, t: number, weight: number, sinks: THREE.Vector3) {
+  const count = Math.min(sinks.x, MAX_FIELD_POINTS);
+  const scale = sinks.z * FIELD_UNIT * weight;
+  for (let i = 0; i < count; i++) {
+    const [fx, fy] = fieldPoint(i, sinks.x, -t);
+    const dx = fx - qx;
+    const dy = fy - qy;
+    const dz = -qz;
+    const distanceSq = dx * dx + dy * dy + dz * dz;
+    const falloff = Math.exp(-distanceSq / (sinks.y * sinks.y));
+    const polarity = i % 2 === 0 ? 1 : -1;
+    const length = Math.max(Math.sqrt(distanceSq), 1);
+    out[0] += (dx / length) * falloff * polarity * scale;
+    out[1] += (dy / length) * falloff * polarity * scale;
+    out[2] += (dz / length) * falloff * polarity * scale;
+  }
+}
+
+function addWind(out: number[], qx: number, qy: number, t: number, weight: number, wind: THREE.Vector3) {
+  scratch[0] = 0;
+  scratch[1] = 0;
+  addCurl(scratch, qx, qy, t * 2, 0.002, 1);
+  const gust = 1 + (wind.z * Math.hypot(scratch[0], scratch[1])) / 0.004;
+  const strength = wind.y * gust * FIELD_UNIT * weight;
+  out[0] += Math.cos(wind.x) * strength;
+  out[1] += Math.sin(wind.x) * strength;
+}
+
+// Port of sampleField: writes the blended flow at q into out
+function sampleField(out: number[], qx: number, qy: number, qz: number, t: number, scale: number, field: FieldParams) {
+  const w = field.weights;
+  out[0] = 0;
+  out[1] = 0;
+  out[2] = 0;
+  const curlWeight = w[0] + (w[6] ?? 0); // Custom GLSL runs as curl here
+  if (curlWeight > 0.001) addCurl(out, qx, qy, t, scale, curlWeight);
+  if (w[1] > 0.001) addFbm(out, qx, qy, t, scale, w[1], field.fbm);
+  if (w[2] > 0.001) addWarp(out, qx, qy, t, scale, w[2], field.warp);
+  if (w[3] > 0.001) addVortices(out, qx, qy, t, w[3], field.vortices);
+  if (w[4] > 0.001) addSinks(out, qx, qy, qz, t, w[4], field.sinks);
+  if (w[5] > 0.001) addWind(out, qx, qy, t, w[5], field.wind);
+}
+
+type Uniforms = Record<string, THREE.IUniform>;
+
+// GLSL mod: the result takes the sign of the divisor
+const glslMod = (x: number, y: number) => x - y * Math.floor(x / y);
+
+/**
+ * The particle simulation on Float32Arrays, for GPUs that cannot render to
+ * float textures (and for running without a GPU at all). It reads the same
+ * uniforms the compute shaders do and keeps its state in the same RGBA
+ * layout, uploaded to data textures for the particle shader to read.
+ * Respawn randomness comes from a seeded stream rather than the shader's
+ * hash, so runs are reproducible but differ from the GPU's.
+ */
+export class CpuSimulation {
+  readonly position: Float32Array; // xyz, life
+  readonly positionTexture: THREE.DataTexture;
+  readonly velocityTexture: THREE.DataTexture;
+
+  private velocity: Float32Array; // xyz, unused
+  private nextVelocity: Float32Array;
+  private random: () => number;
+  private flow = [0, 0, 0];
+  private point = [0, 0, 0];
+  private grid: Float32Array | null = null; // Flocking density grid: summed velocity xyz, density
+  private cell = [0, 0, 0, 0];
+
+  constructor(readonly textureSize: number, initialPosition: Float32Array, seed: number) {
+    const length = textureSize * textureSize * 4;
+    this.position = new Float32Array(initialPosition);
+    this.velocity = new Float32Array(length);
+    this.nextVelocity = new Float32Array(length);
+    this.random = createRandom(seed ^ 0x9e3779b9);
+    this.positionTexture = this.createTexture(this.position);
+    this.velocityTexture = this.createTexture(this.velocity);
+  }
+
+  /**
+   * One fixed step. Like the GPU passes, both velocity and position are
+   * computed from the previous step's state. Only the first `drawCount`
+   * particles are drawn, so only they feed the flocking grid.
+   */
+  step(velUniforms: Uniforms, posUniforms: Uniforms, spawn: Float32Array, mode3D: boolean, drawCount: number) {
+    const u = (name: string) => velUniforms[name].value;
+    const dt: number = u('uDelta');
+    const bounds: THREE.Vector3 = u('uBounds');
+    const boundsMode: number = u('uBoundsMode');
+    const field: FieldParams = {
+      weights: u('uFieldWeights'),
+      fbm: u('uFbm'),
+      warp: u('uWarp'),
+      vortices: u('uVortices'),
+      sinks: u('uSinks'),
+      wind: u('uWind'),
+    };
+
+    const timeStep = u('time') * (0.2 + u('uTimeWarp'));
+    const noiseScale = 0.003 + u('uNoiseScale') * u('uNoiseDetail') * 0.02;
+    const speed = u('uFlowSpeed') * (1 + u('uSpeedMod')) * u('uBeatPulse');
+    const flowGain = speed * (1 + u('uCurlInfluence'));
+    const rotation: number = u('uFieldRotation');
+    const cosR = Math.cos(rotation);
+    const sinR = Math.sin(rotation);
+    const mass: number = u('uMass');
+    const dragFactor = Math.exp(-u('uDrag') * dt / mass);
+    const burst: number = u('uBurst');
+    const reform = u('uReform') * 0.01;
+    const depth: number = u('uDepth');
+    const containStrength = u('uContainStrength') * 0.01;
+    const maxSpeed: number = u('uMaxSpeed');
+    const forceCount: number = u('uForceCount');
+    const forces: THREE.Vector4[] = u('uForces');
+    const forceParams: THREE.Vector4[] = u('uForceParams');
+    const lifeDecay = 0.003 * (1 + posUniforms.uLifeDecay.value) * dt;
+    const limit = boundsMode === 3 ? 2 : 1;
+    const gridSize: number = u('uDensityResolution');
+    const flock: THREE.Vector4 = u('uFlock');
+
+    const { position, velocity, nextVelocity, flow, point: p, cell, textureSize } = this;
+    const b = [bounds.x, bounds.y, bounds.z];
+    if (gridSize > 0) this.splat(gridSize, b, drawCount);
+
+    for (let i = 0; i < position.length; i += 4) {
+      const px = position[i];
+      const py = position[i + 1];
+      const pz = position[i + 2];
+      const life = position[i + 3];
+
+      // Velocity, as in velocityFragmentShader
+      const qx = cosR * px + sinR * py;
+      const qy = -sinR * px + cosR * py;
+      sampleField(flow, qx, qy, pz, timeStep, noiseScale, field);
+      const fx = (cosR * flow[0] - sinR * flow[1]) * flowGain;
+      const fy = (sinR * flow[0] + cosR * flow[1]) * flowGain;
+      const fz = flow[2] * flowGain;
+
+      let vx = fx;
+      let vy = fy;
+      let vz = fz;
+      if (life < 1) {
+        vx = fx + (velocity[i] - fx) * dragFactor;
+        vy = fy + (velocity[i + 1] - fy) * dragFactor;
+        vz = fz + (velocity[i + 2] - fz) * dragFactor;
+
+        const radial = mode3D ? Math.max(Math.hypot(px, py, pz), 1) : Math.max(Math.hypot(px, py), 1);
+        let ax = (px / radial) * burst;
+        let ay = (py / radial) * burst;
+        let az = mode3D ? (pz / radial) * burst : 0;
+
+        for (let f = 0; f < Math.min(forceCount, forces.length); f++) {
+          const dx = forces[f].x - px;
+          const dy = forces[f].y - py;
+          const dz = forces[f].z - pz;
+          const distance = Math.hypot(dx, dy, dz);
+          const radius = forceParams[f].x;
+          if (distance >= radius || distance < 0.001) continue;
+          const weight = forceParams[f].y * Math.pow(1 - distance / radius, forceParams[f].z);
+          const kind = forces[f].w;
+          if (kind < 1.5) {
+            const sign = kind < 0.5 ? 1 : -1;
+            ax += (dx / distance) * weight * sign;
+            ay += (dy / distance) * weight * sign;
+            az += (dz / distance) * weight * sign;
+          } else {
+            const tangent = Math.hypot(dx, dy);
+            if (tangent > 0.001) {
+              ax += (-dy / tangent) * weight;
+              ay += (dx / tangent) * weight;
+            }
+          }
+        }
+
+        // Flocking, as in flockForce
+        if (gridSize > 0) {
+          const cu = (px / b[0]) * 0.5 + 0.5;
+          const cv = (py / b[1]) * 0.5 + 0.5;
+          const density = (du: number, dv: number) => this.sampleGrid(gridSize, cu + du / gridSize, cv + dv / gridSize)[3];
+          const pressure = Math.max(this.sampleGrid(gridSize, cu, cv)[3] - flock.w, 0) * flock.y;
+          ax += (density(4, 0) - density(-4, 0)) * 0.5 * flock.x - (density(1, 0) - density(-1, 0)) * 0.5 * pressure;
+          ay += (density(0, 4) - density(0, -4)) * 0.5 * flock.x - (density(0, 1) - density(0, -1)) * 0.5 * pressure;
+          this.sampleGrid(gridSize, cu, cv);
+          if (cell[3] > 0.001) {
+            ax += (cell[0] / cell[3] - vx) * flock.z;
+            ay += (cell[1] / cell[3] - vy) * flock.z;
+            az += (cell[2] / cell[3] - vz) * flock.z;
+          }
+        }
+
+        ax += (spawn[i] - px) * reform;
+        ay += (spawn[i + 1] - py) * reform;
+        az += (spawn[i + 3] * depth - pz) * reform;
+
+        if (boundsMode === 3) {
+          ax -= Math.sign(px) * Math.max(Math.abs(px) - b[0], 0) * containStrength;
+          ay -= Math.sign(py) * Math.max(Math.abs(py) - b[1], 0) * containStrength;
+          az -= Math.sign(pz) * Math.max(Math.abs(pz) - b[2], 0) * containStrength;
+        }
+        vx += (ax * dt) / mass;
+        vy += (ay * dt) / mass;
+        vz += (az * dt) / mass;
+
+        if (boundsMode === 2) {
+          if (Math.abs(px) >= b[0] && px * vx >= 0) vx = -vx;
+          if (Math.abs(py) >= b[1] && py * vy >= 0) vy = -vy;
+          if (Math.abs(pz) >= b[2] && pz * vz >= 0) vz = -vz;
+        }
+
+        const length = Math.hypot(vx, vy, vz);
+        if (length > maxSpeed) {
+          vx *= maxSpeed / length;
+          vy *= maxSpeed / length;
+          vz *= maxSpeed / length;
+        }
+      }
+      nextVelocity[i] = vx;
+      nextVelocity[i + 1] = vy;
+      nextVelocity[i + 2] = vz;
+
+      // Position, as in positionFragmentShader (with the previous velocity)
+      const moving = life < 1 ? dt : 0;
+      p[0] = px + velocity[i] * moving;
+      p[1] = py + velocity[i + 1] * moving;
+      p[2] = pz + velocity[i + 2] * moving;
+      let nextLife = life - lifeDecay;
+
+      let outOfBounds = false;
+      for (let axis = 0; axis < 3; axis++) {
+        if (boundsMode === 1) p[axis] = glslMod(p[axis] + b[axis], 2 * b[axis]) - b[axis];
+        else if (boundsMode === 2) p[axis] = Math.min(Math.max(p[axis], -b[axis]), b[axis]);
+        if (Math.abs(p[axis]) > b[axis] * limit + 0.001) outOfBounds = true;
+      }
+
+      if (outOfBounds || nextLife <= 0) {
+        const texel = (Math.floor(this.random() * textureSize) + Math.floor(this.random() * textureSize) * textureSize) * 4;
+        p[0] = spawn[texel];
+        p[1] = spawn[texel + 1];
+        p[2] = spawn[texel + 3] * depth;
+        nextLife = 1;
+      }
+
+      position[i] = p[0];
+      position[i + 1] = p[1];
+      position[i + 2] = p[2];
+      position[i + 3] = nextLife;
+    }
+
+    this.nextVelocity = velocity;
+    this.velocity = nextVelocity;
+    this.velocityTexture.image.data = nextVelocity;
+    this.positionTexture.needsUpdate = true;
+    this.velocityTexture.needsUpdate = true;
+  }
+
+  // Port of DensityGrid.splat: bins the particles by cell, weighted so the average cell holds 1
+  private splat(size: number, bounds: number[], count: number) {
+    const { position, velocity } = this;
+    if (this.grid?.length !== size * size * 4) this.grid = new Float32Array(size * size * 4);
+    const grid = this.grid;
+    grid.fill(0);
+    const end = Math.min(count * 4, position.length);
+    const weight = (size * size) / Math.max(end / 4, 1);
+    for (let i = 0; i < end; i += 4) {
+      const x = Math.floor(((position[i] / bounds[0]) * 0.5 + 0.5) * size);
+      const y = Math.floor(((position[i + 1] / bounds[1]) * 0.5 + 0.5) * size);
+      if (x < 0 || x >= size || y < 0 || y >= size) continue;
+      const index = (y * size + x) * 4;
+      grid[index] += velocity[i] * weight;
+      grid[index + 1] += velocity[i + 1] * weight;
+      grid[index + 2] += velocity[i + 2] * weight;
+      grid[index + 3] += weight;
+    }
+  }
+
+  // Bilinear lookup clamped to the edge cells, like the GPU grid's linear filtering
+  private sampleGrid(size: number, u: number, v: number): number[] {
+    const { grid, cell } = this;
+    const x = Math.min(Math.max(u * size - 0.5, 0), size - 1);
+    const y = Math.min(Math.max(v * size - 0.5, 0), size - 1);
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const x1 = Math.min(x0 + 1, size - 1);
+    const y1 = Math.min(y0 + 1, size - 1);
+    const tx = x - x0;
+    const ty = y - y0;
+    for (let c = 0; c < 4; c++) {
+      const top = grid![(y0 * size + x0) * 4 + c] * (1 - tx) + grid![(y0 * size + x1) * 4 + c] * tx;
+      const bottom = grid![(y1 * size + x0) * 4 + c] * (1 - tx) + grid![(y1 * size + x1) * 4 + c] * tx;
+      cell[c] = top * (1 - ty) + bottom * ty;
+    }
+    return cell;
+  }
+
+  dispose() {
+    this.positionTexture.dispose();
+    this.velocityTexture.dispose();
+  }
+
+  private createTexture(data: Float32Array) {
+    const texture = new THREE.DataTexture(data, this.textureSize, this.textureSize, THREE.RGBAFormat, THREE.FloatType);
+    texture.needsUpdate = true;
+    return texture;
+  }
+}
@@ -0,0 +1,12 @@
+import simplexNoise3D from 'glsl-noise/simplex/3d.glsl?raw';
+import curlNoise from 'glsl-curl-noise/curl.glsl?raw';
+
+// glsl-curl-noise is written for glslify; without a glslify step we inline its
+// simplex dependency ourselves and drop the require/export pragmas.
+const stripPragmas = (source: string) => source.replace(/^#pragma glslify.*$/gm, '');
+
+// Provides snoise(vec3), snoiseVec3(vec3) and curlNoise(vec3) (unit length)
+export const curlNoise3DChunk = `
+${stripPragmas(simplexNoise3D)}
+${stripPragmas(curlNoise)}
+`;
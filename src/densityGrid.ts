@@ -0,0 +1,106 @@
+import * as THREE from 'three';
+
+// Cells per side of the grid, offered in the Flocking panel
+export const GRID_SIZES = [32, 64, 128, 256];
+
+// --- SHADERS ---
+
+// Every particle adds its velocity and a unit of density to the cell under it,
+// with the grid stretched over the bounds' xy extent
+const splatVertexShader = `
+  uniform sampler2D uTexturePosition;
+  uniform sampler2D uTextureVelocity;
+  uniform vec3 uBounds;
+
+  attribute vec2 reference;
+
+  varying vec3 vVelocity;
+
+  void main() {
+    vec3 p = texture2D(uTexturePosition, reference).xyz;
+    vVelocity = texture2D(uTextureVelocity, reference).xyz;
+    gl_Position = vec4(p.xy / uBounds.xy, 0.0, 1.0);
+    gl_PointSize = 1.0;
+  }
+`;
+
+// Weighted so the average cell holds 1, whatever the count and resolution
+const splatFragmentShader = `
+  uniform float uWeight;
+
+  varying vec3 vVelocity;
+
+  void main() {
+    gl_FragColor = vec4(vVelocity, 1.0) * uWeight;
+  }
+`;
+
+/**
+ * A coarse grid of particle density and summed velocity (rgb velocity, a
+ * density), splatted from the simulation textures before each step so the
+ * velocity pass can steer particles by their neighbours. Linear filtering
+ * smooths the cells when the velocity pass samples them.
+ */
+export class DensityGrid {
+  readonly target: THREE.WebGLRenderTarget;
+
+  private scene = new THREE.Scene();
+  private camera = new THREE.Camera(); // Unused: the splat shader places points itself
+  private material: THREE.ShaderMaterial;
+  private clearColor = new THREE.Color();
+
+  // The geometry is the particles' own reference geometry, owned by the caller
+  constructor(readonly size: number, geometry: THREE.BufferGeometry, type: THREE.TextureDataType) {
+    this.target = new THREE.WebGLRenderTarget(size, size, {
+      type,
+      minFilter: THREE.LinearFilter,
+      magFilter: THREE.LinearFilter,
+      depthBuffer: false,
+    });
+    this.material = new THREE.ShaderMaterial({
+      vertexShader: splatVertexShader,
+      fragmentShader: splatFragmentShader,
+      uniforms: {
+        uTexturePosition: { value: null },
+        uTextureVelocity: { value: null },
+        uBounds: { value: new THREE.Vector3(1, 1, 1) },
+        uWeight: { value: 1 },
+      },
+      // Premultiplied additive blending sums every channel unscaled
+      blending: THREE.AdditiveBlending,
+      premultipliedAlpha: true,
+      depthTest: false,
+      depthWrite: false,
+    });
+    const points = new THREE.Points(geometry, this.material);
+    points.frustumCulled = false;
+    this.scene.add(points);
+  }
+
+  get texture(): THREE.Texture {
+    return this.target.texture;
+  }
+
+  splat(gl: THREE.WebGLRenderer, position: THREE.Texture, velocity: THREE.Texture, bounds: THREE.Vector3, count: number) {
+    const uniforms = this.material.uniforms;
+    uniforms.uTexturePosition.value = position;
+    uniforms.uTextureVelocity.value = velocity;
+    uniforms.uBounds.value.copy(bounds);
+    uniforms.uWeight.value = (this.size * this.size) / Math.max(count, 1);
+
+    const previousTarget = gl.getRenderTarget();
+    gl.getClearColor(this.clearColor);
+    const clearAlpha = gl.getClearAlpha();
+    gl.setRenderTarget(this.target);
+    gl.setClearColor(0x000000, 0);
+    gl.clear(true, false, false);
+    gl.render(this.scene, this.camera);
+    gl.setClearColor(this.clearColor, clearAlpha);
+    gl.setRenderTarget(previousTarget);
+  }
+
+  dispose() {
+    this.material.dispose();
+    this.target.dispose();
+  }
+}
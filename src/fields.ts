@@ -0,0 +1,210 @@
+import { curlNoise2DChunk } from './curlNoise2D';
+import { curlNoise3DChunk } from './curlNoise3D';
+
+export type FieldType = 'curl' | 'fbm' | 'warp' | 'vortices' | 'sinks' | 'wind' | 'custom';
+
+// Order matches the shader's field indices
+export const FIELD_TYPES: { value: FieldType; label: string }[] = [
+  { value: 'curl', label: 'Curl Noise' },
+  { value: 'fbm', label: 'fBm Curl' },
+  { value: 'warp', label: 'Domain Warp' },
+  { value: 'vortices', label: 'Vortices' },
+  { value: 'sinks', label: 'Sinks / Sources' },
+  { value: 'wind', label: 'Wind' },
+  { value: 'custom', label: 'Custom GLSL' },
+];
+
+export const isFieldType = (value: unknown): value is FieldType =>
+  FIELD_TYPES.some(type => type.value === value);
+
+export const MAX_FIELD_POINTS = 8; // Vortices and sinks/sources
+
+export const DEFAULT_CUSTOM_FIELD = `// p: position (world units), t: field time
+// Return a flow direction; length 1 is about as fast as curl noise.
+// snoise() takes a vec2 in 2D and a vec3 in 3D (#ifdef MODE_3D)
+float a = sin(p.x * 0.004 + t) + cos(p.y * 0.005 - t * 0.7);
+return vec3(cos(a * 3.0), sin(a * 3.0), 0.0);`;
+
+/**
+ * Velocity shader code for every field type, blended by uFieldWeights.
+ * Expects the 2D or 3D noise chunk (per MODE_3D) to be included first.
+ * sampleField returns a gradient-scaled flow like curlNoise does.
+ */
+export function fieldChunk(customCode: string): string {
+  return `
+  uniform float uFieldWeights[${FIELD_TYPES.length}];
+  uniform vec3 uFbm;      // octaves, lacunarity, gain
+  uniform vec2 uWarp;     // amount (world units), scale
+  uniform vec3 uVortices; // count, radius, spin
+  uniform vec3 uSinks;    // count, radius, strength (negative for sources first)
+  uniform vec3 uWind;     // direction (radians), strength, gust
+
+  // Typical curl magnitude at the base noise scale; analytic fields are scaled to match
+  const float FIELD_UNIT = 0.006;
+
+  vec3 curlAt(vec3 q, float t, float scale) {
+#ifdef MODE_3D
+    // 3D curl is unit length; scale it like the 2D gradient (chain rule on p * noiseScale)
+    return curlNoise(q * scale + vec3(0.0, t, 0.0)) * scale * 2.0;
+#else
+    return vec3(curlNoise(q.xy, t, scale), 0.0);
+#endif
+  }
+
+  vec3 fbmField(vec3 q, float t, float scale) {
+    vec3 sum = vec3(0.0);
+    float amplitude = 1.0;
+    float total = 0.0;
+    for (int i = 0; i < 6; i++) {
+      if (float(i) >= uFbm.x) break;
+      // Gradients grow with frequency, so each octave is scaled back down
+      float frequency = pow(uFbm.y, float(i));
+      sum += curlAt(q + float(i) * 37.0, t * frequency, scale * frequency) * amplitude / frequency;
+      total += amplitude;
+      amplitude *= uFbm.z;
+    }
+    return sum / max(total, 0.001);
+  }
+
+  vec3 warpField(vec3 q, float t, float scale) {
+    // Displace the lookup by a slower, larger field of its own
+    vec3 offset = curlAt(q + 91.0, t * 0.5, uWarp.y) / (uWarp.y * 2.0);
+    return curlAt(q + offset * uWarp.x, t, scale);
+  }
+
+  // Field points circle the origin slowly
+  vec3 fieldPoint(int i, float count, float t) {
+    float a = float(i) / count * 6.28318 + t * 0.1;
+    return vec3(cos(a), sin(a), 0.0) * 300.0;
+  }
+
+  vec3 vortexField(vec3 q, float t) {
+    vec3 sum = vec3(0.0);
+    for (int i = 0; i < ${MAX_FIELD_POINTS}; i++) {
+      if (float(i) >= uVortices.x) break;
+      vec3 d = q - fieldPoint(i, uVortices.x, t);
+      float falloff = exp(-dot(d.xy, d.xy) / (uVortices.y * uVortices.y));
+      // Neighbours turn opposite ways, which shears the flow between them
+      float spin = mod(float(i), 2.0) < 0.5 ? 1.0 : -1.0;
+      sum += vec3(-d.y, d.x, 0.0) / max(length(d.xy), 1.0) * falloff * spin;
+    }
+    return sum * uVortices.z * FIELD_UNIT;
+  }
+
+  vec3 sinkField(vec3 q, float t) {
+    vec3 sum = vec3(0.0);
+    for (int i = 0; i < ${MAX_FIELD_POINTS}; i++) {
+      if (float(i) >= uSinks.x) break;
+      vec3 d = fieldPoint(i, uSinks.x, -t) - q;
+      float falloff = exp(-dot(d, d) / (uSinks.y * uSinks.y));
+      float polarity = mod(float(i), 2.0) < 0.5 ? 1.0 : -1.0; // Sinks and sources alternate
+      sum += d / max(length(d), 1.0) * falloff * polarity;
+    }
+    return sum * uSinks.z * FIELD_UNIT;
+  }
+
+  vec3 windField(vec3 q, float t) {
+    // Gusts roll through as slow noise along the wind direction
+    vec3 dir = vec3(cos(uWind.x), sin(uWind.x), 0.0);
+    float gust = 1.0 + uWind.z * length(curlAt(q, t * 2.0, 0.002)) / 0.004;
+    return dir * uWind.y * gust * FIELD_UNIT;
+  }
+
+  vec3 customField(vec3 p, float t) {
+${customCode}
+  }
+
+  vec3 sampleField(vec3 q, float t, float scale) {
+    vec3 flow = vec3(0.0);
+    if (uFieldWeights[0] > 0.001) flow += curlAt(q, t, scale) * uFieldWeights[0];
+    if (uFieldWeights[1] > 0.001) flow += fbmField(q, t, scale) * uFieldWeights[1];
+    if (uFieldWeights[2] > 0.001) flow += warpField(q, t, scale) * uFieldWeights[2];
+    if (uFieldWeights[3] > 0.001) flow += vortexField(q, t) * uFieldWeights[3];
+    if (uFieldWeights[4] > 0.001) flow += sinkField(q, t) * uFieldWeights[4];
+    if (uFieldWeights[5] > 0.001) flow += windField(q, t) * uFieldWeights[5];
+    if (uFieldWeights[6] > 0.001) flow += customField(q, t) * FIELD_UNIT * uFieldWeights[6];
+    return flow;
+  }
+`;
+}
+
+function compileErrors(gl: WebGLRenderingContext | WebGL2RenderingContext, source: string): string | null {
+  const shader = gl.createShader(gl.FRAGMENT_SHADER);
+  if (!shader) return null; // Context lost; nothing to validate against
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  const ok = gl.getShaderParameter(shader, gl.COMPILE_STATUS);
+  const log = gl.getShaderInfoLog(shader);
+  gl.deleteShader(shader);
+  return ok ? null : log?.trim() || 'Compile failed';
+}
+
+// The defines three prepends to GLSL1-style shaders on WebGL2, so snippets
+// using texture2D or gl_FragColor compile here as they will in the simulation
+const WEBGL2_FRAGMENT_PREFIX = [
+  '#version 300 es',
+  '#define varying in',
+  'layout(location = 0) out highp vec4 pc_fragColor;',
+  '#define gl_FragColor pc_fragColor',
+  '#define gl_FragDepthEXT gl_FragDepth',
+  '#define texture2D texture',
+  '#define textureCube texture',
+  '#define texture2DProj textureProj',
+  '#define texture2DLodEXT textureLod',
+  '#define texture2DProjLodEXT textureProjLod',
+  '#define textureCubeLodEXT textureLod',
+  '#define texture2DGradEXT textureGrad',
+  '#define texture2DProjGradEXT textureProjGrad',
+  '#define textureCubeGradEXT textureGrad',
+].join('\n');
+
+/**
+ * Compiles a custom field snippet on its own, in both 2D and 3D mode, before
+ * it is swapped into the simulation. Returns the first compiler error, if any.
+ */
+export function validateFieldCode(gl: WebGLRenderingContext | WebGL2RenderingContext, code: string): string | null {
+  const webgl2 = typeof WebGL2RenderingContext !== 'undefined' && gl instanceof WebGL2RenderingContext;
+  for (const mode3D of [false, true]) {
+    const source = [
+      webgl2 ? WEBGL2_FRAGMENT_PREFIX : '',
+      'precision highp float;',
+      mode3D ? '#define MODE_3D' : '',
+      mode3D ? curlNoise3DChunk : curlNoise2DChunk,
+      fieldChunk(code),
+      'void main() { gl_FragColor = vec4(sampleField(vec3(gl_FragCoord.xy, 0.0), 0.0, 0.003), 1.0); }',
+    ].join('\n');
+    const error = compileErrors(gl, source);
+    if (error) {
+      // Only the first message; line numbers refer to the generated source
+      return `${mode3D ? '3D' : '2D'}: ${error.split('\n')[0]}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Crossfades between field types: the primary and the optional secondary
+ * each ease toward their new type over the fade time, and `mix` blends the two.
+ * Switching mid-fade continues from wherever the weights are.
+ */
+export class FieldBlender {
+  readonly weights: number[] = FIELD_TYPES.map(() => 0);
+
+  private primary: number[] = FIELD_TYPES.map((_, i) => (i === 0 ? 1 : 0));
+  private secondary: number[] = FIELD_TYPES.map((_, i) => (i === 0 ? 1 : 0));
+
+  update(primary: FieldType, secondary: FieldType | null, mix: number, fadeTime: number, delta: number) {
+    const step = fadeTime > 0 ? delta / fadeTime : 1;
+    const t = secondary ? Math.min(Math.max(mix, 0), 1) : 0;
+    FIELD_TYPES.forEach(({ value }, i) => {
+      this.primary[i] = approach(this.primary[i], value === primary ? 1 : 0, step);
+      // With no secondary it shadows the primary, so adding one fades in from there
+      this.secondary[i] = approach(this.secondary[i], value === (secondary ?? primary) ? 1 : 0, step);
+      this.weights[i] = this.primary[i] * (1 - t) + this.secondary[i] * t;
+    });
+  }
+}
+
+function approach(value: number, target: number, step: number): number {
+  return value < target ? Math.min(value + step, target) : Math.max(value - step, target);
+}
@@ -0,0 +1,95 @@
+import * as THREE from 'three';
+
+export type ForceKind = 'attract' | 'repel' | 'vortex';
+
+export const FORCE_KINDS: { value: ForceKind; label: string }[] = [
+  { value: 'attract', label: 'Attract' },
+  { value: 'repel', label: 'Repel' },
+  { value: 'vortex', label: 'Vortex' },
+];
+
+export const isForceKind = (value: unknown): value is ForceKind =>
+  FORCE_KINDS.some(kind => kind.value === value);
+
+// Size of the uniform arrays in the velocity shader; pointers take the first slots
+export const MAX_FORCES = 16;
+
+export interface ForceShape {
+  radius: number; // World units; no effect beyond it
+  strength: number; // Acceleration at the center, in velocity units per 60Hz frame
+  falloff: number; // Exponent on (1 - distance / radius): 0 is flat, higher is more focused
+}
+
+// A persistent force placed in the scene
+export interface ForceEmitter extends ForceShape {
+  id: string;
+  kind: ForceKind;
+  position: [number, number, number];
+}
+
+export const DEFAULT_FORCE_SHAPE: ForceShape = { radius: 250, strength: 2, falloff: 1 };
+
+export function createEmitter(emitter: Partial<ForceEmitter> = {}): ForceEmitter {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    kind: 'attract',
+    position: [0, 0, 0],
+    ...DEFAULT_FORCE_SHAPE,
+    ...emitter,
+  };
+}
+
+interface PointerForce {
+  kind: ForceKind;
+  position: THREE.Vector3;
+}
+
+/**
+ * Collects the forces acting on the particles this frame: held pointers
+ * (one per touch) followed by the placed emitters, packed for the shader.
+ */
+export class ForceField {
+  emitters: ForceEmitter[] = [];
+  pointerShape: ForceShape = { ...DEFAULT_FORCE_SHAPE };
+
+  private pointers = new Map<number, PointerForce>();
+
+  setPointer(id: number, kind: ForceKind, position: THREE.Vector3) {
+    const pointer = this.pointers.get(id);
+    if (pointer) {
+      pointer.kind = kind;
+      pointer.position.copy(position);
+    } else {
+      this.pointers.set(id, { kind, position: position.clone() });
+    }
+  }
+
+  removePointer(id: number) {
+    this.pointers.delete(id);
+  }
+
+  clearPointers() {
+    this.pointers.clear();
+  }
+
+  /**
+   * Writes position + kind and radius/strength/falloff into the shader's
+   * arrays and returns how many slots are in use.
+   */
+  pack(positions: THREE.Vector4[], params: THREE.Vector4[]): number {
+    let count = 0;
+    const write = (kind: ForceKind, x: number, y: number, z: number, shape: ForceShape) => {
+      if (count >= MAX_FORCES || shape.radius <= 0 || shape.strength === 0) return;
+      positions[count].set(x, y, z, FORCE_KINDS.findIndex(k => k.value === kind));
+      params[count].set(shape.radius, shape.strength, Math.max(shape.falloff, 0), 0);
+      count++;
+    };
+    for (const { kind, position } of this.pointers.values()) {
+      write(kind, position.x, position.y, position.z, this.pointerShape);
+    }
+    for (const emitter of this.emitters) {
+      write(emitter.kind, ...emitter.position, emitter);
+    }
+    return count;
+  }
+}
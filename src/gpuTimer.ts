@@ -0,0 +1,63 @@
+const SMOOTHING = 0.1; // Weight of each new sample in the running average
+const MAX_PENDING = 4; // Queries in flight before measurements are skipped
+
+/**
+ * Measures GPU time spent between begin() and end() with
+ * EXT_disjoint_timer_query_webgl2. Results arrive a few frames late;
+ * `milliseconds` is a running average, or null where timer queries are
+ * unavailable (WebGL1, and most browsers other than desktop Chrome).
+ */
+export class GpuTimer {
+  milliseconds: number | null = null;
+
+  private context: WebGLRenderingContext | WebGL2RenderingContext | null = null;
+  private gl: WebGL2RenderingContext | null = null; // Set when timer queries are supported
+  private ext: { TIME_ELAPSED_EXT: number; GPU_DISJOINT_EXT: number } | null = null;
+  private pending: WebGLQuery[] = [];
+  private active: WebGLQuery | null = null;
+
+  begin(gl: WebGLRenderingContext | WebGL2RenderingContext) {
+    if (gl !== this.context) this.attach(gl);
+    const { ext } = this;
+    if (!this.gl || !ext || this.active) return;
+
+    this.poll();
+    if (this.pending.length >= MAX_PENDING) return;
+    this.active = this.gl.createQuery();
+    if (this.active) this.gl.beginQuery(ext.TIME_ELAPSED_EXT, this.active);
+  }
+
+  end() {
+    if (!this.gl || !this.ext || !this.active) return;
+    this.gl.endQuery(this.ext.TIME_ELAPSED_EXT);
+    this.pending.push(this.active);
+    this.active = null;
+  }
+
+  private attach(gl: WebGLRenderingContext | WebGL2RenderingContext) {
+    this.context = gl;
+    this.pending = [];
+    this.active = null;
+    this.milliseconds = null;
+    const webgl2 = typeof WebGL2RenderingContext !== 'undefined' && gl instanceof WebGL2RenderingContext;
+    this.ext = webgl2 ? gl.getExtension('EXT_disjoint_timer_query_webgl2') : null;
+    this.gl = webgl2 && this.ext ? gl : null;
+  }
+
+  private poll() {
+    const { gl, ext } = this;
+    if (!gl || !ext) return;
+    // A disjoint event (e.g. a GPU clock change) invalidates everything in flight
+    const disjoint = gl.getParameter(ext.GPU_DISJOINT_EXT);
+    while (this.pending.length > 0) {
+      const query = this.pending[0];
+      if (!disjoint && !gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE)) break;
+      this.pending.shift();
+      if (!disjoint) {
+        const ms = gl.getQueryParameter(query, gl.QUERY_RESULT) / 1e6;
+        this.milliseconds = this.milliseconds === null ? ms : this.milliseconds + (ms - this.milliseconds) * SMOOTHING;
+      }
+      gl.deleteQuery(query);
+    }
+  }
+}
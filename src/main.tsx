@@ -1,11 +1,13 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import ParticleFlowViz from './App';
+import OutputWindow from './OutputWindow';
+import { isOutputWindow } from './presentation';
 import './index.css';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <ParticleFlowViz />
+    {isOutputWindow() ? <OutputWindow /> : <ParticleFlowViz />}
   </React.StrictMode>
 );
 
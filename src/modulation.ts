@@ -0,0 +1,195 @@
+import { AudioAnalyzerData } from './audioFeatures';
+
+type ScalarSource = 'level' | 'bass' | 'mid' | 'treble' | 'transient' | 'rms' | 'peak' | 'centroid' | 'flux';
+
+// Plus one source per configurable analyzer band: band0, band1, ...
+export type ModSource = ScalarSource | `band${number}`;
+
+export const MOD_SOURCES: { value: ScalarSource; label: string }[] = [
+  { value: 'level', label: 'Level' },
+  { value: 'bass', label: 'Bass' },
+  { value: 'mid', label: 'Mid' },
+  { value: 'treble', label: 'Treble' },
+  { value: 'transient', label: 'Transient' },
+  { value: 'rms', label: 'RMS' },
+  { value: 'peak', label: 'Peak' },
+  { value: 'centroid', label: 'Brightness' },
+  { value: 'flux', label: 'Flux' },
+];
+
+const BAND_SOURCE = /^band(\d+)$/;
+
+export function isModSource(value: unknown): value is ModSource {
+  return typeof value === 'string' && (BAND_SOURCE.test(value) || MOD_SOURCES.some(source => source.value === value));
+}
+
+// Every source available with the analyzer's current band count
+export function modSources(bandCount: number): { value: ModSource; label: string }[] {
+  const bands = Array.from({ length: bandCount }, (_, i) => ({ value: `band${i}` as ModSource, label: `Band ${i + 1}` }));
+  return [...MOD_SOURCES, ...bands];
+}
+
+function readSource(audio: AudioAnalyzerData, source: ModSource): number {
+  const band = BAND_SOURCE.exec(source);
+  // Routes to bands beyond the current count read as silence
+  return band ? audio.bands[Number(band[1])] ?? 0 : audio[source as ScalarSource];
+}
+
+// Every target starts at 0 each frame; routes add to it and the consumer decides
+// how the sum applies (most scale their parameter by 1 + amount)
+export type ModTarget =
+  | 'timeWarp'
+  | 'noiseDetail'
+  | 'flowSpeed'
+  | 'curlInfluence'
+  | 'drag'
+  | 'burst'
+  | 'lifeDecay'
+  | 'particleSize'
+  | 'reform'
+  | 'fieldMix'
+  | 'cameraSpeed'
+  | 'bloom'
+  | 'chromatic'
+  | 'grain'
+  | 'vignette'
+  | 'kaleidoscope'
+  | 'feedback';
+
+export const MOD_TARGETS: { value: ModTarget; label: string }[] = [
+  { value: 'timeWarp', label: 'Time Warp' },
+  { value: 'noiseDetail', label: 'Noise Detail' },
+  { value: 'flowSpeed', label: 'Flow Speed' },
+  { value: 'curlInfluence', label: 'Curl Influence' },
+  { value: 'drag', label: 'Drag' },
+  { value: 'burst', label: 'Burst' },
+  { value: 'lifeDecay', label: 'Life Decay' },
+  { value: 'particleSize', label: 'Particle Size' },
+  { value: 'reform', label: 'Reform' },
+  { value: 'fieldMix', label: 'Field Mix' },
+  { value: 'cameraSpeed', label: 'Camera Speed' },
+  { value: 'bloom', label: 'Bloom' },
+  { value: 'chromatic', label: 'Chromatic Aberration' },
+  { value: 'grain', label: 'Film Grain' },
+  { value: 'vignette', label: 'Vignette' },
+  { value: 'kaleidoscope', label: 'Kaleidoscope' },
+  { value: 'feedback', label: 'Feedback Zoom' },
+];
+
+export type ModCurve = 'linear' | 'exponential' | 'logarithmic' | 'smooth';
+
+export const MOD_CURVES: { value: ModCurve; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'exponential', label: 'Exp' },
+  { value: 'logarithmic', label: 'Log' },
+  { value: 'smooth', label: 'S-Curve' },
+];
+
+export interface ModRoute {
+  id: string;
+  source: ModSource;
+  target: ModTarget;
+  depth: number;   // Amount added to the target at full input
+  curve: ModCurve; // Shapes the 0-1 input before depth is applied
+  attack: number;  // Seconds to rise toward a louder input
+  release: number; // Seconds to fall toward a quieter input
+  invert: boolean; // Use 1 - input, so silence drives the target
+}
+
+export type ModValues = Record<ModTarget, number>;
+
+const emptyValues = (): ModValues => ({
+  timeWarp: 0,
+  noiseDetail: 0,
+  flowSpeed: 0,
+  curlInfluence: 0,
+  drag: 0,
+  burst: 0,
+  lifeDecay: 0,
+  particleSize: 0,
+  reform: 0,
+  fieldMix: 0,
+  cameraSpeed: 0,
+  bloom: 0,
+  chromatic: 0,
+  grain: 0,
+  vignette: 0,
+  kaleidoscope: 0,
+  feedback: 0,
+});
+
+export function createRoute(route: Partial<ModRoute> = {}): ModRoute {
+  return {
+    id: `route-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    source: 'level',
+    target: 'flowSpeed',
+    depth: 1,
+    curve: 'linear',
+    attack: 0,
+    release: 0,
+    invert: false,
+    ...route,
+  };
+}
+
+// The audio reactivity that used to be hardcoded in the simulation shaders
+export const DEFAULT_ROUTES: ModRoute[] = [
+  createRoute({ id: 'default-time-warp', source: 'bass', target: 'timeWarp', depth: 0.5 }),
+  createRoute({ id: 'default-noise-detail', source: 'treble', target: 'noiseDetail', depth: 1 }),
+  createRoute({ id: 'default-flow-speed', source: 'level', target: 'flowSpeed', depth: 3 }),
+  createRoute({ id: 'default-life-decay', source: 'level', target: 'lifeDecay', depth: 1 }),
+  createRoute({ id: 'default-burst', source: 'transient', target: 'burst', depth: 1 }),
+  createRoute({ id: 'default-camera-level', source: 'level', target: 'cameraSpeed', depth: 1 }),
+  createRoute({ id: 'default-camera-transient', source: 'transient', target: 'cameraSpeed', depth: 2 }),
+];
+
+function applyCurve(x: number, curve: ModCurve): number {
+  switch (curve) {
+    case 'exponential': return x * x;
+    case 'logarithmic': return Math.sqrt(x);
+    case 'smooth': return x * x * (3 - 2 * x);
+    default: return x;
+  }
+}
+
+/**
+ * Evaluates modulation routes once per frame. Each route keeps its own
+ * attack/release envelope, so it must be stepped with the frame delta
+ * (fixed during offline renders, which keeps them reproducible).
+ */
+export class ModulationMatrix {
+  values: ModValues = emptyValues();
+  private envelopes = new Map<string, number>();
+
+  reset() {
+    this.values = emptyValues();
+    this.envelopes.clear();
+  }
+
+  update(routes: ModRoute[], audio: AudioAnalyzerData, delta: number) {
+    const values = emptyValues();
+
+    for (const route of routes) {
+      let x = Math.min(Math.max(readSource(audio, route.source), 0), 1);
+      if (route.invert) x = 1 - x;
+      x = applyCurve(x, route.curve);
+
+      // One-pole envelope follower; a time of 0 follows the input exactly
+      const previous = this.envelopes.get(route.id) ?? x;
+      const time = x > previous ? route.attack : route.release;
+      const envelope = time > 0 ? previous + (x - previous) * (1 - Math.exp(-delta / time)) : x;
+      this.envelopes.set(route.id, envelope);
+
+      values[route.target] += envelope * route.depth;
+    }
+
+    // Forget envelopes of removed routes
+    if (this.envelopes.size > routes.length) {
+      for (const id of this.envelopes.keys()) {
+        if (!routes.some(route => route.id === id)) this.envelopes.delete(id);
+      }
+    }
+
+    this.values = values;
+  }
+}
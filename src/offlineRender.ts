@@ -0,0 +1,325 @@
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+import { Zip, ZipPassThrough } from 'fflate';
+import { AudioAnalyzerData, AudioFeatureExtractor, AudioFeatureOptions } from './audioFeatures';
+import { TempoTracker } from './tempoTracker';
+
+export type OfflineRenderFormat = 'webm' | 'png-zip';
+
+export interface OfflineRenderSettings {
+  width: number;
+  height: number;
+  fps: number;
+  format: OfflineRenderFormat;
+}
+
+export interface OfflineRenderProgress {
+  stage: 'analyzing' | 'rendering' | 'finalizing';
+  frame: number;
+  totalFrames: number;
+}
+
+export const RENDER_RESOLUTIONS = [
+  { id: '720p', label: '720p', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: 'square', label: '1080 Square', width: 1080, height: 1080 },
+  { id: 'vertical', label: '1080 Vertical', width: 1080, height: 1920 },
+  { id: '4k', label: '4K', width: 3840, height: 2160 },
+];
+
+export const RENDER_FRAME_RATES = [24, 30, 60];
+
+// Same analyser configuration as live playback so renders match what was previewed
+const FFT_SIZE = 2048;
+const SMOOTHING_TIME_CONSTANT = 0.8;
+
+// Opus only runs at 48kHz, so decode straight to it
+const RENDER_SAMPLE_RATE = 48000;
+
+const VIDEO_BITS_PER_PIXEL = 0.2; // Per frame; generous because particles are noisy to encode
+const AUDIO_BITRATE = 192000;
+const MAX_ENCODE_QUEUE = 4;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+
+function abortError() {
+  return new DOMException('Render cancelled', 'AbortError');
+}
+
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Decodes the track and precomputes one set of audio features per video frame.
+ * An AnalyserNode inside an OfflineAudioContext is read at each frame time by
+ * suspending the context there, so the features match live analysis.
+ */
+export async function analyzeTrack(
+  file: File,
+  fps: number,
+  featureOptions: AudioFeatureOptions,
+  signal: AbortSignal,
+  onProgress?: (progress: OfflineRenderProgress) => void
+): Promise<{ buffer: AudioBuffer; frames: AudioAnalyzerData[] }> {
+  const bytes = await file.arrayBuffer();
+  const decodeContext = new OfflineAudioContext(1, 1, RENDER_SAMPLE_RATE);
+  const buffer = await decodeContext.decodeAudioData(bytes);
+
+  const context = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = SMOOTHING_TIME_CONSTANT;
+  source.connect(analyser);
+  analyser.connect(context.destination);
+
+  // A fresh tracker so the beat grid of a render never depends on live playback
+  const extractor = new AudioFeatureExtractor(buffer.sampleRate, FFT_SIZE, {
+    ...featureOptions,
+    tempoTracker: new TempoTracker(),
+    minDecibels: analyser.minDecibels,
+    maxDecibels: analyser.maxDecibels,
+  });
+
+  const totalFrames = Math.floor(buffer.duration * fps);
+  const frames: AudioAnalyzerData[] = new Array(totalFrames);
+  const spectrum = new Float32Array(analyser.frequencyBinCount);
+  const waveform = new Float32Array(analyser.fftSize);
+
+  let onAbort = () => {};
+  try {
+    await new Promise<void>((resolve, reject) => {
+      onAbort = () => reject(abortError());
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      for (let i = 0; i < totalFrames; i++) {
+        const time = i / fps;
+        context.suspend(time).then(() => {
+          analyser.getFloatFrequencyData(spectrum);
+          analyser.getFloatTimeDomainData(waveform);
+          frames[i] = extractor.process(spectrum, waveform, time);
+          if (i % fps === 0) onProgress?.({ stage: 'analyzing', frame: i, totalFrames });
+          // Leave the context suspended when cancelled; it is simply dropped
+          if (!signal.aborted) context.resume();
+        }, reject);
+      }
+
+      source.start(0);
+      context.startRendering().then(() => resolve(), reject);
+    });
+  } finally {
+    // Also when analysis fails, so the caller's signal doesn't keep this context alive
+    signal.removeEventListener('abort', onAbort);
+  }
+
+  return { buffer, frames };
+}
+
+interface FrameSink {
+  // Must capture the canvas synchronously before its first await
+  addFrame(canvas: HTMLCanvasElement, index: number): Promise<void>;
+  finish(): Promise<Blob>;
+}
+
+async function pickVideoCodec(settings: OfflineRenderSettings, bitrate: number) {
+  const candidates = [
+    { codec: 'vp09.00.40.08', muxerCodec: 'V_VP9' },
+    { codec: 'vp8', muxerCodec: 'V_VP8' },
+  ];
+  for (const candidate of candidates) {
+    const { supported } = await VideoEncoder.isConfigSupported({
+      codec: candidate.codec,
+      width: settings.width,
+      height: settings.height,
+      bitrate,
+      framerate: settings.fps,
+    });
+    if (supported) return candidate;
+  }
+  throw new Error('This browser cannot encode VP8/VP9 video at this resolution');
+}
+
+async function encodeAudioTrack(buffer: AudioBuffer, muxer: Muxer<ArrayBufferTarget>) {
+  let failure: unknown = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: (error) => { failure = error; },
+  });
+  encoder.configure({
+    codec: 'opus',
+    sampleRate: buffer.sampleRate,
+    numberOfChannels: buffer.numberOfChannels,
+    bitrate: AUDIO_BITRATE,
+  });
+
+  // Feed one second of planar samples at a time
+  const blockSize = buffer.sampleRate;
+  for (let offset = 0; offset < buffer.length; offset += blockSize) {
+    const frames = Math.min(blockSize, buffer.length - offset);
+    const planar = new Float32Array(frames * buffer.numberOfChannels);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      planar.set(buffer.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: buffer.numberOfChannels,
+      timestamp: Math.round((offset / buffer.sampleRate) * 1e6),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+}
+
+async function createWebMSink(settings: OfflineRenderSettings, audio: AudioBuffer): Promise<FrameSink> {
+  const bitrate = Math.round(settings.width * settings.height * settings.fps * VIDEO_BITS_PER_PIXEL);
+  const { codec, muxerCodec } = await pickVideoCodec(settings, bitrate);
+
+  const audioSupported = typeof AudioEncoder !== 'undefined' && (await AudioEncoder.isConfigSupported({
+    codec: 'opus',
+    sampleRate: audio.sampleRate,
+    numberOfChannels: audio.numberOfChannels,
+    bitrate: AUDIO_BITRATE,
+  })).supported;
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: muxerCodec, width: settings.width, height: settings.height, frameRate: settings.fps },
+    audio: audioSupported
+      ? { codec: 'A_OPUS', numberOfChannels: audio.numberOfChannels, sampleRate: audio.sampleRate }
+      : undefined,
+  });
+
+  let failure: unknown = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (error) => { failure = error; },
+  });
+  encoder.configure({ codec, width: settings.width, height: settings.height, bitrate, framerate: settings.fps });
+
+  const frameDuration = 1e6 / settings.fps;
+  const keyframeInterval = Math.round(settings.fps * KEYFRAME_INTERVAL_SECONDS);
+
+  return {
+    async addFrame(canvas, index) {
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(index * frameDuration), duration: Math.round(frameDuration) });
+      encoder.encode(frame, { keyFrame: index % keyframeInterval === 0 });
+      frame.close();
+
+      // Backpressure: never outrun the encoder, however slow it is
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) await nextTask();
+      if (failure) throw failure;
+    },
+
+    async finish() {
+      await encoder.flush();
+      encoder.close();
+      if (failure) throw failure;
+      if (audioSupported) await encodeAudioTrack(audio, muxer);
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: 'video/webm' });
+    },
+  };
+}
+
+function createPngZipSink(settings: OfflineRenderSettings): FrameSink {
+  const parts: Uint8Array[] = [];
+  let failure: unknown = null;
+  let done: (() => void) | null = null;
+
+  const zip = new Zip((error, data, final) => {
+    if (error) failure = error;
+    if (data) parts.push(data);
+    if (final) done?.();
+  });
+
+  // Copy each frame out of the WebGL canvas immediately; its buffer is cleared after the task
+  const scratch = document.createElement('canvas');
+  scratch.width = settings.width;
+  scratch.height = settings.height;
+  const context = scratch.getContext('2d')!;
+
+  return {
+    async addFrame(canvas, index) {
+      context.drawImage(canvas, 0, 0, settings.width, settings.height);
+      const blob = await new Promise<Blob | null>(resolve => scratch.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error(`Could not encode frame ${index}`);
+
+      // PNGs are already compressed; store them as-is
+      const entry = new ZipPassThrough(`frame_${String(index).padStart(6, '0')}.png`);
+      zip.add(entry);
+      entry.push(new Uint8Array(await blob.arrayBuffer()), true);
+      if (failure) throw failure;
+    },
+
+    async finish() {
+      const finished = new Promise<void>(resolve => { done = resolve; });
+      zip.end();
+      await finished;
+      if (failure) throw failure;
+      return new Blob(parts as BlobPart[], { type: 'application/zip' });
+    },
+  };
+}
+
+interface RenderOfflineOptions {
+  file: File;
+  settings: OfflineRenderSettings;
+  featureOptions: AudioFeatureOptions;
+  canvas: HTMLCanvasElement;
+  // Advances the simulation and renders frame `index` with the given features
+  step: (index: number, features: AudioAnalyzerData) => void;
+  signal: AbortSignal;
+  onProgress?: (progress: OfflineRenderProgress) => void;
+}
+
+/**
+ * Renders a whole track frame by frame at a fixed timestep. Every frame is
+ * captured regardless of how long it takes to draw, so output is identical on
+ * fast and slow machines.
+ */
+export async function renderOffline({
+  file,
+  settings,
+  featureOptions,
+  canvas,
+  step,
+  signal,
+  onProgress,
+}: RenderOfflineOptions): Promise<Blob> {
+  onProgress?.({ stage: 'analyzing', frame: 0, totalFrames: 0 });
+  const { buffer, frames } = await analyzeTrack(file, settings.fps, featureOptions, signal, onProgress);
+
+  const sink = settings.format === 'webm'
+    ? await createWebMSink(settings, buffer)
+    : createPngZipSink(settings);
+
+  for (let i = 0; i < frames.length; i++) {
+    if (signal.aborted) throw abortError();
+
+    step(i, frames[i]);
+    await sink.addFrame(canvas, i);
+
+    if (i % 10 === 0) {
+      onProgress?.({ stage: 'rendering', frame: i, totalFrames: frames.length });
+      await nextTask(); // Let the progress UI paint
+    }
+  }
+
+  onProgress?.({ stage: 'finalizing', frame: frames.length, totalFrames: frames.length });
+  return sink.finish();
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,166 @@
+import * as THREE from 'three';
+
+export interface PaletteStop {
+  position: number; // 0-1 along the gradient
+  color: string;    // CSS hex color
+}
+
+export interface Palette {
+  id: string;
+  name: string;
+  stops: PaletteStop[];
+  custom?: boolean;
+}
+
+// What drives the lookup position along the gradient
+export type ColorInput = 'life' | 'speed' | 'position' | 'level' | 'bass' | 'mid' | 'treble';
+
+export const COLOR_INPUTS: { value: ColorInput; label: string }[] = [
+  { value: 'life', label: 'Life' },
+  { value: 'speed', label: 'Speed' },
+  { value: 'position', label: 'Screen Position' },
+  { value: 'level', label: 'Audio Level' },
+  { value: 'bass', label: 'Bass' },
+  { value: 'mid', label: 'Mid' },
+  { value: 'treble', label: 'Treble' },
+];
+
+export const BUILT_IN_PALETTES: Palette[] = [
+  {
+    id: 'aurora',
+    name: 'Aurora',
+    stops: [
+      { position: 0.0, color: '#1a4de6' },
+      { position: 0.45, color: '#19d3a2' },
+      { position: 0.75, color: '#8f3cff' },
+      { position: 1.0, color: '#ff991a' },
+    ],
+  },
+  {
+    id: 'fire',
+    name: 'Fire',
+    stops: [
+      { position: 0.0, color: '#fff4c2' },
+      { position: 0.3, color: '#ffb21a' },
+      { position: 0.65, color: '#e6350f' },
+      { position: 1.0, color: '#3a0505' },
+    ],
+  },
+  {
+    id: 'ocean',
+    name: 'Ocean',
+    stops: [
+      { position: 0.0, color: '#d8fbff' },
+      { position: 0.35, color: '#2ec4e6' },
+      { position: 0.7, color: '#1456b8' },
+      { position: 1.0, color: '#061a4d' },
+    ],
+  },
+  {
+    id: 'rainbow',
+    name: 'Rainbow',
+    stops: [
+      { position: 0.0, color: '#ff2a2a' },
+      { position: 0.17, color: '#ff9a1a' },
+      { position: 0.33, color: '#f6f01f' },
+      { position: 0.5, color: '#2ee65c' },
+      { position: 0.67, color: '#1fb8ff' },
+      { position: 0.83, color: '#5a3cff' },
+      { position: 1.0, color: '#e63cff' },
+    ],
+  },
+];
+
+export const PALETTE_RESOLUTION = 256;
+const PALETTE_FADE_SECONDS = 1.2;
+
+const tmpA = new THREE.Color();
+const tmpB = new THREE.Color();
+
+// Rasterize a palette's stops into an RGBA byte ramp
+export function bakePalette(palette: Palette, out: Uint8Array, width = PALETTE_RESOLUTION) {
+  const stops = [...palette.stops].sort((a, b) => a.position - b.position);
+  if (stops.length === 0) {
+    out.fill(255);
+    return;
+  }
+
+  for (let i = 0; i < width; i++) {
+    const t = width > 1 ? i / (width - 1) : 0;
+
+    // Find the pair of stops surrounding t
+    let upper = stops.findIndex(stop => stop.position >= t);
+    if (upper === -1) upper = stops.length - 1;
+    const lower = Math.max(0, upper - 1);
+
+    const a = stops[lower];
+    const b = stops[upper];
+    const span = b.position - a.position;
+    const f = span > 0 ? THREE.MathUtils.clamp((t - a.position) / span, 0, 1) : 0;
+
+    tmpA.set(a.color).lerp(tmpB.set(b.color), f);
+    out[i * 4] = Math.round(tmpA.r * 255);
+    out[i * 4 + 1] = Math.round(tmpA.g * 255);
+    out[i * 4 + 2] = Math.round(tmpA.b * 255);
+    out[i * 4 + 3] = 255;
+  }
+}
+
+export function paletteToCss(palette: Palette): string {
+  const stops = [...palette.stops]
+    .sort((a, b) => a.position - b.position)
+    .map(stop => `${stop.color} ${(stop.position * 100).toFixed(0)}%`);
+  return `linear-gradient(to right, ${stops.join(', ')})`;
+}
+
+function createPaletteTexture(): THREE.DataTexture {
+  const data = new Uint8Array(PALETTE_RESOLUTION * 4);
+  const texture = new THREE.DataTexture(data, PALETTE_RESOLUTION, 1, THREE.RGBAFormat, THREE.UnsignedByteType);
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.wrapS = THREE.ClampToEdgeWrapping;
+  texture.wrapT = THREE.ClampToEdgeWrapping;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * Holds two gradient textures and crossfades from one to the other.
+ * Switching mid-fade bakes the current blend into the "from" ramp so
+ * the transition never jumps.
+ */
+export class PaletteBlender {
+  readonly from = createPaletteTexture();
+  readonly to = createPaletteTexture();
+  blend = 1;
+
+  constructor(initial: Palette) {
+    bakePalette(initial, this.to.image.data as Uint8Array);
+    this.from.image.data!.set(this.to.image.data as Uint8Array);
+    this.from.needsUpdate = true;
+    this.to.needsUpdate = true;
+  }
+
+  setPalette(palette: Palette) {
+    const fromData = this.from.image.data as Uint8Array;
+    const toData = this.to.image.data as Uint8Array;
+    for (let i = 0; i < fromData.length; i++) {
+      fromData[i] = Math.round(fromData[i] + (toData[i] - fromData[i]) * this.blend);
+    }
+    bakePalette(palette, toData);
+    this.blend = 0;
+    this.from.needsUpdate = true;
+    this.to.needsUpdate = true;
+  }
+
+  update(delta: number) {
+    if (this.blend < 1) {
+      this.blend = Math.min(1, this.blend + delta / PALETTE_FADE_SECONDS);
+    }
+  }
+
+  dispose() {
+    this.from.dispose();
+    this.to.dispose();
+  }
+}
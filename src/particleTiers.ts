@@ -0,0 +1,39 @@
+export interface ParticleTier {
+  id: string;
+  label: string;
+  textureSize: number; // Compute textures are textureSize x textureSize
+}
+
+// Every tier fills its compute texture exactly, so no texels are simulated for nothing
+export const PARTICLE_TIERS: ParticleTier[] = [
+  { id: '16k', label: '16K', textureSize: 128 },
+  { id: '65k', label: '65K', textureSize: 256 },
+  { id: '100k', label: '100K', textureSize: 316 },
+  { id: '262k', label: '262K', textureSize: 512 },
+  { id: '524k', label: '524K', textureSize: 724 },
+  { id: '1m', label: '1M', textureSize: 1024 },
+  { id: '2m', label: '2M', textureSize: 1448 },
+];
+
+export const DEFAULT_TIER_ID = '100k';
+
+export function tierParticleCount(tier: ParticleTier): number {
+  return tier.textureSize * tier.textureSize;
+}
+
+// Smallest square compute texture that holds `count` particles
+export function textureSizeForCount(count: number): number {
+  return Math.max(1, Math.ceil(Math.sqrt(count)));
+}
+
+export function getTier(id: string): ParticleTier {
+  return PARTICLE_TIERS.find(tier => tier.id === id) ?? PARTICLE_TIERS.find(tier => tier.id === DEFAULT_TIER_ID)!;
+}
+
+// Neighbouring tier in the given direction, clamped to the list and the GPU's texture limit
+export function stepTier(id: string, direction: 1 | -1, maxTextureSize = Infinity): ParticleTier {
+  const index = PARTICLE_TIERS.indexOf(getTier(id));
+  let next = Math.min(PARTICLE_TIERS.length - 1, Math.max(0, index + direction));
+  while (next > 0 && PARTICLE_TIERS[next].textureSize > maxTextureSize) next--;
+  return PARTICLE_TIERS[next];
+}
@@ -0,0 +1,422 @@
+import * as THREE from 'three';
+import { FullScreenQuad } from 'three/examples/jsm/postprocessing/Pass.js';
+import { ModValues } from './modulation';
+import { PostEffect, modulatedAmount, postEffectInfo } from './postEffects';
+
+export type ToneMapping = 'none' | 'reinhard' | 'aces' | 'hable';
+
+export const TONE_MAPPINGS: { value: ToneMapping; label: string }[] = [
+  { value: 'none', label: 'None (clip)' },
+  { value: 'reinhard', label: 'Reinhard' },
+  { value: 'aces', label: 'ACES' },
+  { value: 'hable', label: 'Filmic (Hable)' },
+];
+
+const MAX_BLOOM_LEVELS = 6;
+
+// --- SHADERS ---
+
+const fullscreenVertexShader = `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+// Soft threshold: a quadratic knee below the threshold instead of a hard cut
+const bloomPrefilterShader = `
+  uniform sampler2D uTexture;
+  uniform float uThreshold;
+  uniform float uKnee;
+
+  varying vec2 vUv;
+
+  void main() {
+    vec3 color = texture2D(uTexture, vUv).rgb;
+    float brightness = max(color.r, max(color.g, color.b));
+    float knee = uThreshold * uKnee + 1e-5;
+    float soft = clamp(brightness - uThreshold + knee, 0.0, 2.0 * knee);
+    soft = soft * soft / (4.0 * knee);
+    float contribution = max(soft, brightness - uThreshold) / max(brightness, 1e-5);
+    gl_FragColor = vec4(color * contribution, 1.0);
+  }
+`;
+
+// Dual filter blur: four bilinear taps per level on the way down, and on the way up
+const bloomSampleShader = `
+  uniform sampler2D uTexture;
+  uniform vec2 uTexelSize; // Of uTexture
+
+  varying vec2 vUv;
+
+  void main() {
+    vec2 o = uTexelSize;
+    vec3 color = texture2D(uTexture, vUv + vec2(-o.x, -o.y)).rgb
+               + texture2D(uTexture, vUv + vec2(o.x, -o.y)).rgb
+               + texture2D(uTexture, vUv + vec2(-o.x, o.y)).rgb
+               + texture2D(uTexture, vUv + vec2(o.x, o.y)).rgb;
+    gl_FragColor = vec4(color * 0.25, 1.0);
+  }
+`;
+
+const bloomCompositeShader = `
+  uniform sampler2D uTexture;
+  uniform sampler2D uBloom;
+  uniform float uAmount;
+
+  varying vec2 vUv;
+
+  void main() {
+    vec3 color = texture2D(uTexture, vUv).rgb + texture2D(uBloom, vUv).rgb * uAmount;
+    gl_FragColor = vec4(color, 1.0);
+  }
+`;
+
+// Red and blue pulled apart radially, growing toward the corners
+const chromaticShader = `
+  uniform sampler2D uTexture;
+  uniform vec2 uResolution;
+  uniform float uAmount; // Pixels at the corners
+  uniform float uFalloff;
+
+  varying vec2 vUv;
+
+  void main() {
+    vec2 fromCenter = vUv - 0.5;
+    float strength = pow(min(length(fromCenter) * 1.4142, 1.0), uFalloff);
+    vec2 offset = normalize(fromCenter + 1e-6) * strength * uAmount / uResolution;
+    gl_FragColor = vec4(
+      texture2D(uTexture, vUv + offset).r,
+      texture2D(uTexture, vUv).g,
+      texture2D(uTexture, vUv - offset).b,
+      1.0
+    );
+  }
+`;
+
+const grainShader = `
+  uniform sampler2D uTexture;
+  uniform float uAmount;
+  uniform float uSize; // Grain size in pixels
+  uniform float uTime;
+
+  varying vec2 vUv;
+
+  float hash(vec3 p) {
+    p = fract(p * 0.1031);
+    p += dot(p, p.zyx + 31.32);
+    return fract((p.x + p.y) * p.z);
+  }
+
+  void main() {
+    vec3 color = texture2D(uTexture, vUv).rgb;
+    // A new pattern every frame at 24 fps, like film
+    float noise = hash(vec3(floor(gl_FragCoord.xy / uSize), floor(uTime * 24.0))) - 0.5;
+    // Mostly multiplicative, with a little in the blacks so they are not dead flat
+    color = max(color * (1.0 + noise * 2.0 * uAmount) + noise * uAmount * 0.05, 0.0);
+    gl_FragColor = vec4(color, 1.0);
+  }
+`;
+
+const vignetteShader = `
+  uniform sampler2D uTexture;
+  uniform vec2 uResolution;
+  uniform float uAmount;
+  uniform float uRadius;
+  uniform float uSoftness;
+
+  varying vec2 vUv;
+
+  void main() {
+    vec3 color = texture2D(uTexture, vUv).rgb;
+    vec2 p = (vUv - 0.5) * vec2(uResolution.x / uResolution.y, 1.0) * 2.0;
+    float shade = smoothstep(uRadius, uRadius - uSoftness, length(p) * 0.7071);
+    gl_FragColor = vec4(color * max(1.0 - uAmount * (1.0 - shade), 0.0), 1.0);
+  }
+`;
+
+// Folds the angle into one mirrored wedge, in aspect-correct space
+const kaleidoscopeShader = `
+  uniform sampler2D uTexture;
+  uniform vec2 uResolution;
+  uniform float uAmount;
+  uniform float uSegments;
+  uniform float uAngle; // Radians
+
+  varying vec2 vUv;
+
+  const float TAU = 6.28318530718;
+
+  void main() {
+    vec2 aspect = vec2(uResolution.x / uResolution.y, 1.0);
+    vec2 p = (vUv - 0.5) * aspect;
+    float wedge = TAU / uSegments;
+    float a = mod(atan(p.y, p.x) - uAngle, wedge);
+    a = min(a, wedge - a) + uAngle;
+    vec2 folded = length(p) * vec2(cos(a), sin(a)) / aspect + 0.5;
+    vec3 color = mix(texture2D(uTexture, vUv).rgb, texture2D(uTexture, folded).rgb, uAmount);
+    gl_FragColor = vec4(color, 1.0);
+  }
+`;
+
+// The previous output, zoomed and turned, shows through wherever it is brighter
+const feedbackShader = `
+  uniform sampler2D uTexture;
+  uniform sampler2D uPrevious;
+  uniform vec2 uResolution;
+  uniform float uAmount;
+  uniform float uZoom;
+  uniform float uRotation; // Radians per frame
+
+  varying vec2 vUv;
+
+  void main() {
+    vec2 aspect = vec2(uResolution.x / uResolution.y, 1.0);
+    vec2 p = (vUv - 0.5) * aspect / uZoom;
+    float c = cos(-uRotation);
+    float s = sin(-uRotation);
+    vec2 uv = mat2(c, s, -s, c) * p / aspect + 0.5;
+    vec3 previous = all(equal(uv, clamp(uv, 0.0, 1.0))) ? texture2D(uPrevious, uv).rgb : vec3(0.0);
+    gl_FragColor = vec4(max(texture2D(uTexture, vUv).rgb, previous * uAmount), 1.0);
+  }
+`;
+
+const toneMappingShader = `
+  uniform sampler2D uTexture;
+  uniform int uOperator; // Index into TONE_MAPPINGS
+  uniform float uExposure;
+
+  varying vec2 vUv;
+
+  vec3 hable(vec3 x) {
+    const float A = 0.15, B = 0.50, C = 0.10, D = 0.20, E = 0.02, F = 0.30;
+    return ((x * (A * x + C * B) + D * E) / (x * (A * x + B) + D * F)) - E / F;
+  }
+
+  void main() {
+    vec3 color = texture2D(uTexture, vUv).rgb * uExposure;
+    if (uOperator == 1) {
+      color = color / (1.0 + color);
+    } else if (uOperator == 2) {
+      // Narkowicz's fit of the ACES filmic curve
+      color = (color * (2.51 * color + 0.03)) / (color * (2.43 * color + 0.59) + 0.14);
+    } else if (uOperator == 3) {
+      color = hable(color * 2.0) / hable(vec3(11.2));
+    }
+    gl_FragColor = vec4(clamp(color, 0.0, 1.0), 1.0);
+  }
+`;
+
+function createPassMaterial(fragmentShader: string, uniforms: Record<string, THREE.IUniform>) {
+  return new THREE.ShaderMaterial({
+    vertexShader: fullscreenVertexShader,
+    fragmentShader,
+    uniforms: { uTexture: { value: null }, ...uniforms },
+    depthTest: false,
+    depthWrite: false,
+  });
+}
+
+function createHdrTarget(type: THREE.TextureDataType) {
+  return new THREE.WebGLRenderTarget(1, 1, {
+    type,
+    minFilter: THREE.LinearFilter,
+    magFilter: THREE.LinearFilter,
+    depthBuffer: false,
+  });
+}
+
+export interface ToneMappingSettings {
+  operator: ToneMapping;
+  exposure: number;
+}
+
+/**
+ * The HDR effect stack between the accumulated frame and the screen. Effects
+ * run in stack order on float targets (see hdrTargetType); tone mapping is
+ * always last. Owns its targets: call setSize with the drawing buffer size,
+ * and dispose.
+ */
+export class PostChain {
+  private quad = new FullScreenQuad();
+  private targets: THREE.WebGLRenderTarget[];
+  private feedbackTargets: THREE.WebGLRenderTarget[];
+  private bloomTargets: THREE.WebGLRenderTarget[];
+  private feedbackIndex = 0;
+  private feedbackActive = false;
+  private time = 0;
+
+  private materials = {
+    bloomPrefilter: createPassMaterial(bloomPrefilterShader, { uThreshold: { value: 1 }, uKnee: { value: 0.5 } }),
+    bloomDown: createPassMaterial(bloomSampleShader, { uTexelSize: { value: new THREE.Vector2() } }),
+    bloomUp: createPassMaterial(bloomSampleShader, { uTexelSize: { value: new THREE.Vector2() } }),
+    bloomComposite: createPassMaterial(bloomCompositeShader, { uBloom: { value: null }, uAmount: { value: 1 } }),
+    chromatic: createPassMaterial(chromaticShader, {
+      uResolution: { value: new THREE.Vector2() }, uAmount: { value: 0 }, uFalloff: { value: 1 },
+    }),
+    grain: createPassMaterial(grainShader, { uAmount: { value: 0 }, uSize: { value: 1 }, uTime: { value: 0 } }),
+    vignette: createPassMaterial(vignetteShader, {
+      uResolution: { value: new THREE.Vector2() }, uAmount: { value: 0 }, uRadius: { value: 1 }, uSoftness: { value: 0.5 },
+    }),
+    kaleidoscope: createPassMaterial(kaleidoscopeShader, {
+      uResolution: { value: new THREE.Vector2() }, uAmount: { value: 0 }, uSegments: { value: 6 }, uAngle: { value: 0 },
+    }),
+    feedback: createPassMaterial(feedbackShader, {
+      uPrevious: { value: null }, uResolution: { value: new THREE.Vector2() },
+      uAmount: { value: 0 }, uZoom: { value: 1 }, uRotation: { value: 0 },
+    }),
+    toneMapping: createPassMaterial(toneMappingShader, { uOperator: { value: 0 }, uExposure: { value: 1 } }),
+  };
+
+  constructor(targetType: THREE.TextureDataType) {
+    this.targets = [createHdrTarget(targetType), createHdrTarget(targetType)];
+    this.feedbackTargets = [createHdrTarget(targetType), createHdrTarget(targetType)];
+    this.bloomTargets = Array.from({ length: MAX_BLOOM_LEVELS }, () => createHdrTarget(targetType));
+
+    // Upsampling adds each blurrier level onto the sharper one above it
+    this.materials.bloomUp.blending = THREE.AdditiveBlending;
+  }
+
+  setSize(width: number, height: number) {
+    for (const target of [...this.targets, ...this.feedbackTargets]) target.setSize(width, height);
+    this.bloomTargets.forEach((target, i) => {
+      target.setSize(Math.max(1, width >> (i + 1)), Math.max(1, height >> (i + 1)));
+    });
+    this.feedbackActive = false; // Old history no longer lines up
+  }
+
+  /**
+   * Runs the stack over `input` and draws the tone mapped result into the
+   * current render target. `delta` drives animated effects, so offline
+   * renders stay reproducible.
+   */
+  render(
+    gl: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    effects: PostEffect[],
+    mod: ModValues,
+    toneMapping: ToneMappingSettings,
+    delta: number
+  ) {
+    this.time += delta;
+    const output = gl.getRenderTarget();
+    const { width, height } = this.targets[0];
+    let current = input;
+    let feedbackUsed = false;
+
+    // Ping-pong between the chain targets, never writing the texture being read
+    const pass = (material: THREE.ShaderMaterial, target?: THREE.WebGLRenderTarget) => {
+      const write = target ?? (this.targets[0].texture === current ? this.targets[1] : this.targets[0]);
+      material.uniforms.uTexture.value = current;
+      this.draw(gl, material, write);
+      current = write.texture;
+    };
+
+    for (const effect of effects) {
+      if (!effect.enabled) continue;
+      const amount = modulatedAmount(effect, mod[postEffectInfo(effect.kind).target]);
+      if (amount <= 0) continue;
+      const { params } = effect;
+      const { uniforms } = this.materials[effect.kind === 'bloom' ? 'bloomComposite' : effect.kind];
+      uniforms.uAmount.value = amount;
+      uniforms.uResolution?.value.set(width, height);
+
+      switch (effect.kind) {
+        case 'bloom':
+          uniforms.uBloom.value = this.renderBloom(gl, current, params.threshold, params.knee, params.radius);
+          pass(this.materials.bloomComposite);
+          break;
+        case 'chromatic':
+          uniforms.uFalloff.value = params.falloff;
+          pass(this.materials.chromatic);
+          break;
+        case 'grain':
+          uniforms.uSize.value = params.size;
+          uniforms.uTime.value = this.time;
+          pass(this.materials.grain);
+          break;
+        case 'vignette':
+          uniforms.uRadius.value = params.radius;
+          uniforms.uSoftness.value = params.softness;
+          pass(this.materials.vignette);
+          break;
+        case 'kaleidoscope':
+          uniforms.uSegments.value = params.segments;
+          uniforms.uAngle.value = THREE.MathUtils.degToRad(params.angle + params.spin * this.time);
+          pass(this.materials.kaleidoscope);
+          break;
+        case 'feedback': {
+          // Start from black rather than whatever was left when it was last on
+          if (!this.feedbackActive) {
+            for (const target of this.feedbackTargets) this.clear(gl, target);
+            this.feedbackActive = true;
+          }
+          const previous = this.feedbackTargets[this.feedbackIndex];
+          this.feedbackIndex = 1 - this.feedbackIndex;
+          uniforms.uPrevious.value = previous.texture;
+          uniforms.uZoom.value = params.zoom;
+          uniforms.uRotation.value = THREE.MathUtils.degToRad(params.rotation);
+          pass(this.materials.feedback, this.feedbackTargets[this.feedbackIndex]);
+          feedbackUsed = true;
+          break;
+        }
+      }
+    }
+    if (!feedbackUsed) this.feedbackActive = false;
+
+    const tone = this.materials.toneMapping;
+    tone.uniforms.uTexture.value = current;
+    tone.uniforms.uOperator.value = Math.max(TONE_MAPPINGS.findIndex(t => t.value === toneMapping.operator), 0);
+    tone.uniforms.uExposure.value = toneMapping.exposure;
+    this.draw(gl, tone, output);
+  }
+
+  dispose() {
+    for (const target of [...this.targets, ...this.feedbackTargets, ...this.bloomTargets]) target.dispose();
+    Object.values(this.materials).forEach(material => material.dispose());
+    this.quad.dispose();
+  }
+
+  // Returns the blurred bright parts at half resolution
+  private renderBloom(gl: THREE.WebGLRenderer, input: THREE.Texture, threshold: number, knee: number, radius: number) {
+    const levels = THREE.MathUtils.clamp(Math.round(radius), 1, MAX_BLOOM_LEVELS);
+    const { bloomPrefilter, bloomDown, bloomUp } = this.materials;
+
+    bloomPrefilter.uniforms.uTexture.value = input;
+    bloomPrefilter.uniforms.uThreshold.value = threshold;
+    bloomPrefilter.uniforms.uKnee.value = knee;
+    this.draw(gl, bloomPrefilter, this.bloomTargets[0]);
+
+    for (let i = 1; i < levels; i++) {
+      const source = this.bloomTargets[i - 1];
+      bloomDown.uniforms.uTexture.value = source.texture;
+      bloomDown.uniforms.uTexelSize.value.set(1 / source.width, 1 / source.height);
+      this.draw(gl, bloomDown, this.bloomTargets[i]);
+    }
+
+    for (let i = levels - 1; i > 0; i--) {
+      const source = this.bloomTargets[i];
+      bloomUp.uniforms.uTexture.value = source.texture;
+      bloomUp.uniforms.uTexelSize.value.set(0.5 / source.width, 0.5 / source.height);
+      this.draw(gl, bloomUp, this.bloomTargets[i - 1], false);
+    }
+
+    return this.bloomTargets[0].texture;
+  }
+
+  private draw(gl: THREE.WebGLRenderer, material: THREE.Material, target: THREE.WebGLRenderTarget | null, clear = true) {
+    const autoClear = gl.autoClear;
+    gl.autoClear = clear;
+    gl.setRenderTarget(target);
+    this.quad.material = material;
+    this.quad.render(gl);
+    gl.autoClear = autoClear;
+  }
+
+  private clear(gl: THREE.WebGLRenderer, target: THREE.WebGLRenderTarget) {
+    gl.setRenderTarget(target);
+    gl.clear();
+  }
+}
@@ -0,0 +1,119 @@
+import { ModTarget } from './modulation';
+
+export type PostEffectKind = 'bloom' | 'chromatic' | 'grain' | 'vignette' | 'kaleidoscope' | 'feedback';
+
+export interface PostParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number; // Default
+}
+
+export interface PostEffectInfo {
+  kind: PostEffectKind;
+  label: string;
+  amount: { max: number; step: number; value: number }; // Main strength, 0 is off
+  params: PostParam[];
+  target: ModTarget; // Modulation routes to this target add to the amount
+}
+
+export const POST_EFFECTS: PostEffectInfo[] = [
+  {
+    kind: 'bloom',
+    label: 'Bloom',
+    amount: { max: 3, step: 0.05, value: 0.8 },
+    params: [
+      { key: 'threshold', label: 'Threshold', min: 0, max: 4, step: 0.05, value: 1.0 },
+      { key: 'knee', label: 'Knee', min: 0, max: 1, step: 0.05, value: 0.5 },
+      { key: 'radius', label: 'Radius', min: 1, max: 6, step: 1, value: 5 },
+    ],
+    target: 'bloom',
+  },
+  {
+    kind: 'chromatic',
+    label: 'Chromatic Aberration',
+    amount: { max: 20, step: 0.5, value: 3 }, // Pixels at the corners
+    params: [
+      { key: 'falloff', label: 'Falloff', min: 0, max: 3, step: 0.1, value: 1.0 },
+    ],
+    target: 'chromatic',
+  },
+  {
+    kind: 'grain',
+    label: 'Film Grain',
+    amount: { max: 0.5, step: 0.01, value: 0.08 },
+    params: [
+      { key: 'size', label: 'Size', min: 1, max: 4, step: 0.1, value: 1.5 },
+    ],
+    target: 'grain',
+  },
+  {
+    kind: 'vignette',
+    label: 'Vignette',
+    amount: { max: 1.5, step: 0.05, value: 0.6 },
+    params: [
+      { key: 'radius', label: 'Radius', min: 0.2, max: 1.5, step: 0.05, value: 0.8 },
+      { key: 'softness', label: 'Softness', min: 0.05, max: 1, step: 0.05, value: 0.5 },
+    ],
+    target: 'vignette',
+  },
+  {
+    kind: 'kaleidoscope',
+    label: 'Kaleidoscope',
+    amount: { max: 1, step: 0.05, value: 1 }, // Mix with the untouched image
+    params: [
+      { key: 'segments', label: 'Segments', min: 2, max: 16, step: 1, value: 6 },
+      { key: 'angle', label: 'Angle', min: 0, max: 360, step: 1, value: 0 },
+      { key: 'spin', label: 'Spin (°/s)', min: -90, max: 90, step: 1, value: 0 },
+    ],
+    target: 'kaleidoscope',
+  },
+  {
+    kind: 'feedback',
+    label: 'Feedback Zoom',
+    amount: { max: 0.98, step: 0.01, value: 0.6 }, // Share of the previous output kept
+    params: [
+      { key: 'zoom', label: 'Zoom', min: 0.9, max: 1.1, step: 0.005, value: 1.02 },
+      { key: 'rotation', label: 'Rotation (°)', min: -5, max: 5, step: 0.1, value: 0.5 },
+    ],
+    target: 'feedback',
+  },
+];
+
+export const isPostEffectKind = (value: unknown): value is PostEffectKind =>
+  POST_EFFECTS.some(info => info.kind === value);
+
+export const postEffectInfo = (kind: PostEffectKind): PostEffectInfo =>
+  POST_EFFECTS.find(info => info.kind === kind)!;
+
+// One slot in the effect stack; the stack runs top to bottom in HDR, before tone mapping
+export interface PostEffect {
+  kind: PostEffectKind;
+  enabled: boolean;
+  amount: number;
+  params: Record<string, number>;
+}
+
+export function createPostEffect(kind: PostEffectKind, effect: Partial<PostEffect> = {}): PostEffect {
+  const info = postEffectInfo(kind);
+  return {
+    kind,
+    enabled: false,
+    amount: info.amount.value,
+    ...effect,
+    params: Object.fromEntries(info.params.map(param => [param.key, effect.params?.[param.key] ?? param.value])),
+  };
+}
+
+// Every effect appears once; only bloom starts on, to tame the additive blowout
+export const DEFAULT_POST_EFFECTS: PostEffect[] = POST_EFFECTS.map(info =>
+  createPostEffect(info.kind, { enabled: info.kind === 'bloom' })
+);
+
+// Amount for this frame: modulation at depth 1 sweeps the whole range
+export function modulatedAmount(effect: PostEffect, modulation: number): number {
+  const { max } = postEffectInfo(effect.kind).amount;
+  return Math.min(Math.max(effect.amount + modulation * max, 0), max);
+}
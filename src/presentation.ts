@@ -0,0 +1,156 @@
+import { levaStore } from 'leva';
+import { AudioAnalyzerData } from './audioFeatures';
+import { ForceEmitter } from './forces';
+import { ModRoute } from './modulation';
+import { ColorInput, Palette } from './palettes';
+import { ParticleLayer } from './layers';
+import { PostEffect } from './postEffects';
+
+// --- FULLSCREEN ---
+
+export const canFullscreen = () => !!document.fullscreenEnabled;
+
+export async function toggleFullscreen() {
+  if (document.fullscreenElement) {
+    await document.exitFullscreen();
+  } else {
+    await document.documentElement.requestFullscreen();
+  }
+}
+
+// --- OUTPUT WINDOW ---
+
+const OUTPUT_CHANNEL = 'particle-flow.output';
+const OUTPUT_QUERY = 'output';
+
+// Everything the output's scene takes from React state in the control window
+export interface OutputScene {
+  particleCount: number;
+  trailLength: number;
+  colorInput: ColorInput;
+  mode3D: boolean;
+  palette: Palette;
+  palettes: Palette[]; // Every palette, for layers that pick their own
+  layers: ParticleLayer[];
+  routes: ModRoute[];
+  emitters: ForceEmitter[];
+  post: PostEffect[];
+}
+
+export type OutputMessage =
+  | { type: 'ping' } // Control window opened: any output should say hello
+  | { type: 'hello' } // Output opened: send it everything
+  | { type: 'bye' } // Output closed
+  | { type: 'scene'; scene: OutputScene }
+  | { type: 'controls'; values: Record<string, unknown> } // Changed leva values by path
+  | { type: 'audio'; data: AudioAnalyzerData }
+  | { type: 'panic' };
+
+export const isOutputWindow = () => new URLSearchParams(location.search).has(OUTPUT_QUERY);
+
+export function openOutputWindow(): Window | null {
+  return window.open(`${location.pathname}?${OUTPUT_QUERY}`, 'particle-flow-output', 'popup,width=1280,height=720');
+}
+
+export function createOutputChannel(onMessage: (message: OutputMessage) => void): BroadcastChannel {
+  const channel = new BroadcastChannel(OUTPUT_CHANNEL);
+  channel.onmessage = (event: MessageEvent<OutputMessage>) => onMessage(event.data);
+  return channel;
+}
+
+// The debug folder is about this window's own canvas
+const isSyncedControl = (path: string) => !path.startsWith('Debug.');
+
+export interface OutputLinkState {
+  connected: boolean; // An output window has said hello and not left
+}
+
+/**
+ * The control window's end of the output sync. Mirrors the scene settings,
+ * every leva control and each frame's audio features to an output window over
+ * a BroadcastChannel, so the output renders the same look without any
+ * controls or audio of its own.
+ */
+export class OutputLink {
+  private channel: BroadcastChannel | null = null;
+  private scene: OutputScene | null = null;
+  private sentControls = new Map<string, unknown>();
+  private unsubscribeControls: (() => void) | null = null;
+
+  private state: OutputLinkState = { connected: false };
+  private listeners = new Set<() => void>();
+
+  getState(): OutputLinkState {
+    return this.state;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Starts listening for output windows; returns a function that stops. */
+  open(): () => void {
+    this.channel = createOutputChannel((message) => {
+      if (message.type === 'hello') {
+        this.update({ connected: true });
+        this.sendAll();
+      } else if (message.type === 'bye') {
+        this.update({ connected: false });
+      }
+    });
+    this.unsubscribeControls = levaStore.useStore.subscribe(() => this.sendControls());
+    this.post({ type: 'ping' });
+
+    return () => {
+      this.unsubscribeControls?.();
+      this.unsubscribeControls = null;
+      this.channel?.close();
+      this.channel = null;
+    };
+  }
+
+  setScene(scene: OutputScene) {
+    this.scene = scene;
+    if (this.state.connected) this.post({ type: 'scene', scene });
+  }
+
+  sendAudio(data: AudioAnalyzerData) {
+    if (this.state.connected) this.post({ type: 'audio', data });
+  }
+
+  panic() {
+    this.post({ type: 'panic' });
+  }
+
+  private sendAll() {
+    this.sentControls.clear();
+    if (this.scene) this.post({ type: 'scene', scene: this.scene });
+    this.sendControls();
+  }
+
+  // Only values that changed since the last message
+  private sendControls() {
+    if (!this.state.connected) return;
+    const values: Record<string, unknown> = {};
+    let changed = false;
+    for (const [path, item] of Object.entries(levaStore.getData())) {
+      if (!('value' in item) || !isSyncedControl(path) || this.sentControls.get(path) === item.value) continue;
+      this.sentControls.set(path, item.value);
+      values[path] = item.value;
+      changed = true;
+    }
+    if (changed) this.post({ type: 'controls', values });
+  }
+
+  private post(message: OutputMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  private update(changes: Partial<OutputLinkState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
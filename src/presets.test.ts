@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONTROLS, PRESET_VERSION, migratePreset } from './presets';
+
+describe('migratePreset', () => {
+  it('falls back to the default for select values outside the options', () => {
+    const preset = migratePreset({
+      version: PRESET_VERSION,
+      controls: {
+        Camera: { navigation: 'walk' },
+        Bounds: { mode: 'x' },
+        Field: { type: 'lava', secondary: 'wind' },
+        Flocking: { gridSize: 100 },
+      },
+    });
+    expect(preset.controls.Camera.navigation).toBe(DEFAULT_CONTROLS.Camera.navigation);
+    expect(preset.controls.Bounds.mode).toBe(DEFAULT_CONTROLS.Bounds.mode);
+    expect(preset.controls.Field.type).toBe(DEFAULT_CONTROLS.Field.type);
+    expect(preset.controls.Field.secondary).toBe('wind');
+    expect(preset.controls.Flocking.gridSize).toBe(DEFAULT_CONTROLS.Flocking.gridSize);
+  });
+
+  it('drops malformed palette stops', () => {
+    const stops = [null, { color: '#fff' }, { position: 2, color: '#fff' }, { position: 0.5, color: 'red;' }, { position: 0.5, color: '#ff8800' }];
+    const preset = migratePreset({ version: PRESET_VERSION, palette: { id: 'mine', name: 'Mine', stops } });
+    expect(preset.palette?.stops).toEqual([{ position: 0.5, color: '#ff8800' }]);
+
+    const empty = migratePreset({ version: PRESET_VERSION, palette: { id: 'mine', name: 'Mine', stops: [null] } });
+    expect(empty.palette).toBeUndefined();
+  });
+
+  it('rejects versions it does not know', () => {
+    expect(() => migratePreset({ version: 1.5 })).toThrow('Unsupported preset version');
+    expect(() => migratePreset({ version: PRESET_VERSION + 1 })).toThrow('newer');
+  });
+});
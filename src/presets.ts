@@ -0,0 +1,535 @@
+import { levaStore } from 'leva';
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { COLOR_INPUTS, ColorInput, Palette, PaletteStop } from './palettes';
+import { DEFAULT_TIER_ID, PARTICLE_TIERS } from './particleTiers';
+import { DEFAULT_ROUTES, MOD_CURVES, MOD_TARGETS, ModRoute, createRoute, isModSource } from './modulation';
+import { ForceEmitter, createEmitter, isForceKind } from './forces';
+import { DEFAULT_CUSTOM_FIELD, FIELD_TYPES, isFieldType } from './fields';
+import { DEFAULT_POST_EFFECTS, POST_EFFECTS, PostEffect, createPostEffect, isPostEffectKind, postEffectInfo } from './postEffects';
+import { ControlMapping, createMapping, isControlSourceKind } from './controlSurface';
+import { DEFAULT_LAYERS, MAX_LAYERS, ParticleLayer, createLayer, isLayerBand, isLayerBlending } from './layers';
+import { TONE_MAPPINGS } from './postChain';
+import { GRID_SIZES } from './densityGrid';
+import { SPAWN_SHAPES } from './spawnShapes';
+
+// Bump when the shape changes, and add a migration from the previous version below
+export const PRESET_VERSION = 6;
+
+export type ControlValue = number | boolean | string;
+
+// Leva folder -> control key -> value
+export type ControlValues = Record<string, Record<string, ControlValue>>;
+
+// Settings that live in React state rather than leva
+export interface AppSettings {
+  particleTier: string;
+  autoTier: boolean;
+  trailLength: number;
+  colorScheme: string;
+  colorInput: ColorInput;
+  mode3D: boolean;
+  bpmOverride: number | null;
+}
+
+export interface Preset {
+  version: number;
+  name: string;
+  app: AppSettings;
+  controls: ControlValues;
+  routes: ModRoute[]; // Audio modulation matrix
+  emitters: ForceEmitter[]; // Placed forces
+  post: PostEffect[]; // Post effect stack, in order
+  mappings: ControlMapping[]; // MIDI and OSC controls bound to parameters
+  layers: ParticleLayer[]; // Particle systems, bottom first
+  palette?: Palette; // Embedded when colorScheme is a custom palette, so shared presets carry it along
+}
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  particleTier: DEFAULT_TIER_ID,
+  autoTier: false,
+  trailLength: 0.95,
+  colorScheme: 'aurora',
+  colorInput: 'life',
+  mode3D: false,
+  bpmOverride: null,
+};
+
+// Mirrors the leva schemas; anything missing from a preset falls back to these
+export const DEFAULT_CONTROLS: ControlValues = {
+  'Particle Simulation': { flowSpeed: 1.5, particleSize: 3.0, curlInfluence: 1.0, noiseScale: 0.1, seed: 1 },
+  Physics: { mass: 1.0, drag: 0.15, maxSpeed: 20.0, burstStrength: 4.0 },
+  'Beat Sync': { rotationPerBeat: 10, pulse: 0.5 },
+  '3D': { depth: 600, fogNear: 500, fogFar: 1600, depthSize: 0.5 },
+  Camera: { navigation: 'orbit', autoRotate: true, rotateSpeed: 0.5, audioSync: 1.0 },
+  Trails: { smear: 0.0, smearAngle: 90, hueDrift: 0.0 },
+  'Tone Mapping': { operator: 'aces', exposure: 1.0 },
+  Field: {
+    type: 'curl', secondary: 'none', mix: 0.5, fadeTime: 2.0,
+    octaves: 4, lacunarity: 2.0, gain: 0.5, warpAmount: 150, warpScale: 0.002,
+    vortexCount: 4, vortexRadius: 200, vortexSpin: 3.0, sinkCount: 2, sinkRadius: 250, sinkStrength: 3.0,
+    windAngle: 0, windStrength: 2.0, windGust: 0.5,
+  },
+  'Custom Field': { code: DEFAULT_CUSTOM_FIELD },
+  Flocking: { enabled: false, gridSize: 64, cohesion: 1.0, separation: 1.0, alignment: 0.05, restDensity: 1.0 },
+  Bounds: { mode: 'respawn', margin: 40, containStrength: 1.0 },
+  Spawn: {
+    shape: 'rect', width: 1000, height: 600, thickness: 60, angle: 0,
+    text: 'FLOW', font: 'sans-serif', svgPath: 'M0 0 L100 0 L50 87 Z', reform: 0.0,
+  },
+  Pointer: { radius: 250, strength: 2.0, falloff: 1.0 },
+  Analyzer: { bandCount: 8, bandScale: 'log', minFrequency: 30, maxFrequency: 16000, autoGain: false, gateDb: -80, gainDecay: 3 },
+};
+
+// Select controls: leva throws on a value outside the options, so imports fall back to the default
+const CONTROL_OPTIONS: Record<string, Record<string, readonly ControlValue[]>> = {
+  Camera: { navigation: ['orbit', 'fly'] },
+  'Tone Mapping': { operator: TONE_MAPPINGS.map(mapping => mapping.value) },
+  Field: {
+    type: FIELD_TYPES.map(type => type.value),
+    secondary: ['none', ...FIELD_TYPES.map(type => type.value)],
+  },
+  Flocking: { gridSize: GRID_SIZES },
+  Bounds: { mode: ['respawn', 'wrap', 'bounce', 'contain'] },
+  Spawn: { shape: SPAWN_SHAPES.map(shape => shape.value) },
+  Analyzer: { bandScale: ['log', 'mel'] },
+};
+
+type RawPreset = Record<string, unknown>;
+
+// Each entry upgrades a preset from that version to the next one
+const MIGRATIONS: Record<number, (preset: RawPreset) => RawPreset> = {
+  // Version 1: audio reactivity was fixed in the shaders; the default routes reproduce it
+  1: (preset) => ({ ...preset, version: 2, routes: DEFAULT_ROUTES }),
+  // Version 2: before placeable force emitters
+  2: (preset) => ({ ...preset, version: 3, emitters: [] }),
+  // Version 3: the frame went to the screen clipped, with no effects
+  3: (preset) => ({
+    ...preset,
+    version: 4,
+    controls: { ...(isObject(preset.controls) ? preset.controls : {}), 'Tone Mapping': { operator: 'none', exposure: 1.0 } },
+    post: DEFAULT_POST_EFFECTS.map(effect => ({ ...effect, enabled: false })),
+  }),
+  // Version 4: before MIDI and OSC control mapping
+  4: (preset) => ({ ...preset, version: 5, mappings: [] }),
+  // Version 5: a single particle system
+  5: (preset) => ({ ...preset, version: 6, layers: DEFAULT_LAYERS }),
+};
+
+const isObject = (value: unknown): value is RawPreset =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keeps only known keys whose type matches the default
+export function mergeValues<T extends object>(defaults: T, values: unknown): T {
+  const base = defaults as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...base };
+  if (!isObject(values)) return merged as T;
+  for (const key of Object.keys(base)) {
+    const value = values[key];
+    if (value === undefined) continue;
+    if (base[key] === null ? typeof value === 'number' || value === null : typeof value === typeof base[key]) {
+      merged[key] = value;
+    }
+  }
+  return merged as T;
+}
+
+function normalizeRoute(raw: unknown): ModRoute | null {
+  const route = mergeValues(createRoute(), raw);
+  if (!isModSource(route.source)) return null;
+  if (!MOD_TARGETS.some(target => target.value === route.target)) return null;
+  if (!MOD_CURVES.some(curve => curve.value === route.curve)) route.curve = 'linear';
+  route.attack = Math.max(route.attack, 0);
+  route.release = Math.max(route.release, 0);
+  return route;
+}
+
+function normalizeEmitter(raw: unknown): ForceEmitter | null {
+  const emitter = mergeValues(createEmitter(), raw);
+  if (!isForceKind(emitter.kind)) return null;
+  const position = emitter.position as unknown[];
+  if (!Array.isArray(position) || position.length !== 3 || !position.every(Number.isFinite)) return null;
+  emitter.radius = Math.max(emitter.radius, 0);
+  emitter.falloff = Math.max(emitter.falloff, 0);
+  return emitter;
+}
+
+function normalizePostEffect(raw: unknown): PostEffect | null {
+  if (!isObject(raw) || !isPostEffectKind(raw.kind)) return null;
+  const info = postEffectInfo(raw.kind);
+  const defaults = createPostEffect(raw.kind);
+  const effect = mergeValues({ enabled: defaults.enabled, amount: defaults.amount }, raw);
+  const params = mergeValues(defaults.params, raw.params);
+  for (const param of info.params) {
+    params[param.key] = Math.min(Math.max(params[param.key], param.min), param.max);
+  }
+  return createPostEffect(raw.kind, {
+    enabled: effect.enabled,
+    amount: Math.min(Math.max(effect.amount, 0), info.amount.max),
+    params,
+  });
+}
+
+function normalizeMapping(raw: unknown): ControlMapping | null {
+  const mapping = mergeValues(createMapping(), raw);
+  if (!isControlSourceKind(mapping.kind) || !mapping.target) return null;
+  mapping.channel = Math.min(Math.max(Math.round(mapping.channel), 1), 16);
+  mapping.number = Math.min(Math.max(Math.round(mapping.number), 0), 127);
+  mapping.min = Math.min(Math.max(mapping.min, 0), 1);
+  mapping.max = Math.min(Math.max(mapping.max, 0), 1);
+  return mapping;
+}
+
+function normalizeLayer(raw: unknown): ParticleLayer {
+  // Nullable settings default to null, so their values are checked here rather than by mergeValues
+  const layer = mergeValues(createLayer(), raw);
+  const values = isObject(raw) ? raw : {};
+  const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+  return {
+    ...layer,
+    palette: typeof values.palette === 'string' ? values.palette : null,
+    colorInput: COLOR_INPUTS.find(input => input.value === values.colorInput)?.value ?? null,
+    field: isFieldType(values.field) ? values.field : null,
+    blending: isLayerBlending(layer.blending) ? layer.blending : 'additive',
+    band: isLayerBand(layer.band) ? layer.band : 'none',
+    share: clamp(layer.share, 0.01, 1),
+    size: Math.max(layer.size, 0),
+    bandDepth: Math.max(layer.bandDepth, 0),
+    flowSpeed: Math.max(layer.flowSpeed, 0),
+    noiseScale: Math.max(layer.noiseScale, 0),
+    mass: Math.max(layer.mass, 0.01),
+    seed: Math.max(Math.round(layer.seed), 0),
+  };
+}
+
+// Keeps the first slot of each kind in its order; kinds the preset lacks are appended, off
+function normalizePostEffects(raw: unknown): PostEffect[] {
+  if (!Array.isArray(raw)) return DEFAULT_POST_EFFECTS;
+  const effects: PostEffect[] = [];
+  for (const entry of raw) {
+    const effect = normalizePostEffect(entry);
+    if (effect && !effects.some(e => e.kind === effect.kind)) effects.push(effect);
+  }
+  for (const info of POST_EFFECTS) {
+    if (!effects.some(e => e.kind === info.kind)) effects.push(createPostEffect(info.kind));
+  }
+  return effects;
+}
+
+const isPaletteStop = (value: unknown): value is PaletteStop =>
+  isObject(value) &&
+  typeof value.position === 'number' && value.position >= 0 && value.position <= 1 &&
+  typeof value.color === 'string' && /^#([0-9a-f]{3}){1,2}$/i.test(value.color);
+
+// Bad stops are dropped; a palette left without any is rejected
+function normalizePalette(raw: unknown): Palette | undefined {
+  if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !Array.isArray(raw.stops)) return undefined;
+  const stops = raw.stops.filter(isPaletteStop).map(({ position, color }) => ({ position, color }));
+  if (stops.length === 0) return undefined;
+  return { id: raw.id, name: raw.name, stops };
+}
+
+function normalizePreset(raw: RawPreset): Preset {
+  const app = mergeValues(DEFAULT_APP_SETTINGS, raw.app);
+  if (!PARTICLE_TIERS.some(tier => tier.id === app.particleTier)) app.particleTier = DEFAULT_TIER_ID;
+  if (!COLOR_INPUTS.some(input => input.value === app.colorInput)) app.colorInput = DEFAULT_APP_SETTINGS.colorInput;
+
+  const controls: ControlValues = {};
+  for (const folder of Object.keys(DEFAULT_CONTROLS)) {
+    const values = mergeValues(DEFAULT_CONTROLS[folder], isObject(raw.controls) ? raw.controls[folder] : undefined);
+    for (const [key, options] of Object.entries(CONTROL_OPTIONS[folder] ?? {})) {
+      if (!options.includes(values[key])) values[key] = DEFAULT_CONTROLS[folder][key];
+    }
+    controls[folder] = values;
+  }
+
+  const routes = Array.isArray(raw.routes)
+    ? raw.routes.map(normalizeRoute).filter((route): route is ModRoute => route !== null)
+    : DEFAULT_ROUTES;
+
+  const emitters = Array.isArray(raw.emitters)
+    ? raw.emitters.map(normalizeEmitter).filter((emitter): emitter is ForceEmitter => emitter !== null)
+    : [];
+
+  const mappings = Array.isArray(raw.mappings)
+    ? raw.mappings.map(normalizeMapping).filter((mapping): mapping is ControlMapping => mapping !== null)
+    : [];
+
+  const layers = Array.isArray(raw.layers) && raw.layers.length > 0
+    ? raw.layers.slice(0, MAX_LAYERS).map(normalizeLayer)
+        // Ids key the simulations, so a repeated one gets a fresh id
+        .map((layer, i, all) => (all.findIndex(l => l.id === layer.id) === i ? layer : { ...layer, id: createLayer().id }))
+    : DEFAULT_LAYERS;
+
+  const palette = normalizePalette(raw.palette);
+
+  return {
+    version: PRESET_VERSION,
+    name: typeof raw.name === 'string' && raw.name ? raw.name : 'Untitled',
+    app,
+    controls,
+    routes,
+    emitters,
+    post: normalizePostEffects(raw.post),
+    mappings,
+    layers,
+    palette,
+  };
+}
+
+/**
+ * Upgrades a preset from any earlier schema version and fills in missing
+ * values from the defaults. Throws only for data that is not a preset at all
+ * or has a version this app doesn't know.
+ */
+export function migratePreset(data: unknown): Preset {
+  if (!isObject(data)) throw new Error('Not a preset');
+  let preset = data;
+  let version = preset.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Unsupported preset version ${String(version)}`);
+  }
+  if (version > PRESET_VERSION) throw new Error(`Preset version ${version} is newer than this app supports`);
+
+  while (version < PRESET_VERSION) {
+    preset = MIGRATIONS[version](preset);
+    version++;
+  }
+  return normalizePreset(preset);
+}
+
+export function createPreset(
+  name: string,
+  app: Partial<AppSettings> = {},
+  controls: ControlValues = {},
+  routes: ModRoute[] = DEFAULT_ROUTES,
+  post: PostEffect[] = DEFAULT_POST_EFFECTS,
+  layers: ParticleLayer[] = DEFAULT_LAYERS
+): Preset {
+  return normalizePreset({ name, app, controls, routes, post, layers });
+}
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  createPreset('Default'),
+  createPreset('Ember Storm', { colorScheme: 'fire', colorInput: 'speed', trailLength: 0.9 }, {
+    'Particle Simulation': { flowSpeed: 3.0, particleSize: 2.0, curlInfluence: 2.5 },
+    Physics: { drag: 0.3, maxSpeed: 40, burstStrength: 10 },
+    'Beat Sync': { rotationPerBeat: 20, pulse: 1.2 },
+    Trails: { smear: 1.5, smearAngle: 90 },
+  }, [
+    ...DEFAULT_ROUTES,
+    createRoute({ id: 'ember-size', source: 'transient', target: 'particleSize', depth: 1.5, release: 0.3 }),
+    createRoute({ id: 'ember-curl', source: 'mid', target: 'curlInfluence', depth: 2, attack: 0.05, release: 0.5 }),
+  ]),
+  createPreset('Deep Current', { colorScheme: 'ocean', colorInput: 'position', trailLength: 0.98 }, {
+    'Particle Simulation': { flowSpeed: 0.8, particleSize: 4.0, noiseScale: 0.05 },
+    Physics: { mass: 4.0, drag: 0.05 },
+    'Beat Sync': { rotationPerBeat: 0, pulse: 0.2 },
+  }, [
+    // Slow swells instead of jitter: everything eased, nothing on treble
+    createRoute({ id: 'deep-warp', source: 'bass', target: 'timeWarp', depth: 0.4, attack: 0.5, release: 2 }),
+    createRoute({ id: 'deep-speed', source: 'level', target: 'flowSpeed', depth: 2, curve: 'smooth', attack: 0.3, release: 1.5 }),
+    createRoute({ id: 'deep-drag', source: 'level', target: 'drag', depth: 1, invert: true, release: 1 }),
+  ]),
+  createPreset('Nebula', { colorScheme: 'aurora', mode3D: true, trailLength: 0.92 }, {
+    'Particle Simulation': { flowSpeed: 1.2, particleSize: 5.0 },
+    '3D': { depth: 1200, fogNear: 400, fogFar: 2200, depthSize: 1.0 },
+    Camera: { rotateSpeed: 0.3 },
+    Trails: { hueDrift: 0.01 },
+  }),
+  createPreset('Maelstrom', { colorScheme: 'ocean', colorInput: 'speed', trailLength: 0.96 }, {
+    'Particle Simulation': { flowSpeed: 2.0 },
+    Field: { type: 'vortices', secondary: 'fbm', mix: 0.3, vortexCount: 5, vortexRadius: 260, vortexSpin: 4.0 },
+    Bounds: { mode: 'wrap' },
+  }, [
+    ...DEFAULT_ROUTES,
+    // Loud passages hand the flow over to the turbulence
+    createRoute({ id: 'maelstrom-mix', source: 'level', target: 'fieldMix', depth: 0.7, attack: 0.2, release: 1.5 }),
+  ]),
+  createPreset('Prism', { colorScheme: 'rainbow', colorInput: 'bass', trailLength: 0.85 }, {
+    'Particle Simulation': { curlInfluence: 3.0, noiseScale: 0.4 },
+    'Beat Sync': { rotationPerBeat: 45, pulse: 1.0 },
+    Trails: { hueDrift: 0.03 },
+  }),
+  createPreset('Hall of Mirrors', { colorScheme: 'rainbow', colorInput: 'speed', trailLength: 0.88 }, {
+    'Particle Simulation': { flowSpeed: 2.0, particleSize: 2.5 },
+    'Tone Mapping': { exposure: 1.3 },
+  }, [
+    ...DEFAULT_ROUTES,
+    // Kicks throw the image outward; the highs glint through the bloom
+    createRoute({ id: 'mirrors-feedback', source: 'bass', target: 'feedback', depth: 0.3, release: 0.4 }),
+    createRoute({ id: 'mirrors-chromatic', source: 'transient', target: 'chromatic', depth: 0.5, release: 0.2 }),
+    createRoute({ id: 'mirrors-bloom', source: 'treble', target: 'bloom', depth: 0.3, release: 0.3 }),
+  ], [
+    createPostEffect('feedback', { enabled: true, amount: 0.5, params: { zoom: 1.03, rotation: 1 } }),
+    createPostEffect('kaleidoscope', { enabled: true, params: { segments: 8, spin: 10 } }),
+    createPostEffect('bloom', { enabled: true, amount: 1.2 }),
+    createPostEffect('chromatic', { enabled: true, amount: 2 }),
+    createPostEffect('vignette', { enabled: true }),
+  ]),
+  createPreset('Murmuration', { colorScheme: 'aurora', colorInput: 'speed', trailLength: 0.9 }, {
+    'Particle Simulation': { flowSpeed: 1.0, particleSize: 2.5 },
+    Physics: { drag: 0.08 },
+    // Loose flocks that turn together and thin out where they crowd
+    Flocking: { enabled: true, gridSize: 64, cohesion: 3.0, separation: 2.0, alignment: 0.15, restDensity: 2.0 },
+    Bounds: { mode: 'wrap' },
+  }),
+  createPreset('Undertow', { colorScheme: 'ocean', trailLength: 0.94 }, {
+    'Particle Simulation': { flowSpeed: 1.2 },
+  }, DEFAULT_ROUTES, DEFAULT_POST_EFFECTS, [
+    // A heavy, slow swell that surges on the kick, under fine sparks that flare with the highs
+    createLayer({
+      id: 'undertow-swell', name: 'Swell', share: 0.75, band: 'bass', bandDepth: 2,
+      size: 1.6, flowSpeed: 0.4, noiseScale: 0.5, mass: 4,
+    }),
+    createLayer({
+      id: 'undertow-sparks', name: 'Sparks', share: 0.25, palette: 'fire', colorInput: 'speed', band: 'treble', bandDepth: 3,
+      size: 0.5, flowSpeed: 2, noiseScale: 2, mass: 0.5, field: 'fbm', seed: 101,
+    }),
+  ]),
+];
+
+// --- LEVA BRIDGE ---
+
+// Reads the current value of every preset control from the leva store
+export function captureControls(): ControlValues {
+  const controls: ControlValues = {};
+  for (const [folder, defaults] of Object.entries(DEFAULT_CONTROLS)) {
+    controls[folder] = {};
+    for (const [key, fallback] of Object.entries(defaults)) {
+      const input = levaStore.getInput(`${folder}.${key}`);
+      controls[folder][key] = input ? (input.value as ControlValue) : fallback;
+    }
+  }
+  return controls;
+}
+
+/**
+ * Whether leva would take the value for the control at a path: checked against
+ * the mounted input when there is one, else against the defaults and options
+ * above. Paths neither knows about pass, as they can't be checked yet.
+ */
+export function acceptsControlValue(path: string, value: ControlValue): boolean {
+  const input = levaStore.getInput(path);
+  if (input) {
+    switch (input.type) {
+      case 'NUMBER': return typeof value === 'number';
+      case 'SELECT': return (input.settings as { values: unknown[] }).values.includes(value);
+      case 'STRING': return typeof value === 'string';
+      case 'BOOLEAN': return typeof value === 'boolean';
+      default: return false;
+    }
+  }
+  const split = path.lastIndexOf('.');
+  const folder = path.slice(0, split);
+  const key = path.slice(split + 1);
+  const defaultValue = DEFAULT_CONTROLS[folder]?.[key];
+  if (defaultValue === undefined) return true;
+  const options = CONTROL_OPTIONS[folder]?.[key];
+  return options ? options.includes(value) : typeof value === typeof defaultValue;
+}
+
+let cancelPendingControls: (() => void) | null = null;
+
+/**
+ * Pushes control values into leva. Controls whose components have not mounted
+ * yet (e.g. inside the Canvas on first load) are applied as soon as they register.
+ */
+export function applyControls(controls: ControlValues) {
+  cancelPendingControls?.();
+  cancelPendingControls = null;
+
+  const pending = new Map<string, ControlValue>();
+  for (const [folder, values] of Object.entries(controls)) {
+    for (const [key, value] of Object.entries(values)) pending.set(`${folder}.${key}`, value);
+  }
+
+  const flush = () => {
+    for (const [path, value] of pending) {
+      if (!levaStore.getInput(path)) continue;
+      pending.delete(path);
+      try {
+        levaStore.setValueAtPath(path, value, false);
+      } catch (err) {
+        // One bad value shouldn't stop the rest of the look from loading
+        console.warn(`Skipping control ${path}:`, err);
+      }
+    }
+  };
+
+  flush();
+  if (pending.size === 0) return;
+
+  const unsubscribe = levaStore.useStore.subscribe(() => {
+    flush();
+    if (pending.size === 0) cancelPendingControls?.();
+  });
+  cancelPendingControls = () => {
+    unsubscribe();
+    cancelPendingControls = null;
+  };
+}
+
+// --- STORAGE ---
+
+const STORAGE_KEY = 'particle-flow.presets';
+
+export function loadSavedPresets(): Preset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((entry) => {
+      try {
+        return [migratePreset(entry)];
+      } catch {
+        return []; // Skip entries from a newer version or that are corrupt
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function storeSavedPresets(presets: Preset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.warn('Could not save presets:', err);
+  }
+}
+
+// --- SHARING ---
+
+const HASH_PREFIX = '#p=';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Deflated JSON keeps a full preset to a few hundred URL-safe characters
+export function encodePresetHash(preset: Preset): string {
+  return HASH_PREFIX + toBase64Url(deflateSync(strToU8(JSON.stringify(preset)), { level: 9 }));
+}
+
+// Returns null when the hash does not hold a preset
+export function decodePresetHash(hash: string): Preset | null {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  try {
+    return migratePreset(JSON.parse(strFromU8(inflateSync(fromBase64Url(hash.slice(HASH_PREFIX.length))))));
+  } catch (err) {
+    console.warn('Ignoring invalid preset link:', err);
+    return null;
+  }
+}
+
+export function parsePresetJson(json: string): Preset {
+  return migratePreset(JSON.parse(json));
+}
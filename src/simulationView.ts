@@ -0,0 +1,38 @@
+import * as THREE from 'three';
+import { GpuTimer } from './gpuTimer';
+
+/**
+ * What the particle simulation publishes each frame for debug overlays:
+ * its current state textures, the velocity pass's uniforms (so an overlay can
+ * evaluate the very same field) and the GPU time of the compute steps.
+ */
+export class SimulationView {
+  position: THREE.Texture | null = null;
+  velocity: THREE.Texture | null = null;
+  textureSize = 0;
+  count = 0; // Particles drawn, which may be fewer than the texels simulated
+  fieldUniforms: Record<string, THREE.IUniform> | null = null;
+  fieldCode = ''; // Custom field snippet compiled into the velocity pass
+  mode3D = false;
+  readonly computeTimer = new GpuTimer();
+  cpuMilliseconds: number | null = null; // Set instead when the CPU fallback runs the simulation
+}
+
+// One vertex per particle, addressing its texel in the simulation textures
+export function createReferenceGeometry(textureSize: number, count: number): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  const references = new Float32Array(count * 2);
+
+  for (let i = 0; i < count; i++) {
+    const x = (i % textureSize) / textureSize;
+    const y = Math.floor(i / textureSize) / textureSize;
+    references[i * 2] = x + (0.5 / textureSize);
+    references[i * 2 + 1] = y + (0.5 / textureSize);
+  }
+
+  geometry.setAttribute('reference', new THREE.BufferAttribute(references, 2));
+  // Without a position attribute three cannot infer how many vertices to draw
+  geometry.setDrawRange(0, count);
+  geometry.boundingSphere = new THREE.Sphere(new THREE.Vector3(0, 0, 0), 5000);
+  return geometry;
+}
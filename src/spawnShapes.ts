@@ -0,0 +1,182 @@
+import * as THREE from 'three';
+import { createRandom } from './random';
+
+export type SpawnShape = 'rect' | 'circle' | 'ring' | 'line' | 'image' | 'text' | 'svg';
+
+export const SPAWN_SHAPES: { value: SpawnShape; label: string }[] = [
+  { value: 'rect', label: 'Rectangle' },
+  { value: 'circle', label: 'Circle' },
+  { value: 'ring', label: 'Ring' },
+  { value: 'line', label: 'Line' },
+  { value: 'image', label: 'Image (luminance)' },
+  { value: 'text', label: 'Text' },
+  { value: 'svg', label: 'SVG path' },
+];
+
+export interface SpawnSettings {
+  shape: SpawnShape;
+  width: number; // World units; masks are fitted inside width x height
+  height: number;
+  thickness: number; // Ring and line thickness, world units
+  angle: number; // Line rotation, degrees
+  text: string;
+  font: string; // CSS font family
+  svgPath: string; // Path data, as in <path d="...">
+  image?: CanvasImageSource | null;
+}
+
+const MASK_RESOLUTION = 512; // Longest side of rasterized masks, in pixels
+
+/**
+ * Rasterizes image, text and SVG shapes into a grayscale weight per pixel,
+ * fitted to the spawn area. Returns null when there is nothing to draw.
+ */
+function rasterizeMask(settings: SpawnSettings): { weights: Float32Array; width: number; height: number } | null {
+  const aspect = settings.width / Math.max(settings.height, 1);
+  const width = Math.round(aspect >= 1 ? MASK_RESOLUTION : MASK_RESOLUTION * aspect);
+  const height = Math.round(aspect >= 1 ? MASK_RESOLUTION / aspect : MASK_RESOLUTION);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(width, 1);
+  canvas.height = Math.max(height, 1);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  // Scales a box of the given size to fit the canvas, centered
+  const fit = (w: number, h: number) => {
+    const scale = Math.min(canvas.width / w, canvas.height / h);
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.scale(scale, scale);
+    ctx.translate(-w / 2, -h / 2);
+  };
+
+  ctx.fillStyle = '#fff';
+  if (settings.shape === 'image') {
+    const image = settings.image;
+    if (!image) return null;
+    const { width: w, height: h } = image as { width: number; height: number };
+    if (!w || !h) return null;
+    fit(w, h);
+    ctx.drawImage(image, 0, 0, w, h);
+  } else if (settings.shape === 'text') {
+    const lines = settings.text.split('\n').filter(line => line.trim());
+    if (lines.length === 0) return null;
+    const size = 100;
+    ctx.font = `bold ${size}px ${settings.font}`;
+    const w = Math.max(...lines.map(line => ctx.measureText(line).width), 1);
+    const h = lines.length * size * 1.2;
+    fit(w, h);
+    ctx.textBaseline = 'middle';
+    lines.forEach((line, i) => ctx.fillText(line, 0, (i + 0.5) * size * 1.2));
+  } else {
+    const bounds = measureSvgPath(settings.svgPath);
+    if (!bounds) return null;
+    fit(bounds.width, bounds.height);
+    ctx.translate(-bounds.x, -bounds.y);
+    ctx.fill(new Path2D(settings.svgPath));
+  }
+
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  const weights = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < weights.length; i++) {
+    const luminance = (0.2126 * pixels[i * 4] + 0.7152 * pixels[i * 4 + 1] + 0.0722 * pixels[i * 4 + 2]) / 255;
+    weights[i] = luminance * (pixels[i * 4 + 3] / 255);
+  }
+  return { weights, width: canvas.width, height: canvas.height };
+}
+
+// Path2D has no bounding box, so measure the path in a throwaway SVG
+function measureSvgPath(d: string): DOMRect | null {
+  if (!d.trim()) return null;
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  svg.style.position = 'absolute';
+  svg.style.visibility = 'hidden';
+  const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+  path.setAttribute('d', d);
+  svg.appendChild(path);
+  document.body.appendChild(svg);
+  try {
+    const box = path.getBBox();
+    return box.width > 0 || box.height > 0
+      ? new DOMRect(box.x, box.y, Math.max(box.width, 1), Math.max(box.height, 1))
+      : null;
+  } catch {
+    return null;
+  } finally {
+    svg.remove();
+  }
+}
+
+/**
+ * Precomputes `count` spawn points as RGBA texels: xy in world units, z unused
+ * and w a random depth offset in [-0.5, 0.5] that the shader scales by the
+ * spawn depth. Masks fall back to the rectangle when they are empty.
+ */
+export function generateSpawnPoints(settings: SpawnSettings, count: number, seed: number): Float32Array {
+  const random = createRandom(seed);
+  const points = new Float32Array(count * 4);
+  const { width, height, thickness } = settings;
+
+  let sample: (out: [number, number]) => void = (out) => {
+    out[0] = (random() - 0.5) * width;
+    out[1] = (random() - 0.5) * height;
+  };
+
+  if (settings.shape === 'circle' || settings.shape === 'ring') {
+    const outer = Math.min(width, height) / 2;
+    const inner = settings.shape === 'ring' ? Math.max(outer - thickness, 0) : 0;
+    sample = (out) => {
+      // Uniform over the annulus area
+      const r = Math.sqrt(inner * inner + random() * (outer * outer - inner * inner));
+      const a = random() * Math.PI * 2;
+      out[0] = Math.cos(a) * r;
+      out[1] = Math.sin(a) * r;
+    };
+  } else if (settings.shape === 'line') {
+    const a = THREE.MathUtils.degToRad(settings.angle);
+    const c = Math.cos(a);
+    const s = Math.sin(a);
+    sample = (out) => {
+      const along = (random() - 0.5) * width;
+      const across = (random() - 0.5) * thickness;
+      out[0] = along * c - across * s;
+      out[1] = along * s + across * c;
+    };
+  } else if (settings.shape === 'image' || settings.shape === 'text' || settings.shape === 'svg') {
+    const mask = rasterizeMask(settings);
+    if (mask) {
+      // Cumulative weights, so each point is a binary search away
+      const cdf = new Float32Array(mask.weights.length);
+      let total = 0;
+      for (let i = 0; i < cdf.length; i++) {
+        total += mask.weights[i];
+        cdf[i] = total;
+      }
+      if (total > 0) {
+        const scale = Math.min(width / mask.width, height / mask.height);
+        sample = (out) => {
+          const target = random() * total;
+          let lo = 0;
+          let hi = cdf.length - 1;
+          while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (cdf[mid] < target) lo = mid + 1;
+            else hi = mid;
+          }
+          // Jitter within the pixel; canvas y points down
+          out[0] = ((lo % mask.width) + random() - mask.width / 2) * scale;
+          out[1] = (mask.height / 2 - Math.floor(lo / mask.width) - random()) * scale;
+        };
+      }
+    }
+  }
+
+  const point: [number, number] = [0, 0];
+  for (let i = 0; i < count; i++) {
+    sample(point);
+    points[i * 4] = point[0];
+    points[i * 4 + 1] = point[1];
+    points[i * 4 + 2] = 0;
+    points[i * 4 + 3] = random() - 0.5;
+  }
+  return points;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { TempoTracker } from './tempoTracker';
+
+describe('TempoTracker', () => {
+  it('places the beat from clock pulses without any audio', () => {
+    const tracker = new TempoTracker();
+    tracker.setClock(120);
+    for (let pulse = 0; pulse <= 30; pulse++) tracker.clockPulse(pulse, 24);
+    const state = tracker.state();
+    expect(state.bpm).toBe(120);
+    expect(state.beatCount).toBe(1);
+    expect(state.beatPhase).toBeCloseTo(6 / 24);
+    expect(state.barPhase).toBeCloseTo((1 + 6 / 24) / 4);
+  });
+
+  it('leaves the beat to the clock while it is followed', () => {
+    const tracker = new TempoTracker();
+    tracker.setClock(120);
+    tracker.clockPulse(12, 24);
+    const silence = new Uint8Array(64);
+    tracker.process(silence, 0);
+    expect(tracker.process(silence, 0.25).beatPhase).toBeCloseTo(0.5);
+  });
+});
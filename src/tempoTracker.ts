@@ -0,0 +1,296 @@
+export interface TempoState {
+  bpm: number;        // Current tempo estimate (0 until locked)
+  beatPhase: number;  // 0-1 position within the current beat
+  barPhase: number;   // 0-1 position within the current bar
+  beatCount: number;  // Beats elapsed since tracking started
+}
+
+interface TempoTrackerOptions {
+  beatsPerBar?: number;
+  minBpm?: number;
+  maxBpm?: number;
+  historySeconds?: number; // Onset envelope length used for tempo estimation
+}
+
+// Onset envelope is resampled onto a fixed grid so autocorrelation lags map to time
+const ENVELOPE_RATE = 100; // Hz
+const ESTIMATE_INTERVAL = 1.0; // Seconds between tempo re-estimates
+const ONSET_HISTORY = 30; // Analysis frames of flux used for the adaptive threshold
+const ONSET_SENSITIVITY = 1.5; // Standard deviations above the local mean
+const PHASE_CORRECTION = 0.15; // How hard an onset pulls the beat phase
+const TAP_TIMEOUT = 2.0; // Seconds before a new tap starts a fresh sequence
+const MAX_TAPS = 8;
+
+const EMPTY_TEMPO: TempoState = { bpm: 0, beatPhase: 0, barPhase: 0, beatCount: 0 };
+
+/**
+ * Spectral-flux onset detector with autocorrelation tempo estimation and a
+ * phase-locked beat clock. Feed it one magnitude spectrum per analysis frame.
+ */
+export class TempoTracker {
+  private readonly beatsPerBar: number;
+  private readonly minBpm: number;
+  private readonly maxBpm: number;
+  private readonly envelope: Float32Array;
+
+  private previousSpectrum: Float32Array | null = null;
+  private envelopeIndex = 0;
+  private envelopeFilled = 0;
+  private envelopeTime = -1;
+  private lastEstimateTime = 0;
+  private fluxHistory: number[] = [];
+  private lastOnsetTime = -Infinity;
+  private lastTime = -1;
+
+  private estimatedBpm = 0;
+  private clockBpm: number | null = null;
+  private overrideBpm: number | null = null;
+  private taps: number[] = [];
+  private tappedBpm: number | null = null;
+
+  private phase = 0;
+  private beats = 0;
+
+  constructor(options: TempoTrackerOptions = {}) {
+    const { beatsPerBar = 4, minBpm = 70, maxBpm = 180, historySeconds = 8 } = options;
+    this.beatsPerBar = beatsPerBar;
+    this.minBpm = minBpm;
+    this.maxBpm = maxBpm;
+    this.envelope = new Float32Array(Math.ceil(historySeconds * ENVELOPE_RATE));
+  }
+
+  get bpm(): number {
+    return this.clockBpm ?? this.overrideBpm ?? this.tappedBpm ?? this.estimatedBpm;
+  }
+
+  /** Follow an external clock (MIDI); it wins over everything else until cleared with null. */
+  setClock(bpm: number | null) {
+    this.clockBpm = bpm !== null && bpm > 0 ? bpm : null;
+  }
+
+  // While a clock is followed its pulses place the beat, with or without audio
+  get clocked(): boolean {
+    return this.clockBpm !== null;
+  }
+
+  /** One pulse of an external clock, counted from its start, with `ppqn` pulses per beat. */
+  clockPulse(pulse: number, ppqn: number) {
+    const phase = (pulse % ppqn) / ppqn;
+    if (phase < this.phase - 0.5) this.beats++; // Wrapped onto the next beat
+    this.phase = phase;
+  }
+
+  /** Fix the tempo (e.g. for a live set); pass null to return to detection. */
+  setOverride(bpm: number | null) {
+    this.overrideBpm = bpm !== null && bpm > 0 ? bpm : null;
+  }
+
+  /** Tap tempo: each tap lands on a beat; two or more taps set the tempo. */
+  tap(time: number) {
+    const last = this.taps[this.taps.length - 1];
+    if (last === undefined || time - last > TAP_TIMEOUT) {
+      this.taps = [];
+    }
+    this.taps.push(time);
+    if (this.taps.length > MAX_TAPS) this.taps.shift();
+
+    if (this.taps.length >= 2) {
+      const intervals = this.taps.slice(1).map((t, i) => t - this.taps[i]).sort((a, b) => a - b);
+      const median = intervals[Math.floor(intervals.length / 2)];
+      this.tappedBpm = 60 / median;
+    }
+
+    // The tap is a beat: snap the clock onto it
+    this.syncBeat();
+  }
+
+  /** Snap the beat clock onto a beat that lands now. */
+  syncBeat() {
+    if (this.phase > 0.5) this.beats++;
+    this.phase = 0;
+  }
+
+  /** Forget tapped tempo so detection takes over again. */
+  clearTap() {
+    this.taps = [];
+    this.tappedBpm = null;
+  }
+
+  reset() {
+    this.previousSpectrum = null;
+    this.envelope.fill(0);
+    this.envelopeIndex = 0;
+    this.envelopeFilled = 0;
+    this.envelopeTime = -1;
+    this.lastEstimateTime = 0;
+    this.fluxHistory = [];
+    this.lastOnsetTime = -Infinity;
+    this.lastTime = -1;
+    this.estimatedBpm = 0;
+    this.clearTap();
+    this.phase = 0;
+    this.beats = 0;
+  }
+
+  /**
+   * @param spectrum Byte magnitude spectrum (as from getByteFrequencyData)
+   * @param time Audio clock time in seconds
+   */
+  process(spectrum: ArrayLike<number>, time: number): TempoState {
+    const flux = this.spectralFlux(spectrum);
+    const onset = this.detectOnset(flux, time);
+    this.pushEnvelope(flux, time);
+
+    if (time - this.lastEstimateTime >= ESTIMATE_INTERVAL) {
+      this.lastEstimateTime = time;
+      this.estimateTempo();
+    }
+
+    this.advanceClock(time, onset);
+    return this.state();
+  }
+
+  state(): TempoState {
+    const bpm = this.bpm;
+    if (bpm <= 0) return { ...EMPTY_TEMPO };
+
+    const beatInBar = this.beats % this.beatsPerBar;
+    return {
+      bpm,
+      beatPhase: this.phase,
+      barPhase: (beatInBar + this.phase) / this.beatsPerBar,
+      beatCount: this.beats,
+    };
+  }
+
+  // Sum of positive, log-compressed magnitude increases across bins
+  private spectralFlux(spectrum: ArrayLike<number>): number {
+    const size = spectrum.length;
+    if (!this.previousSpectrum || this.previousSpectrum.length !== size) {
+      this.previousSpectrum = new Float32Array(size);
+    }
+
+    let flux = 0;
+    for (let i = 0; i < size; i++) {
+      const magnitude = Math.log1p(spectrum[i] / 255 * 100);
+      const rise = magnitude - this.previousSpectrum[i];
+      if (rise > 0) flux += rise;
+      this.previousSpectrum[i] = magnitude;
+    }
+    return flux / size;
+  }
+
+  private detectOnset(flux: number, time: number): boolean {
+    this.fluxHistory.push(flux);
+    if (this.fluxHistory.length > ONSET_HISTORY) this.fluxHistory.shift();
+
+    const n = this.fluxHistory.length;
+    const mean = this.fluxHistory.reduce((sum, v) => sum + v, 0) / n;
+    const variance = this.fluxHistory.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n;
+    const threshold = mean + ONSET_SENSITIVITY * Math.sqrt(variance);
+
+    // Refractory period of a sixteenth at the fastest tempo
+    const refractory = 60 / this.maxBpm / 4;
+    if (flux > threshold && flux > 0.01 && time - this.lastOnsetTime > refractory) {
+      this.lastOnsetTime = time;
+      return true;
+    }
+    return false;
+  }
+
+  // Sample-and-hold the flux onto the fixed-rate envelope grid
+  private pushEnvelope(flux: number, time: number) {
+    // Start fresh after a seek or a long stall instead of back-filling
+    const historySeconds = this.envelope.length / ENVELOPE_RATE;
+    if (this.envelopeTime < 0 || time < this.envelopeTime - 1 || time - this.envelopeTime > historySeconds) {
+      this.envelopeTime = time;
+    }
+    while (this.envelopeTime <= time) {
+      this.envelope[this.envelopeIndex] = flux;
+      this.envelopeIndex = (this.envelopeIndex + 1) % this.envelope.length;
+      this.envelopeFilled = Math.min(this.envelope.length, this.envelopeFilled + 1);
+      this.envelopeTime += 1 / ENVELOPE_RATE;
+    }
+  }
+
+  private estimateTempo() {
+    const length = this.envelopeFilled;
+    const minLag = Math.floor((60 / this.maxBpm) * ENVELOPE_RATE);
+    const maxLag = Math.ceil((60 / this.minBpm) * ENVELOPE_RATE);
+    if (length < maxLag * 2) return;
+
+    // Unroll the ring buffer, oldest first, with the mean removed
+    const size = this.envelope.length;
+    const start = (this.envelopeIndex - length + size) % size;
+    const signal = new Float32Array(length);
+    let mean = 0;
+    for (let i = 0; i < length; i++) {
+      signal[i] = this.envelope[(start + i) % size];
+      mean += signal[i];
+    }
+    mean /= length;
+    for (let i = 0; i < length; i++) signal[i] -= mean;
+
+    const scores = new Float32Array(maxLag + 2);
+    for (let lag = minLag; lag <= maxLag + 1; lag++) {
+      let sum = 0;
+      for (let i = lag; i < length; i++) sum += signal[i] * signal[i - lag];
+      scores[lag] = sum / (length - lag);
+    }
+
+    // Weight lags with a log-normal prior centered on 120 BPM to avoid octave errors
+    let bestLag = 0;
+    let bestScore = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const bpm = (60 * ENVELOPE_RATE) / lag;
+      const prior = Math.exp(-0.5 * (Math.log2(bpm / 120) / 0.9) ** 2);
+      const score = scores[lag] * prior;
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+    if (bestLag === 0) return;
+
+    // Parabolic interpolation around the peak for sub-sample precision
+    const a = scores[bestLag - 1];
+    const b = scores[bestLag];
+    const c = scores[bestLag + 1];
+    const denominator = a - 2 * b + c;
+    const offset = denominator !== 0 ? (0.5 * (a - c)) / denominator : 0;
+    const bpm = (60 * ENVELOPE_RATE) / (bestLag + Math.max(-0.5, Math.min(0.5, offset)));
+
+    // Glide toward new estimates, but jump when the tempo clearly changed
+    if (this.estimatedBpm === 0 || Math.abs(bpm - this.estimatedBpm) > 8) {
+      this.estimatedBpm = bpm;
+    } else {
+      this.estimatedBpm += (bpm - this.estimatedBpm) * 0.25;
+    }
+  }
+
+  private advanceClock(time: number, onset: boolean) {
+    const dt = this.lastTime < 0 ? 0 : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+
+    const bpm = this.bpm;
+    if (bpm <= 0 || this.clocked) return;
+
+    this.phase += (dt * bpm) / 60;
+    while (this.phase >= 1) {
+      this.phase -= 1;
+      this.beats++;
+    }
+
+    // Nudge the clock toward onsets that land close to a predicted beat
+    if (onset) {
+      const error = this.phase > 0.5 ? this.phase - 1 : this.phase;
+      if (Math.abs(error) < 0.25) {
+        this.phase -= error * PHASE_CORRECTION;
+        if (this.phase < 0) {
+          this.phase += 1;
+          this.beats = Math.max(0, this.beats - 1);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateTimeline, normalizeTimeline } from './timeline';
+
+describe('normalizeTimeline', () => {
+  it('drops values the target control would reject', () => {
+    const timeline = normalizeTimeline({
+      tracks: [
+        { target: 'Bounds.mode', keyframes: [{ time: 0, value: 'x' }, { time: 1, value: 'wrap' }, { time: 2, value: 3 }] },
+        { target: 'Physics.mass', keyframes: [{ time: 0, value: 'heavy' }, { time: 1, value: 2 }] },
+      ],
+      markers: [{ time: 0, controls: { Camera: { navigation: 'walk', autoRotate: false } } }],
+    });
+    expect(timeline.tracks[0].keyframes.map(k => k.value)).toEqual(['wrap']);
+    expect(timeline.tracks[1].keyframes.map(k => k.value)).toEqual([2]);
+    expect(timeline.markers[0].controls).toEqual({ Camera: { autoRotate: false } });
+  });
+
+  it('keeps tracks on controls it cannot check', () => {
+    const timeline = normalizeTimeline({ tracks: [{ target: 'Later.control', keyframes: [{ time: 0, value: 'any' }] }] });
+    expect(evaluateTimeline(timeline, 0)).toEqual({ 'Later.control': 'any' });
+  });
+});
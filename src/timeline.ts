@@ -0,0 +1,226 @@
+import { ControlValue, ControlValues, acceptsControlValue, mergeValues } from './presets';
+
+// Bump when the shape changes, and migrate older timelines in normalizeTimeline
+export const TIMELINE_VERSION = 1;
+
+export type Easing = 'linear' | 'hold' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export const EASINGS: { value: Easing; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'hold', label: 'Hold' },
+  { value: 'easeIn', label: 'Ease In' },
+  { value: 'easeOut', label: 'Ease Out' },
+  { value: 'easeInOut', label: 'Ease In/Out' },
+];
+
+export const isEasing = (value: unknown): value is Easing =>
+  EASINGS.some(easing => easing.value === value);
+
+// Maps 0-1 progress through a segment onto 0-1 of the way between its values
+export function ease(easing: Easing, t: number): number {
+  switch (easing) {
+    case 'hold': return t >= 1 ? 1 : 0;
+    case 'easeIn': return t * t * t;
+    case 'easeOut': return 1 - (1 - t) ** 3;
+    case 'easeInOut': return t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2;
+    default: return t;
+  }
+}
+
+export interface Keyframe {
+  id: string;
+  time: number; // Seconds into the track
+  value: ControlValue;
+  easing: Easing; // Shapes the segment from this keyframe to the next
+}
+
+// Automates one leva control, e.g. 'Particle Simulation.flowSpeed'. Settings
+// outside leva (trail length, color scheme) have no path and can't be keyed.
+export interface TimelineTrack {
+  id: string;
+  target: string;
+  keyframes: Keyframe[]; // Sorted by time
+}
+
+// A named moment in the song; with controls it starts a section that morphs into that look
+export interface TimelineMarker {
+  id: string;
+  time: number;
+  label: string;
+  presetName: string; // Where the controls came from, for display
+  controls: ControlValues | null;
+  morph: number; // Seconds to blend from the previous section's look
+  easing: Easing;
+}
+
+export interface Timeline {
+  version: number;
+  tracks: TimelineTrack[];
+  markers: TimelineMarker[]; // Sorted by time
+}
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const EMPTY_TIMELINE: Timeline = { version: TIMELINE_VERSION, tracks: [], markers: [] };
+
+export function createKeyframe(keyframe: Partial<Keyframe> = {}): Keyframe {
+  return { id: createId(), time: 0, value: 0, easing: 'linear', ...keyframe };
+}
+
+export function createTrack(target: string, keyframes: Keyframe[] = []): TimelineTrack {
+  return { id: createId(), target, keyframes };
+}
+
+export function createMarker(marker: Partial<TimelineMarker> = {}): TimelineMarker {
+  return { id: createId(), time: 0, label: 'Marker', presetName: '', controls: null, morph: 2, easing: 'easeInOut', ...marker };
+}
+
+export const sortByTime = <T extends { time: number }>(items: T[]): T[] =>
+  [...items].sort((a, b) => a.time - b.time);
+
+// Numbers interpolate; anything else switches once the blend passes `threshold`
+function blend(from: ControlValue, to: ControlValue, t: number, threshold: number): ControlValue {
+  if (typeof from === 'number' && typeof to === 'number') return from + (to - from) * t;
+  return t >= threshold ? to : from;
+}
+
+function sampleTrack(keyframes: Keyframe[], time: number): ControlValue {
+  if (time <= keyframes[0].time) return keyframes[0].value;
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i];
+    const to = keyframes[i + 1];
+    if (time >= to.time) continue;
+    const span = to.time - from.time;
+    const t = span > 0 ? ease(from.easing, (time - from.time) / span) : 1;
+    // Selects and toggles hold until the next keyframe
+    return blend(from.value, to.value, t, 1);
+  }
+  return keyframes[keyframes.length - 1].value;
+}
+
+/**
+ * Every control the timeline sets at `time`, by leva path. A pure function of
+ * time, so live playback, scrubbing and offline renders all agree. Keyframe
+ * tracks win over section morphs on the same control; controls neither
+ * touches are left to the panel.
+ */
+export function evaluateTimeline(timeline: Timeline, time: number): Record<string, ControlValue> {
+  const values: Record<string, ControlValue> = {};
+
+  // Sections layer up in order, so a control set by an earlier section still
+  // holds after a seek past it; the current one morphs from the look before it
+  let before: ControlValues = {};
+  let after: ControlValues = {};
+  let section: TimelineMarker | null = null;
+  for (const marker of timeline.markers) {
+    if (!marker.controls) continue;
+    if (marker.time > time) break;
+    before = after;
+    after = { ...after };
+    for (const [folder, controls] of Object.entries(marker.controls)) after[folder] = { ...after[folder], ...controls };
+    section = marker;
+  }
+  if (section) {
+    const progress = section.morph > 0 ? Math.min((time - section.time) / section.morph, 1) : 1;
+    const t = ease(section.easing, progress);
+    for (const [folder, controls] of Object.entries(after)) {
+      for (const [key, value] of Object.entries(controls)) {
+        const previous = before[folder]?.[key];
+        values[`${folder}.${key}`] = previous === undefined ? value : blend(previous, value, t, 0.5);
+      }
+    }
+  }
+
+  for (const track of timeline.tracks) {
+    if (track.keyframes.length > 0) values[track.target] = sampleTrack(track.keyframes, time);
+  }
+  return values;
+}
+
+// --- SERIALIZATION ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isControlValue = (value: unknown): value is ControlValue =>
+  (typeof value === 'number' && Number.isFinite(value)) || typeof value === 'string' || typeof value === 'boolean';
+
+function normalizeKeyframe(raw: unknown): Keyframe | null {
+  if (!isObject(raw) || !isControlValue(raw.value)) return null;
+  const keyframe = mergeValues(createKeyframe(), raw);
+  if (!Number.isFinite(keyframe.time)) return null;
+  return { ...keyframe, time: Math.max(keyframe.time, 0), value: raw.value, easing: isEasing(keyframe.easing) ? keyframe.easing : 'linear' };
+}
+
+function normalizeTrack(raw: unknown): TimelineTrack | null {
+  if (!isObject(raw) || typeof raw.target !== 'string' || !raw.target) return null;
+  const target = raw.target;
+  // Values the target's control would reject are dropped, so playback never hits them
+  const keyframes = Array.isArray(raw.keyframes)
+    ? raw.keyframes.map(normalizeKeyframe)
+        .filter((keyframe): keyframe is Keyframe => keyframe !== null && acceptsControlValue(target, keyframe.value))
+    : [];
+  return { id: typeof raw.id === 'string' ? raw.id : createId(), target, keyframes: sortByTime(keyframes) };
+}
+
+function normalizeControls(raw: unknown): ControlValues | null {
+  if (!isObject(raw)) return null;
+  const controls: ControlValues = {};
+  for (const [folder, values] of Object.entries(raw)) {
+    if (!isObject(values)) continue;
+    controls[folder] = Object.fromEntries(
+      Object.entries(values).filter((entry): entry is [string, ControlValue] =>
+        isControlValue(entry[1]) && acceptsControlValue(`${folder}.${entry[0]}`, entry[1]))
+    );
+  }
+  return controls;
+}
+
+function normalizeMarker(raw: unknown): TimelineMarker | null {
+  if (!isObject(raw)) return null;
+  const marker = mergeValues(createMarker(), raw);
+  if (!Number.isFinite(marker.time)) return null;
+  return {
+    ...marker,
+    time: Math.max(marker.time, 0),
+    controls: normalizeControls(raw.controls),
+    morph: Math.max(marker.morph, 0),
+    easing: isEasing(marker.easing) ? marker.easing : 'linear',
+  };
+}
+
+/** Checks timeline JSON, dropping anything malformed. Throws only for data that is not a timeline. */
+export function normalizeTimeline(data: unknown): Timeline {
+  if (!isObject(data) || !Array.isArray(data.tracks)) throw new Error('Not a timeline');
+  const version = typeof data.version === 'number' ? data.version : 1;
+  if (version > TIMELINE_VERSION) throw new Error(`Timeline version ${version} is newer than this app supports`);
+  const markers = Array.isArray(data.markers) ? data.markers.map(normalizeMarker) : [];
+  return {
+    version: TIMELINE_VERSION,
+    tracks: data.tracks.map(normalizeTrack).filter((track): track is TimelineTrack => track !== null),
+    markers: sortByTime(markers.filter((marker): marker is TimelineMarker => marker !== null)),
+  };
+}
+
+export function parseTimelineJson(json: string): Timeline {
+  return normalizeTimeline(JSON.parse(json));
+}
+
+const STORAGE_KEY = 'particle-flow.timeline';
+
+export function loadTimeline(): Timeline {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseTimelineJson(stored) : EMPTY_TIMELINE;
+  } catch {
+    return EMPTY_TIMELINE;
+  }
+}
+
+export function storeTimeline(timeline: Timeline) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(timeline));
+  } catch (err) {
+    console.warn('Could not save timeline:', err);
+  }
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * The value once it has stopped changing for `delay` milliseconds, so work
+ * keyed on a text input runs when typing pauses rather than per keystroke.
+ */
+export function useDebounced<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delay);
+    return () => window.clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+
+// Keys are left out so shortcuts work without bringing the UI back
+const ACTIVITY_EVENTS = ['pointermove', 'pointerdown', 'wheel'];
+
+/**
+ * True once the pointer has been still for `timeout` milliseconds while
+ * `enabled`; any movement resets it. Always false when disabled.
+ */
+export function useIdle(enabled: boolean, timeout = 2500): boolean {
+  const [idle, setIdle] = useState(false);
+
+  useEffect(() => {
+    setIdle(false);
+    if (!enabled) return;
+
+    let timer = window.setTimeout(() => setIdle(true), timeout);
+    const wake = () => {
+      setIdle(false);
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => setIdle(true), timeout);
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, wake));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, wake));
+    };
+  }, [enabled, timeout]);
+
+  return idle;
+}